@@ -5,11 +5,16 @@ import { initCommand } from "./commands/init.js";
 import { ingestCommand } from "./commands/ingest.js";
 import { statsCommand } from "./commands/stats.js";
 import { sampleCommand } from "./commands/sample.js";
+import { searchCommand } from "./commands/search.js";
 import { labelTemplateCommand } from "./commands/labelTemplate.js";
 import { publishCommand } from "./commands/publish.js";
 import { versionsCommand } from "./commands/versions.js";
 import { exportCommand } from "./commands/export.js";
 import { cleanCommand } from "./commands/clean.js";
+import { dimensionsCommand } from "./commands/dimensions.js";
+import { doctorCommand } from "./commands/doctor.js";
+import { dbCommand } from "./commands/db.js";
+import { uiCommand } from "./commands/ui.js";
 
 const program = new Command();
 
@@ -20,12 +25,17 @@ program
 
 program.addCommand(initCommand());
 program.addCommand(ingestCommand());
+program.addCommand(dimensionsCommand());
 program.addCommand(statsCommand());
 program.addCommand(sampleCommand());
+program.addCommand(searchCommand());
 program.addCommand(labelTemplateCommand());
+program.addCommand(uiCommand());
 program.addCommand(publishCommand());
 program.addCommand(versionsCommand());
 program.addCommand(exportCommand());
+program.addCommand(doctorCommand());
+program.addCommand(dbCommand());
 program.addCommand(cleanCommand());
 
 program.parse();
@@ -0,0 +1,63 @@
+import { Command } from "commander";
+import { SQLiteStore } from "../core/store/sqlite.js";
+import { getDbPath } from "../core/store/index.js";
+import { fileExists } from "../util/fs.js";
+
+export function dbCommand(): Command {
+  const cmd = new Command("db")
+    .description("Manage the local SQLite database");
+
+  cmd
+    .command("migrate")
+    .description("Apply pending schema migrations (backing up the database first)")
+    .option("--status", "Show the schema version and pending migrations without applying them", false)
+    .action(async (options: { status: boolean }) => {
+      try {
+        const dbPath = getDbPath();
+        if (!fileExists(dbPath)) {
+          console.error(`No database found at ${dbPath}. Run \`goldenset init\` first.`);
+          process.exit(1);
+        }
+
+        // Opened without migrating, so --status shows the state on disk
+        const store = new SQLiteStore(dbPath, { migrate: false });
+        try {
+          if (options.status) {
+            const status = store.getMigrationStatus();
+            console.log(`Schema version: ${status.current} (latest: ${status.latest})`);
+            if (status.current > status.latest) {
+              console.log("The database is newer than this version of goldenset.");
+            } else if (status.pending.length === 0) {
+              console.log("Up to date.");
+            } else {
+              console.log("Pending migrations:");
+              for (const migration of status.pending) {
+                console.log(`  ${migration.version}: ${migration.name}`);
+              }
+            }
+            return;
+          }
+
+          const result = store.migrate();
+          if (result.applied.length === 0) {
+            console.log(`Schema is up to date (version ${result.to}).`);
+            return;
+          }
+          if (result.backupPath) {
+            console.log(`Backed up database to ${result.backupPath}`);
+          }
+          for (const migration of result.applied) {
+            console.log(`Applied migration ${migration.version}: ${migration.name}`);
+          }
+          console.log(`Schema version: ${result.from} -> ${result.to}`);
+        } finally {
+          store.close();
+        }
+      } catch (error) {
+        console.error("Error migrating database:", error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
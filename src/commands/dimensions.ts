@@ -0,0 +1,158 @@
+import { Command } from "commander";
+import { getStore } from "../core/store/index.js";
+import {
+  loadRules,
+  applyRules,
+  formatDeriveSummary,
+  getRulesPath,
+} from "../core/dimensions/rules.js";
+import {
+  loadEnrichConfig,
+  enrichInteractions,
+  citedArtifactIds,
+  DEFAULT_ENRICH_CONFIG,
+  ENRICH_POLICIES,
+} from "../core/dimensions/enrich.js";
+import type { EnrichPolicy } from "../core/dimensions/enrich.js";
+import {
+  applyVocabulary,
+  formatVocabularySummary,
+  loadVocabularyCheck,
+  VOCABULARY_MODES,
+} from "../core/dimensions/vocabulary.js";
+import { ingestInteractions } from "../core/ingest/apply.js";
+import { runIngestBatch } from "../core/ingest/batches.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import type { Artifact, Interaction } from "../core/types.js";
+import { inBatches } from "../util/batch.js";
+
+const VOCAB_MODE_DESCRIPTION =
+  `Out-of-vocabulary dimension values: ${VOCABULARY_MODES.join(", ")} (default: the vocabulary's mode, or strict)`;
+
+/**
+ * Check changed interactions against the project vocabulary, if one is
+ * registered, printing what was out of it. Returns the interactions to write.
+ */
+async function checkVocabulary(changed: Interaction[], vocabMode?: string): Promise<Interaction[]> {
+  const check = await loadVocabularyCheck(vocabMode);
+  if (!check) return changed;
+
+  const { items, summary } = applyVocabulary(changed, check.vocabulary, check.mode);
+  for (const line of formatVocabularySummary(summary)) {
+    console.error(line);
+  }
+  return items;
+}
+
+export function dimensionsCommand(): Command {
+  const cmd = new Command("dimensions")
+    .description("Derive and maintain interaction dimensions");
+
+  cmd
+    .command("derive")
+    .description("Apply dimension rules to the interactions already in the store")
+    .option("--rules <file>", "Rules JSON file (default: .goldenset/rules.json)")
+    .option("--vocab-mode <mode>", VOCAB_MODE_DESCRIPTION)
+    .option("--dry-run", "Report what would change without writing", false)
+    .action(async (options: { rules?: string; vocabMode?: string; dryRun: boolean }) => {
+      try {
+        const rulesPath = options.rules ?? getRulesPath();
+        const ruleSet = await loadRules(rulesPath);
+
+        const store = getStore();
+        const applied = applyRules(store.getAllInteractions(), ruleSet);
+
+        console.log(`Rules touched ${applied.summary.changed} interactions:`);
+        for (const line of formatDeriveSummary(applied.summary)) {
+          console.log(line);
+        }
+        const changed = await checkVocabulary(applied.changed, options.vocabMode);
+
+        if (options.dryRun) {
+          console.log("Dry run: store not modified.");
+          return;
+        }
+        if (changed.length === 0) {
+          return;
+        }
+
+        // Recorded as a batch so `ingest rollback` can undo it
+        const { batchId } = await runIngestBatch(
+          store,
+          { kind: "derive", filePath: rulesPath, errors: 0 },
+          (id) => ingestInteractions(store, changed, { upsert: true, batchId: id })
+        );
+        console.log(`Updated ${changed.length} interactions (ingest batch #${batchId})`);
+      } catch (error) {
+        console.error("Error deriving dimensions:", error);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("enrich")
+    .description("Fill dimensions from the metadata of the artifacts each interaction cites")
+    .option("--mapping <file>", "Enrichment mapping JSON file (default: type, owner, criticality)")
+    .option("--policy <policy>", `Tie-break across cited artifacts: ${ENRICH_POLICIES.join(", ")}`)
+    .option("--overwrite", "Replace dimensions interactions already have", false)
+    .option("--vocab-mode <mode>", VOCAB_MODE_DESCRIPTION)
+    .option("--dry-run", "Report what would change without writing", false)
+    .action(async (options: {
+      mapping?: string;
+      policy?: string;
+      overwrite: boolean;
+      vocabMode?: string;
+      dryRun: boolean;
+    }) => {
+      try {
+        if (options.policy && !(ENRICH_POLICIES as readonly string[]).includes(options.policy)) {
+          throw new Error(
+            `Invalid policy: ${options.policy} (expected ${ENRICH_POLICIES.join(", ")})`
+          );
+        }
+
+        const config = options.mapping
+          ? await loadEnrichConfig(options.mapping)
+          : { ...DEFAULT_ENRICH_CONFIG };
+        if (options.policy) config.policy = options.policy as EnrichPolicy;
+        if (options.overwrite) config.overwrite = true;
+
+        const store = getStore();
+        const interactions = store.getAllInteractions();
+        const artifacts: Artifact[] = [];
+        for (const batch of inBatches(citedArtifactIds(interactions), DEFAULT_BATCH_SIZE)) {
+          artifacts.push(...store.getArtifacts(batch));
+        }
+        const { summary, ...enriched } = enrichInteractions(interactions, artifacts, config);
+
+        console.log(`Enriched ${summary.enriched} interactions:`);
+        for (const [key, count] of Object.entries(summary.dimensions)) {
+          console.log(`  ${key}: ${count}`);
+        }
+        if (summary.withoutArtifacts > 0) {
+          console.log(`${summary.withoutArtifacts} interactions cite no known artifact`);
+        }
+        const changed = await checkVocabulary(enriched.changed, options.vocabMode);
+
+        if (options.dryRun) {
+          console.log("Dry run: store not modified.");
+          return;
+        }
+        if (changed.length === 0) {
+          return;
+        }
+
+        const { batchId } = await runIngestBatch(
+          store,
+          { kind: "enrich", filePath: options.mapping, errors: 0 },
+          (id) => ingestInteractions(store, changed, { upsert: true, batchId: id })
+        );
+        console.log(`Updated ${changed.length} interactions (ingest batch #${batchId})`);
+      } catch (error) {
+        console.error("Error enriching dimensions:", error);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
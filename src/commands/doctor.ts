@@ -0,0 +1,71 @@
+import { Command } from "commander";
+import { getStore } from "../core/store/index.js";
+import { runChecks, applyFixes } from "../core/doctor/checks.js";
+import type { DoctorReport } from "../core/doctor/checks.js";
+
+function printReport(report: DoctorReport): void {
+  // Informational, not a check: explains where orphan labels can come from
+  console.log(`  foreign-keys: ${report.foreignKeys ? "enforced" : "not enforced"}`);
+  for (const check of report.checks) {
+    if (check.count === 0) {
+      console.log(`  ${check.id}: ok`);
+      continue;
+    }
+    console.log(
+      `  ${check.id}: ${check.count} ${check.description}${check.fixable ? " (fixable)" : ""}`
+    );
+    for (const example of check.examples) {
+      console.log(`    ${example}`);
+    }
+    if (check.count > check.examples.length) {
+      console.log(`    ... and ${check.count - check.examples.length} more`);
+    }
+  }
+}
+
+export function doctorCommand(): Command {
+  const cmd = new Command("doctor")
+    .description("Check that the store and published datasets are consistent")
+    .option("--fix", "Apply safe repairs (artifact stubs, registering intact dataset folders)", false)
+    .action(async (options: { fix: boolean }) => {
+      try {
+        const store = getStore();
+        let report = await runChecks(store);
+
+        console.log("Checked store and datasets/:");
+        printReport(report);
+
+        if (options.fix) {
+          const fixes = await applyFixes(store, report);
+          console.log("");
+          if (fixes.stubsCreated > 0) {
+            console.log(
+              `Created ${fixes.stubsCreated} artifact stubs (ingest batch #${fixes.stubBatchId})`
+            );
+          }
+          for (const name of fixes.versionsRegistered) {
+            console.log(`Registered dataset version ${name} from its folder`);
+          }
+          report = await runChecks(store);
+        }
+
+        const problems = report.checks.filter((c) => c.count > 0);
+        console.log("");
+        if (problems.length === 0) {
+          console.log("No problems found.");
+          return;
+        }
+
+        console.log(`Found problems in ${problems.length} checks.`);
+        if (!options.fix && problems.some((c) => c.fixable)) {
+          console.log("Run with --fix to apply the safe repairs.");
+        }
+        process.exit(1);
+      } catch (error) {
+        console.error("Error running doctor:", error);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
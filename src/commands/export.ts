@@ -1,6 +1,10 @@
 import { Command } from "commander";
 import { getStore } from "../core/store/index.js";
+import { parseFilter } from "../core/filter/parse.js";
+import { matchesFilter } from "../core/filter/evaluate.js";
 import { exportDataset } from "../core/datasets/export.js";
+import { groupByInteraction, resolveLabels } from "../core/labels/resolve.js";
+import { loadProjectLabelsConfig } from "../core/labels/config.js";
 
 export function exportCommand(): Command {
   const cmd = new Command("export")
@@ -8,7 +12,8 @@ export function exportCommand(): Command {
     .requiredOption("--name <name>", "Version name to export")
     .requiredOption("--out <file>", "Output JSONL file path")
     .option("--format <format>", "Export format: jsonl", "jsonl")
-    .action(async (options: { name: string; out: string; format?: string }) => {
+    .option("--where <filter>", 'Only export interactions matching a filter expression (e.g., "verdict=fail")')
+    .action(async (options: { name: string; out: string; format?: string; where?: string }) => {
       try {
         const store = getStore();
         const version = store.getDatasetVersion(options.name);
@@ -19,8 +24,22 @@ export function exportCommand(): Command {
         }
 
         // Get interactions and labels
-        const interactions = store.getInteractions(version.interactionIds);
-        const labels = store.getLabels(version.interactionIds);
+        let interactions = store.getInteractions(version.interactionIds);
+        let labels = store.getLabels(version.interactionIds);
+
+        if (options.where) {
+          const filter = parseFilter(options.where);
+          const labelsById = groupByInteraction(labels);
+          interactions = interactions.filter((i) =>
+            matchesFilter(filter, i, labelsById.get(i.interactionId))
+          );
+          const kept = new Set(interactions.map((i) => i.interactionId));
+          labels = labels.filter((l) => kept.has(l.interactionId));
+        }
+
+        // One label per interaction, chosen by the project's resolution policy
+        const config = await loadProjectLabelsConfig();
+        labels = resolveLabels(labels, config?.resolution);
 
         // Export
         await exportDataset({
@@ -1,6 +1,445 @@
 import { Command } from "commander";
-import { parseInteractions, parseArtifacts } from "../core/ingest/jsonl.js";
+import type { z } from "zod";
+import { streamJsonl } from "../core/ingest/jsonl.js";
+import type { ParseError, ParseResult, ParsedRecord } from "../core/ingest/jsonl.js";
+import { loadColumnMapping, streamDelimited } from "../core/ingest/csv.js";
+import type { ColumnMapping, DelimitedOptions } from "../core/ingest/csv.js";
+import { parseTraces } from "../core/ingest/traces.js";
+import { InteractionSchema, ArtifactSchema, LabelSchema } from "../core/ingest/schemas.js";
+import {
+  loadVocabularyCheck,
+  withVocabulary,
+  applyVocabulary,
+  formatVocabularySummary,
+  mergeVocabularySummaries,
+  VOCABULARY_MODES,
+} from "../core/dimensions/vocabulary.js";
+import type { VocabularyCheck, VocabularySummary } from "../core/dimensions/vocabulary.js";
+import {
+  buildDetectors,
+  loadRedactionConfig,
+  loadProjectRedactionConfig,
+  redactInteractions,
+  redactText,
+} from "../core/redact/pii.js";
+import type { Detector, RedactionSummary } from "../core/redact/pii.js";
+import {
+  loadRules,
+  loadProjectRules,
+  applyRules,
+  formatDeriveSummary,
+} from "../core/dimensions/rules.js";
+import type { DeriveSummary } from "../core/dimensions/rules.js";
+import { citedArtifactIds } from "../core/dimensions/enrich.js";
+import { loadAdapter, ADAPTER_NAMES } from "../core/ingest/adapters/index.js";
+import {
+  ingestInteractions,
+  ingestArtifacts,
+  ingestArtifactStubs,
+  ingestLabels,
+  LABEL_STRATEGIES,
+  LABEL_STRATEGY_ALIASES,
+  parseLabelStrategy,
+} from "../core/ingest/apply.js";
+import { streamIngestBatch, rollbackBatch } from "../core/ingest/batches.js";
+import { RejectsWriter, ValidationReportBuilder, writeValidationReport } from "../core/ingest/report.js";
+import type {
+  IngestSummary,
+  IngestTotals,
+  RecordChange,
+} from "../core/ingest/apply.js";
+import type { IngestBatchKind, Interaction } from "../core/types.js";
 import { getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import type { SQLiteStore } from "../core/store/sqlite.js";
+
+interface FormatOptions {
+  format: string;
+  mapping?: string;
+}
+
+const DELIMITERS: Record<string, string> = {
+  csv: ",",
+  tsv: "\t",
+};
+
+/**
+ * Stream an input file according to --format (jsonl, csv or tsv).
+ * Delimited formats require a --mapping file.
+ */
+async function streamInput<T>(
+  file: string,
+  options: FormatOptions,
+  streamJsonlFile: (file: string) => AsyncIterable<ParsedRecord<T>>,
+  streamDelimitedFile: (
+    file: string,
+    mapping: ColumnMapping,
+    options?: DelimitedOptions
+  ) => AsyncIterable<ParsedRecord<T>>
+): Promise<AsyncIterable<ParsedRecord<T>>> {
+  if (options.format === "jsonl") {
+    return streamJsonlFile(file);
+  }
+
+  const delimiter = DELIMITERS[options.format];
+  if (!delimiter) {
+    throw new Error(`Unsupported format: ${options.format} (expected jsonl, csv or tsv)`);
+  }
+  if (!options.mapping) {
+    throw new Error(`--mapping is required for --format ${options.format}`);
+  }
+
+  const mapping = await loadColumnMapping(options.mapping);
+  return streamDelimitedFile(file, mapping, {
+    delimiter: mapping.delimiter ?? delimiter,
+  });
+}
+
+/**
+ * Replay an in-memory parse result as a record stream
+ */
+async function* recordsOf<T>(result: ParseResult<T>): AsyncGenerator<ParsedRecord<T>> {
+  for (const error of result.errors) yield { error };
+  for (const item of result.items) yield { item };
+}
+
+interface ValidationOptions {
+  rejects?: string;
+  report?: string;
+  dryRun: boolean;
+  batchSize?: number;
+}
+
+// Maximum parse errors printed to stderr; --rejects has them all
+const MAX_PRINTED_ERRORS = 20;
+
+interface ErrorReporter {
+  add: (error: ParseError) => Promise<void>;
+  /** Print the errors and write the --rejects/--report files */
+  finish: (valid: number) => Promise<void>;
+}
+
+/**
+ * Collect parse errors as they are read: the first few for stderr, all of
+ * them for --rejects and the --report issue counts
+ */
+async function openErrorReporter(
+  kind: string,
+  file: string,
+  options: ValidationOptions,
+  unit: string
+): Promise<ErrorReporter> {
+  const rejectsPath = options.rejects;
+  const reportPath = options.report;
+  const rejects = rejectsPath ? await RejectsWriter.open(rejectsPath) : undefined;
+  const report = reportPath ? new ValidationReportBuilder(kind, file) : undefined;
+  const printed: ParseError[] = [];
+  let count = 0;
+
+  return {
+    add: async (error) => {
+      count++;
+      if (printed.length < MAX_PRINTED_ERRORS) printed.push(error);
+      report?.addError(error);
+      await rejects?.write(error);
+    },
+    finish: async (valid) => {
+      if (count > 0) {
+        console.error(`Found ${count} errors:`);
+        for (const error of printed) {
+          console.error(`  Line ${error.line}: ${error.error}`);
+          if (error.content) {
+            console.error(`    ${error.content}...`);
+          }
+        }
+        if (count > MAX_PRINTED_ERRORS) {
+          console.error(`  ... and ${count - MAX_PRINTED_ERRORS} more`);
+        }
+      }
+
+      if (rejects) {
+        await rejects.close();
+        console.log(`Wrote ${rejects.written} rejected ${unit} to ${rejectsPath}`);
+      }
+      if (report && reportPath) {
+        report.addValid(valid);
+        await writeValidationReport(reportPath, report.build());
+        console.log(`Wrote validation report to ${reportPath}`);
+      }
+    },
+  };
+}
+
+/**
+ * Running "Read N lines" counter on stderr, shown only on a terminal
+ */
+function progressCounter(unit: string): { update: (read: number) => void; done: () => void } {
+  const enabled = process.stderr.isTTY;
+  let shown = false;
+  return {
+    update: (read) => {
+      if (!enabled) return;
+      process.stderr.write(`\rRead ${read} ${unit}...`);
+      shown = true;
+    },
+    done: () => {
+      if (shown) process.stderr.write("\r\x1b[K");
+    },
+  };
+}
+
+interface IngestSteps<T> {
+  /** Processing applied to each chunk of valid records before writing */
+  prepare?: (items: T[]) => T[];
+  /** Processing applied to each invalid record before it is reported */
+  onError?: (error: ParseError) => void;
+  /** Write a prepared chunk, linking rows to the batch */
+  apply: (store: SQLiteStore, batchId: number, items: T[]) => IngestSummary;
+}
+
+interface IngestOutcome {
+  batchId: number;
+  totals: IngestTotals;
+  invalid: number;
+}
+
+/**
+ * Stream records into the store as one ingest batch, reporting parse
+ * errors along the way. Returns null on --dry-run, which reads and
+ * prepares every record but writes nothing. Exits when nothing in the
+ * file was valid.
+ */
+async function runIngest<T>(
+  kind: IngestBatchKind,
+  file: string,
+  records: AsyncIterable<ParsedRecord<T>>,
+  options: ValidationOptions,
+  steps: IngestSteps<T>,
+  unit = "lines"
+): Promise<IngestOutcome | null> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid batch size: ${options.batchSize} (expected a positive integer)`);
+  }
+
+  const reporter = await openErrorReporter(kind, file, options, unit);
+  const progress = progressCounter(unit);
+  const onError = async (error: ParseError) => {
+    steps.onError?.(error);
+    await reporter.add(error);
+  };
+  const prepare = steps.prepare ?? ((items: T[]) => items);
+
+  let outcome: IngestOutcome | null = null;
+  let valid = 0;
+  let invalid = 0;
+
+  try {
+    if (options.dryRun) {
+      let pending: T[] = [];
+      for await (const record of records) {
+        if (record.error) {
+          invalid++;
+          await onError(record.error);
+        } else {
+          valid++;
+          pending.push(record.item);
+          if (pending.length >= batchSize) {
+            prepare(pending);
+            pending = [];
+          }
+        }
+        if ((valid + invalid) % batchSize === 0) progress.update(valid + invalid);
+      }
+      prepare(pending);
+    } else {
+      const store = getStore();
+      const result = await streamIngestBatch(
+        store,
+        { kind, filePath: file },
+        records,
+        (batchId, items) => steps.apply(store, batchId, prepare(items)),
+        { batchSize, onError, onProgress: progress.update }
+      );
+      valid = result.valid;
+      invalid = result.invalid;
+      outcome = { batchId: result.batchId, totals: result.totals, invalid };
+    }
+  } finally {
+    progress.done();
+  }
+
+  await reporter.finish(valid);
+
+  if (valid === 0 && invalid > 0) {
+    if (outcome) printOutcome(outcome, unit);
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    console.log(`Dry run: ${valid} valid, ${invalid} invalid ${unit}. Store not modified.`);
+  }
+  return outcome;
+}
+
+interface RedactionOptions {
+  redact: boolean;
+  redactConfig?: string;
+}
+
+/**
+ * PII detectors for this run: from --redact-config, else from the project's
+ * redact.json, else the built-in defaults when --redact is given.
+ * Returns null when redaction is off.
+ */
+async function loadDetectors(options: RedactionOptions): Promise<Detector[] | null> {
+  if (options.redactConfig) {
+    return buildDetectors(await loadRedactionConfig(options.redactConfig));
+  }
+  const config = await loadProjectRedactionConfig();
+  if (config) return buildDetectors(config);
+  return options.redact ? buildDetectors() : null;
+}
+
+function printRedactionSummary(summary: RedactionSummary): void {
+  const counts = Object.entries(summary.counts)
+    .map(([name, count]) => `${name}: ${count}`)
+    .join(", ");
+  if (summary.redacted > 0) {
+    console.log(`Redacted PII in ${summary.redacted} interactions (${counts})`);
+  }
+  if (summary.dropped > 0) {
+    console.log(`Dropped ${summary.dropped} interactions containing PII`);
+  }
+  if (!counts) {
+    console.log("No PII found");
+  }
+}
+
+interface InteractionStepOptions extends RedactionOptions {
+  rules?: string;
+}
+
+/**
+ * Per-chunk processing of parsed interactions, in order: PII redaction,
+ * derived dimensions from --rules or the project's rules.json, then the
+ * project vocabulary (when `vocabulary` is given), so derived values are
+ * checked like ingested ones. Invalid lines are redacted too, as they end
+ * up on stderr and in --rejects files. Summaries add up across chunks;
+ * `printSummaries` prints them at the end.
+ */
+async function interactionSteps(
+  options: InteractionStepOptions,
+  vocabulary?: VocabularyCheck | null
+): Promise<Pick<IngestSteps<Interaction>, "prepare" | "onError"> & { printSummaries: () => void }> {
+  const detectors = await loadDetectors(options);
+  const ruleSet = options.rules ? await loadRules(options.rules) : await loadProjectRules();
+
+  const redaction: RedactionSummary = { redacted: 0, dropped: 0, counts: {} };
+  let derived: DeriveSummary | undefined;
+  let checked: VocabularySummary = { rejected: 0, coerced: 0, outOfVocabulary: [] };
+
+  return {
+    prepare: (items) => {
+      if (detectors) {
+        const redacted = redactInteractions(items, detectors);
+        items = redacted.items;
+        redaction.redacted += redacted.summary.redacted;
+        redaction.dropped += redacted.summary.dropped;
+        for (const [name, count] of Object.entries(redacted.summary.counts)) {
+          redaction.counts[name] = (redaction.counts[name] ?? 0) + count;
+        }
+      }
+
+      if (ruleSet) {
+        const applied = applyRules(items, ruleSet);
+        items = applied.items;
+        derived = derived
+          ? {
+              changed: derived.changed + applied.summary.changed,
+              rules: derived.rules.map((rule, i) => ({
+                ...rule,
+                touched: rule.touched + applied.summary.rules[i].touched,
+              })),
+            }
+          : applied.summary;
+      }
+
+      if (vocabulary) {
+        const applied = applyVocabulary(items, vocabulary.vocabulary, vocabulary.mode);
+        items = applied.items;
+        checked = mergeVocabularySummaries(checked, applied.summary);
+      }
+
+      return items;
+    },
+    onError: (error) => {
+      if (!detectors) return;
+      if (error.raw) error.raw = redactText(error.raw, detectors).text;
+      if (error.content) error.content = redactText(error.content, detectors).text;
+    },
+    printSummaries: () => {
+      if (detectors) {
+        printRedactionSummary(redaction);
+      }
+      if (derived) {
+        console.log(`Derived dimensions for ${derived.changed} interactions:`);
+        for (const line of formatDeriveSummary(derived)) {
+          console.log(line);
+        }
+      }
+      for (const line of formatVocabularySummary(checked)) {
+        console.error(line);
+      }
+    },
+  };
+}
+
+function printChanges(changes: RecordChange[], total: number): void {
+  for (const change of changes) {
+    console.log(`  ${change.id}: ${change.fields.join(", ")}`);
+  }
+  if (total > changes.length) {
+    console.log(`  ... and ${total - changes.length} more`);
+  }
+}
+
+/**
+ * Print what an ingest run wrote and which existing records it skipped
+ */
+function printSummary(
+  kind: string,
+  totals: IngestTotals,
+  hint = "Use --upsert to overwrite changed records."
+): void {
+  console.log(
+    `Ingested ${totals.inserted + totals.updated} ${kind} (${totals.inserted} new, ${totals.updated} updated)`
+  );
+  printChanges(totals.examples.updated, totals.updated);
+
+  const skipped = totals.unchanged + totals.conflicts;
+  if (skipped === 0) return;
+
+  console.log(
+    `Skipped ${skipped} existing ${kind}: ${totals.unchanged} identical, ${totals.conflicts} changed`
+  );
+  if (totals.conflicts > 0) {
+    printChanges(totals.examples.conflicts, totals.conflicts);
+    console.log(hint);
+  }
+}
+
+function printOutcome(outcome: IngestOutcome, unit = "lines"): void {
+  console.log(`Recorded as ingest batch #${outcome.batchId}`);
+  if (outcome.invalid > 0) {
+    console.log(`(Skipped ${outcome.invalid} invalid ${unit})`);
+  }
+}
+
+const BATCH_SIZE_DESCRIPTION = `Records written per transaction (default: ${DEFAULT_BATCH_SIZE})`;
+
+const VOCAB_MODE_DESCRIPTION =
+  `Out-of-vocabulary dimension values: ${VOCABULARY_MODES.join(", ")} (default: the vocabulary's mode, or strict)`;
 
 export function ingestCommand(): Command {
   const cmd = new Command("ingest")
@@ -8,38 +447,60 @@ export function ingestCommand(): Command {
 
   cmd
     .command("interactions")
-    .description("Ingest interactions from JSONL file")
-    .argument("<file>", "Path to JSONL file")
-    .option("--upsert", "Update existing interactions", false)
-    .action(async (file: string, _options: { upsert: boolean }) => {
+    .description("Ingest interactions from a JSONL, CSV or TSV file")
+    .argument("<file>", "Path to input file")
+    .option("--upsert", "Overwrite existing interactions whose content differs", false)
+    .option("--format <format>", "Input format: jsonl, csv or tsv", "jsonl")
+    .option("--mapping <file>", "Column mapping JSON file (required for csv/tsv)")
+    .option("--adapter <name>", `Convert raw log lines with an adapter: ${ADAPTER_NAMES.join(", ")}`)
+    .option("--adapter-config <file>", "Adapter rules JSON file")
+    .option("--rules <file>", "Derive dimensions with a rules file (default: .goldenset/rules.json, if any)")
+    .option("--redact", "Redact PII with the built-in detectors (on whenever .goldenset/redact.json exists)", false)
+    .option("--redact-config <file>", "PII redaction config JSON file")
+    .option("--vocab-mode <mode>", VOCAB_MODE_DESCRIPTION)
+    .option("--rejects <file>", "Write invalid lines with their errors to a JSONL file")
+    .option("--report <file>", "Write a JSON validation report with error counts by issue")
+    .option("--dry-run", "Validate only; do not write to the store", false)
+    .option("--batch-size <n>", BATCH_SIZE_DESCRIPTION, parseInt)
+    .action(async (file: string, options: {
+      upsert: boolean;
+      adapter?: string;
+      adapterConfig?: string;
+      vocabMode?: string;
+    } & FormatOptions & ValidationOptions & InteractionStepOptions) => {
       try {
-        const result = await parseInteractions(file);
-
-        if (result.errors.length > 0) {
-          console.error(`Found ${result.errors.length} errors:`);
-          for (const error of result.errors) {
-            console.error(`  Line ${error.line}: ${error.error}`);
-            if (error.content) {
-              console.error(`    ${error.content}...`);
-            }
-          }
-          if (result.items.length === 0) {
-            process.exit(1);
-          }
+        if (options.adapter && options.format !== "jsonl") {
+          throw new Error("--adapter only applies to --format jsonl");
         }
+        const transform = options.adapter
+          ? await loadAdapter(options.adapter, options.adapterConfig)
+          : undefined;
 
-        const store = getStore();
-        let count = 0;
+        // Validate dimensions against the project vocabulary, if registered;
+        // lines are checked as they are read, derived values before writing
+        const vocabulary = await loadVocabularyCheck(options.vocabMode);
+        const schema = vocabulary
+          ? withVocabulary(InteractionSchema, vocabulary.vocabulary, vocabulary.mode)
+          : (InteractionSchema as z.ZodType<Interaction>);
 
-        for (const interaction of result.items) {
-          store.upsertInteraction(interaction);
-          count++;
-        }
+        const records = await streamInput(
+          file,
+          options,
+          (f) => streamJsonl(f, schema, { transform }),
+          (f, mapping, delimited) => streamDelimited(f, schema, mapping, delimited)
+        );
+        const steps = await interactionSteps(options, vocabulary);
 
-        console.log(`Ingested ${count} interactions`);
-        if (result.errors.length > 0) {
-          console.log(`(Skipped ${result.errors.length} invalid lines)`);
-        }
+        const outcome = await runIngest("interactions", file, records, options, {
+          ...steps,
+          apply: (store, batchId, items) =>
+            ingestInteractions(store, items, { upsert: options.upsert, batchId }),
+        });
+        steps.printSummaries();
+        if (!outcome) return;
+
+        printSummary("interactions", outcome.totals);
+        printOutcome(outcome);
       } catch (error) {
         console.error("Error ingesting interactions:", error);
         process.exit(1);
@@ -48,40 +509,214 @@ export function ingestCommand(): Command {
 
   cmd
     .command("artifacts")
-    .description("Ingest artifacts from JSONL file")
-    .argument("<file>", "Path to JSONL file")
-    .option("--upsert", "Update existing artifacts", false)
-    .action(async (file: string, _options: { upsert: boolean }) => {
+    .description("Ingest artifacts from a JSONL, CSV or TSV file")
+    .argument("<file>", "Path to input file")
+    .option("--upsert", "Overwrite existing artifacts whose content differs", false)
+    .option("--format <format>", "Input format: jsonl, csv or tsv", "jsonl")
+    .option("--mapping <file>", "Column mapping JSON file (required for csv/tsv)")
+    .option("--rejects <file>", "Write invalid lines with their errors to a JSONL file")
+    .option("--report <file>", "Write a JSON validation report with error counts by issue")
+    .option("--dry-run", "Validate only; do not write to the store", false)
+    .option("--batch-size <n>", BATCH_SIZE_DESCRIPTION, parseInt)
+    .action(async (file: string, options: { upsert: boolean } & FormatOptions & ValidationOptions) => {
       try {
-        const result = await parseArtifacts(file);
-
-        if (result.errors.length > 0) {
-          console.error(`Found ${result.errors.length} errors:`);
-          for (const error of result.errors) {
-            console.error(`  Line ${error.line}: ${error.error}`);
-            if (error.content) {
-              console.error(`    ${error.content}...`);
-            }
+        const records = await streamInput(
+          file,
+          options,
+          (f) => streamJsonl(f, ArtifactSchema),
+          (f, mapping, delimited) => streamDelimited(f, ArtifactSchema, mapping, delimited)
+        );
+
+        const outcome = await runIngest("artifacts", file, records, options, {
+          apply: (store, batchId, items) =>
+            ingestArtifacts(store, items, { upsert: options.upsert, batchId }),
+        });
+        if (!outcome) return;
+
+        printSummary("artifacts", outcome.totals);
+        printOutcome(outcome);
+      } catch (error) {
+        console.error("Error ingesting artifacts:", error);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("labels")
+    .description("Ingest review labels from a JSONL, CSV or TSV file")
+    .argument("<file>", "Path to input file")
+    .option(
+      "--strategy <strategy>",
+      `How to treat a label already stored for the same interaction, reviewer and reviewedAt: ${LABEL_STRATEGIES.join(", ")} (newest is a deprecated alias of keep-existing)`,
+      "keep-existing"
+    )
+    .option("--format <format>", "Input format: jsonl, csv or tsv", "jsonl")
+    .option("--mapping <file>", "Column mapping JSON file (required for csv/tsv)")
+    .option("--rejects <file>", "Write invalid lines with their errors to a JSONL file")
+    .option("--report <file>", "Write a JSON validation report with error counts by issue")
+    .option("--dry-run", "Validate only; do not write to the store", false)
+    .option("--batch-size <n>", BATCH_SIZE_DESCRIPTION, parseInt)
+    .action(async (file: string, options: { strategy: string } & FormatOptions & ValidationOptions) => {
+      try {
+        const strategy = parseLabelStrategy(options.strategy);
+        if (LABEL_STRATEGY_ALIASES.has(options.strategy)) {
+          console.error(`--strategy ${options.strategy} is deprecated; it now means ${strategy}`);
+        }
+
+        const records = await streamInput(
+          file,
+          options,
+          (f) => streamJsonl(f, LabelSchema),
+          (f, mapping, delimited) => streamDelimited(f, LabelSchema, mapping, delimited)
+        );
+
+        const outcome = await runIngest("labels", file, records, options, {
+          apply: (store, batchId, items) =>
+            ingestLabels(store, items, {
+              strategy,
+              batchId,
+            }),
+        });
+        if (!outcome) return;
+
+        const { totals } = outcome;
+        if (totals.unknownInteractions > 0) {
+          console.error(`Rejected ${totals.unknownInteractions} labels for unknown interactions:`);
+          for (const id of totals.examples.unknownInteractions) {
+            console.error(`  ${id}`);
           }
-          if (result.items.length === 0) {
-            process.exit(1);
+          if (totals.unknownInteractions > totals.examples.unknownInteractions.length) {
+            console.error(
+              `  ... and ${totals.unknownInteractions - totals.examples.unknownInteractions.length} more`
+            );
           }
         }
 
+        printSummary(
+          "labels",
+          totals,
+          "Use --strategy overwrite to replace existing labels."
+        );
+        printOutcome(outcome);
+      } catch (error) {
+        console.error("Error ingesting labels:", error);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("traces")
+    .description("Ingest interactions from OpenTelemetry JSON span exports")
+    .argument("<file>", "Path to OTLP JSON (or JSONL) span export")
+    .option("--upsert", "Overwrite existing interactions whose content differs", false)
+    .option("--rules <file>", "Derive dimensions with a rules file (default: .goldenset/rules.json, if any)")
+    .option("--redact", "Redact PII with the built-in detectors (on whenever .goldenset/redact.json exists)", false)
+    .option("--redact-config <file>", "PII redaction config JSON file")
+    .option("--vocab-mode <mode>", VOCAB_MODE_DESCRIPTION)
+    .option("--rejects <file>", "Write invalid lines with their errors to a JSONL file")
+    .option("--report <file>", "Write a JSON validation report with error counts by issue")
+    .option("--dry-run", "Validate only; do not write to the store", false)
+    .action(async (file: string, options: ValidationOptions & InteractionStepOptions & {
+      upsert: boolean;
+      vocabMode?: string;
+    }) => {
+      try {
+        // Spans are grouped by trace, so the export is read whole
+        const result = await parseTraces(file);
+        const steps = await interactionSteps(options, await loadVocabularyCheck(options.vocabMode));
+
+        let stubs = 0;
+        const outcome = await runIngest(
+          "traces",
+          file,
+          recordsOf(result),
+          options,
+          {
+            ...steps,
+            apply: (store, batchId, items) => {
+              const written = ingestInteractions(store, items, { upsert: options.upsert, batchId });
+              // Artifacts cited by the interactions now stored as given become
+              // stubs until their real metadata is ingested; conflicting
+              // interactions were not written, so their citations are not
+              const conflicts = new Set(written.conflicts.map((c) => c.id));
+              const stored = items.filter((i) => !conflicts.has(i.interactionId));
+              stubs += ingestArtifactStubs(store, citedArtifactIds(stored), { batchId });
+              return written;
+            },
+          },
+          "traces"
+        );
+        steps.printSummaries();
+        if (!outcome) return;
+
+        console.log(`Read ${result.traceCount} traces`);
+        printSummary("interactions", outcome.totals);
+        if (stubs) {
+          console.log(`Created ${stubs} artifact stubs`);
+        }
+        printOutcome(outcome, "traces");
+      } catch (error) {
+        console.error("Error ingesting traces:", error);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("history")
+    .description("List ingest batches, newest first")
+    .action(async () => {
+      try {
         const store = getStore();
-        let count = 0;
+        const batches = store.listIngestBatches();
 
-        for (const artifact of result.items) {
-          store.upsertArtifact(artifact);
-          count++;
+        if (batches.length === 0) {
+          console.log("No ingest batches found.");
+          return;
         }
 
-        console.log(`Ingested ${count} artifacts`);
-        if (result.errors.length > 0) {
-          console.log(`(Skipped ${result.errors.length} invalid lines)`);
+        console.log("Ingest batches:");
+        console.log("");
+        for (const batch of batches) {
+          console.log(`  #${batch.batchId}  ${batch.kind}  ${batch.sourcePath || "(no source file)"}`);
+          console.log(`    Created: ${batch.createdAt}`);
+          if (batch.sha256) {
+            console.log(`    sha256: ${batch.sha256}`);
+          }
+          console.log(
+            `    Inserted: ${batch.inserted}, updated: ${batch.updated}, skipped: ${batch.skipped}, errors: ${batch.errors}`
+          );
+          if (batch.rolledBackAt) {
+            console.log(`    Rolled back: ${batch.rolledBackAt}`);
+          }
+          console.log("");
         }
       } catch (error) {
-        console.error("Error ingesting artifacts:", error);
+        console.error("Error listing ingest history:", error);
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("rollback")
+    .description("Undo an ingest batch: restore updated rows and delete inserted ones")
+    .argument("<batchId>", "Batch id from `ingest history`")
+    .option("--force", "Roll back even if later batches wrote the same rows", false)
+    .action(async (batchIdArg: string, options: { force: boolean }) => {
+      try {
+        const batchId = parseInt(batchIdArg.replace(/^#/, ""), 10);
+        if (isNaN(batchId)) {
+          console.error(`Invalid batch id: ${batchIdArg}`);
+          process.exit(1);
+        }
+
+        const store = getStore();
+        const result = rollbackBatch(store, batchId, { force: options.force });
+
+        console.log(`Rolled back ingest batch #${batchId}`);
+        console.log(`  Restored: ${result.restored}`);
+        console.log(`  Deleted: ${result.deleted}`);
+      } catch (error) {
+        console.error("Error rolling back batch:", error instanceof Error ? error.message : String(error));
         process.exit(1);
       }
     });
@@ -1,11 +1,22 @@
 import { Command } from "commander";
-import { getGoldensetDir, ensureDir } from "../util/fs.js";
+import { statSync } from "fs";
+import { join } from "path";
+import { getGoldensetDir, ensureDir, writeJson } from "../util/fs.js";
 import { getStore } from "../core/store/index.js";
+import {
+  loadVocabulary,
+  getVocabularyPath,
+  VOCABULARY_FILE,
+} from "../core/dimensions/vocabulary.js";
 
 export function initCommand(): Command {
   const cmd = new Command("init")
     .description("Initialize goldenset in the current directory")
-    .action(async () => {
+    .option(
+      "--preset <path>",
+      "Register the dimension vocabulary of a preset (directory with dimensions.json, or the file itself)"
+    )
+    .action(async (options: { preset?: string }) => {
       try {
         const goldensetDir = getGoldensetDir();
         await ensureDir(goldensetDir);
@@ -14,6 +25,18 @@ export function initCommand(): Command {
         getStore();
 
         console.log(`Initialized goldenset in ${goldensetDir}`);
+
+        if (options.preset) {
+          const presetFile = statSync(options.preset).isDirectory()
+            ? join(options.preset, VOCABULARY_FILE)
+            : options.preset;
+          const vocabulary = await loadVocabulary(presetFile);
+          await writeJson(getVocabularyPath(), vocabulary);
+
+          console.log(
+            `Registered dimension vocabulary from ${presetFile} (${Object.keys(vocabulary.keys).join(", ")})`
+          );
+        }
       } catch (error) {
         console.error("Error initializing goldenset:", error);
         process.exit(1);
@@ -22,4 +45,3 @@ export function initCommand(): Command {
 
   return cmd;
 }
-
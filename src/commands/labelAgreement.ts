@@ -0,0 +1,110 @@
+import { Command } from "commander";
+import { basename } from "path";
+import { parseLabels } from "../core/ingest/jsonl.js";
+import { getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import type { SQLiteStore } from "../core/store/sqlite.js";
+import { computeAgreement, formatAgreement, ratingsFromLabels } from "../core/labels/agreement.js";
+import { isPlaceholderLabel } from "../core/labels/template.js";
+import type { Interaction, Label } from "../core/types.js";
+import { inBatches } from "../util/batch.js";
+
+/**
+ * Labels from several files. A reviewer name found in more than one file
+ * is taken to be different people, told apart by file name. Placeholders
+ * of half-filled templates are skipped, so they neither count as verdicts
+ * nor make a reviewer look like they appear in another file.
+ */
+async function loadLabelFiles(files: string[]): Promise<Label[]> {
+  const perFile: Label[][] = [];
+  for (const file of files) {
+    const result = await parseLabels(file);
+    if (result.errors.length > 0) {
+      console.error(`Found ${result.errors.length} errors in ${file}`);
+    }
+    perFile.push(result.items.filter((label) => !isPlaceholderLabel(label)));
+  }
+
+  const filesByReviewer = new Map<string, Set<number>>();
+  perFile.forEach((labels, index) => {
+    for (const label of labels) {
+      if (!filesByReviewer.has(label.reviewer)) filesByReviewer.set(label.reviewer, new Set());
+      filesByReviewer.get(label.reviewer)!.add(index);
+    }
+  });
+
+  return perFile.flatMap((labels, index) =>
+    labels.map((label) =>
+      filesByReviewer.get(label.reviewer)!.size > 1
+        ? { ...label, reviewer: `${label.reviewer} (${basename(files[index])})` }
+        : label
+    )
+  );
+}
+
+function getInteractions(store: SQLiteStore, ids: string[]): Interaction[] {
+  const interactions: Interaction[] = [];
+  for (const batch of inBatches(ids, DEFAULT_BATCH_SIZE)) {
+    interactions.push(...store.getInteractions(batch));
+  }
+  return interactions;
+}
+
+export function labelAgreementCommand(): Command {
+  return new Command("agreement")
+    .description("Measure how well reviewers agree on verdicts (Cohen's and Fleiss' kappa)")
+    .option("--labels <files...>", "JSONL label files, e.g. one per reviewer (default: labels in the store)")
+    .option("--name <version>", "Only interactions in this dataset version")
+    .option("--by <key>", "Dimension key to break agreement down by (e.g., intent)")
+    .option("--top <number>", "Number of most-disputed interactions to list", "10")
+    .option("--format <format>", "Output format: text or json", "text")
+    .action(async (options: {
+      labels?: string[];
+      name?: string;
+      by?: string;
+      top: string;
+      format: string;
+    }) => {
+      try {
+        const top = parseInt(options.top, 10);
+        if (isNaN(top) || top < 0) {
+          throw new Error(`Invalid --top ${options.top}: must be a non-negative number`);
+        }
+        if (options.format !== "text" && options.format !== "json") {
+          throw new Error(`Invalid --format ${options.format}: expected text or json`);
+        }
+
+        const store = getStore();
+        let labels = options.labels ? await loadLabelFiles(options.labels) : store.getAllLabels();
+
+        if (options.name) {
+          const version = store.getDatasetVersion(options.name);
+          if (!version) {
+            throw new Error(`Dataset version not found: ${options.name}`);
+          }
+          const ids = new Set(version.interactionIds);
+          labels = labels.filter((l) => ids.has(l.interactionId));
+        }
+
+        const ratings = ratingsFromLabels(labels);
+        const interactions = options.by
+          ? getInteractions(store, [...new Set(ratings.map((r) => r.interactionId))])
+          : undefined;
+        const report = computeAgreement(ratings, { by: options.by, interactions, top });
+
+        if (report.raters.length < 2) {
+          console.log(`Need labels from at least 2 reviewers, found ${report.raters.length}.`);
+          return;
+        }
+
+        if (options.format === "json") {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          console.log(formatAgreement(report));
+        }
+      } catch (error) {
+        console.error("Error computing agreement:", error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,93 @@
+import { Command } from "commander";
+import { basename, dirname, extname, join } from "path";
+import { parseInteractions } from "../core/ingest/jsonl.js";
+import { getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import { assignReviewers } from "../core/labels/assign.js";
+import { buildLabelTemplate } from "../core/labels/template.js";
+import type { Assignment, Label } from "../core/types.js";
+import { writeText } from "../util/fs.js";
+import { inBatches } from "../util/batch.js";
+
+export function labelAssignCommand(): Command {
+  return new Command("assign")
+    .description("Split a sample between reviewers, writing one label template each")
+    .requiredOption("--in <file>", "Input JSONL file with interactions")
+    .requiredOption("--reviewers <names>", "Comma-separated reviewer names")
+    .option("--overlap <fraction>", "Share of interactions to give to two reviewers, for agreement", "0")
+    .option("--by <keys>", "Comma-separated dimension keys to balance across (default: every key in the sample)")
+    .option("--seed <number>", "Random seed for reproducibility", parseInt)
+    .option("--name <name>", "Name of the assignment round (default: the sample's file name)")
+    .option("--out-dir <dir>", "Directory for the templates (default: the sample's directory)")
+    .action(async (options: {
+      in: string;
+      reviewers: string;
+      overlap: string;
+      by?: string;
+      seed?: number;
+      name?: string;
+      outDir?: string;
+    }) => {
+      try {
+        const reviewers = options.reviewers.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+        const overlap = parseFloat(options.overlap);
+        if (isNaN(overlap)) {
+          throw new Error(`Invalid --overlap ${options.overlap}: must be a number between 0 and 1`);
+        }
+
+        const result = await parseInteractions(options.in);
+        if (result.errors.length > 0) {
+          console.error(`Found ${result.errors.length} errors in input file`);
+          if (result.items.length === 0) {
+            process.exit(1);
+          }
+        }
+        const sample = result.items;
+
+        const by = options.by
+          ? options.by.split(",").map((s) => s.trim())
+          : [...new Set(sample.flatMap((i) => Object.keys(i.dimensions ?? {})))].sort();
+        const plan = assignReviewers(sample, { reviewers, overlap, by, seed: options.seed });
+
+        const store = getStore();
+        const existing: Label[] = [];
+        for (const batch of inBatches(sample, DEFAULT_BATCH_SIZE)) {
+          existing.push(...store.getLabels(batch.map((i) => i.interactionId)));
+        }
+
+        const stem = basename(options.in, extname(options.in));
+        const name = options.name ?? stem;
+        const outDir = options.outDir ?? dirname(options.in);
+        const now = new Date();
+        const assignments: Assignment[] = [];
+
+        for (const [reviewer, interactions] of plan.byReviewer) {
+          const labels = buildLabelTemplate(interactions, { reviewer, existing, assignment: name, now });
+          const out = join(outDir, `${stem}.${reviewer.replace(/[^\w.@-]+/g, "_")}.jsonl`);
+          await writeText(out, labels.map((l) => JSON.stringify(l)).join("\n"));
+
+          for (const interaction of interactions) {
+            assignments.push({
+              name,
+              interactionId: interaction.interactionId,
+              reviewer,
+              assignedAt: now.toISOString(),
+              overlap: plan.overlapIds.has(interaction.interactionId),
+            });
+          }
+          const shared = interactions.filter((i) => plan.overlapIds.has(i.interactionId)).length;
+          console.log(`${reviewer}: ${interactions.length} interactions (${shared} shared) in ${out}`);
+        }
+
+        store.replaceAssignments(name, assignments);
+
+        console.log(
+          `Assigned ${sample.length} interactions to ${reviewers.length} reviewers, ${plan.overlapIds.size} to two, as ${name}`
+        );
+        console.log(`Run "goldenset label status --name ${name}" to follow progress.`);
+      } catch (error) {
+        console.error("Error assigning reviewers:", error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,58 @@
+import { Command } from "commander";
+import { parseLabels } from "../core/ingest/jsonl.js";
+import { getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import { checkLabels, formatCheckReport } from "../core/labels/check.js";
+import type { Interaction } from "../core/types.js";
+import { inBatches } from "../util/batch.js";
+
+export function labelCheckCommand(): Command {
+  return new Command("check")
+    .description("Check label verdicts against their expected phrases and artifacts")
+    .option("--labels <file>", "JSONL labels file (default: labels in the store)")
+    .option("--name <version>", "Only interactions in this dataset version")
+    .option("--by <key>", "Dimension key to group the report by (e.g., intent)")
+    .option("--format <format>", "Output format: text or json", "text")
+    .action(async (options: { labels?: string; name?: string; by?: string; format: string }) => {
+      try {
+        if (options.format !== "text" && options.format !== "json") {
+          throw new Error(`Invalid --format ${options.format}: expected text or json`);
+        }
+
+        const store = getStore();
+        let labels = store.getAllLabels();
+        if (options.labels) {
+          const result = await parseLabels(options.labels);
+          if (result.errors.length > 0) {
+            console.error(`Found ${result.errors.length} errors in ${options.labels}`);
+          }
+          labels = result.items;
+        }
+
+        if (options.name) {
+          const version = store.getDatasetVersion(options.name);
+          if (!version) {
+            throw new Error(`Dataset version not found: ${options.name}`);
+          }
+          const ids = new Set(version.interactionIds);
+          labels = labels.filter((l) => ids.has(l.interactionId));
+        }
+
+        const interactions: Interaction[] = [];
+        for (const batch of inBatches([...new Set(labels.map((l) => l.interactionId))], DEFAULT_BATCH_SIZE)) {
+          interactions.push(...store.getInteractions(batch));
+        }
+
+        const report = checkLabels(labels, interactions, options.by);
+
+        if (options.format === "json") {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          console.log(formatCheckReport(report));
+        }
+      } catch (error) {
+        console.error("Error checking labels:", error);
+        process.exit(1);
+      }
+    });
+}
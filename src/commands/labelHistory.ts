@@ -0,0 +1,46 @@
+import { Command } from "commander";
+import { getStore } from "../core/store/index.js";
+import { DEFAULT_RESOLUTION, resolveLabel } from "../core/labels/resolve.js";
+import { loadProjectLabelsConfig } from "../core/labels/config.js";
+import type { Label } from "../core/types.js";
+
+function formatLabel(label: Label): string {
+  const notes = label.notes ? `  "${label.notes}"` : "";
+  return `${label.verdict.padEnd(20)}${label.reviewer} at ${label.reviewedAt}${notes}`;
+}
+
+export function labelHistoryCommand(): Command {
+  return new Command("history")
+    .description("Show the labels of an interaction: effective, per reviewer, and every change")
+    .argument("<interactionId>", "Interaction to show")
+    .action(async (interactionId: string) => {
+      try {
+        const store = getStore();
+        const history = store.getLabelHistory(interactionId);
+        if (history.length === 0) {
+          console.log(`No labels for ${interactionId}.`);
+          return;
+        }
+
+        const config = await loadProjectLabelsConfig();
+        const resolution = config?.resolution ?? DEFAULT_RESOLUTION;
+        const effective = resolveLabel(store.getLabels([interactionId]), resolution);
+
+        console.log(`Effective label (${resolution.policy}):`);
+        console.log(`  ${effective ? formatLabel(effective) : "none"}`);
+
+        console.log("\nBy reviewer (most recent label each):");
+        for (const label of store.getLabelsByReviewer(interactionId)) {
+          console.log(`  ${formatLabel(label)}`);
+        }
+
+        console.log("\nHistory:");
+        for (const entry of history) {
+          console.log(`  ${entry.recordedAt}  ${entry.action.padEnd(8)}${formatLabel(entry.label)}`);
+        }
+      } catch (error) {
+        console.error("Error showing label history:", error);
+        process.exit(1);
+      }
+    });
+}
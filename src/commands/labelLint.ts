@@ -0,0 +1,97 @@
+import { Command } from "commander";
+import { parseInteractions, parseLabels } from "../core/ingest/jsonl.js";
+import { getDbPath, getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import { LINT_RULES, loadProjectLabelsConfig } from "../core/labels/config.js";
+import type { LintRule, LintSeverity } from "../core/labels/config.js";
+import { formatLintReport, lintLabels, parseRuleSeverity } from "../core/labels/lint.js";
+import type { LintContext } from "../core/labels/lint.js";
+import type { Interaction } from "../core/types.js";
+import { fileExists } from "../util/fs.js";
+import { inBatches } from "../util/batch.js";
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function labelLintCommand(): Command {
+  return new Command("lint")
+    .description("Check a labels file for problems before publishing")
+    .argument("<file>", "JSONL labels file")
+    .option("--sample <file>", "JSONL file with the labeled interactions (default: look them up in the store)")
+    .option(
+      "--rule <rule=severity>",
+      `Override a rule's severity (error, warning or off); repeatable. Rules: ${LINT_RULES.join(", ")}`,
+      collect,
+      []
+    )
+    .option("--format <format>", "Output format: text or json", "text")
+    .action(async (file: string, options: { sample?: string; rule: string[]; format: string }) => {
+      try {
+        if (options.format !== "text" && options.format !== "json") {
+          throw new Error(`Invalid --format ${options.format}: expected text or json`);
+        }
+
+        const config = await loadProjectLabelsConfig();
+        const severities: Partial<Record<LintRule, LintSeverity>> = { ...config?.lint?.rules };
+        for (const override of options.rule) {
+          const [rule, severity] = parseRuleSeverity(override);
+          severities[rule] = severity;
+        }
+
+        const parsed = await parseLabels(file);
+        const labelIds = [...new Set(parsed.items.map((l) => l.interactionId))];
+
+        const context: LintContext = {};
+        const hasStore = fileExists(getDbPath());
+        if (options.sample) {
+          const sample = await parseInteractions(options.sample);
+          if (sample.errors.length > 0) {
+            console.error(`Found ${sample.errors.length} errors in sample file`);
+          }
+          context.interactions = new Map(sample.items.map((i) => [i.interactionId, i]));
+        } else if (hasStore) {
+          const interactions: Interaction[] = [];
+          for (const batch of inBatches(labelIds, DEFAULT_BATCH_SIZE)) {
+            interactions.push(...getStore().getInteractions(batch));
+          }
+          context.interactions = new Map(interactions.map((i) => [i.interactionId, i]));
+        }
+
+        if (hasStore) {
+          const artifactIds = new Set(
+            parsed.items.flatMap((l) => [
+              ...(l.expected?.allowedArtifactIds ?? []),
+              ...(l.expected?.blockedArtifactIds ?? []),
+            ])
+          );
+          context.knownArtifactIds = new Set();
+          for (const batch of inBatches([...artifactIds], DEFAULT_BATCH_SIZE)) {
+            for (const artifact of getStore().getArtifacts(batch)) {
+              context.knownArtifactIds.add(artifact.artifactId);
+            }
+          }
+        }
+
+        const report = lintLabels(parsed.items, context, severities);
+        const errors = report.errors + parsed.errors.length;
+
+        if (options.format === "json") {
+          console.log(JSON.stringify({ ...report, errors, invalidLines: parsed.errors }, null, 2));
+        } else {
+          // Lines that are not valid labels are always errors
+          for (const error of parsed.errors) {
+            console.log(`  ${"error".padEnd(8)}${"invalid-label".padEnd(29)}line ${error.line}: ${error.error}`);
+          }
+          console.log(formatLintReport({ ...report, errors }, file));
+        }
+
+        if (errors > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error("Error linting labels:", error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,193 @@
+import { Command } from "commander";
+import { createInterface, emitKeypressEvents } from "readline";
+import type { Interface } from "readline";
+import { parseInteractions, parseLabels } from "../core/ingest/jsonl.js";
+import {
+  EXPECTED_FIELDS,
+  applyReviewAction,
+  formatReviewItem,
+  formatReviewSummary,
+  reviewedLabels,
+  startReview,
+  summarizeReview,
+} from "../core/labels/review.js";
+import type { ExpectedField, ReviewAction, ReviewState } from "../core/labels/review.js";
+import type { Label } from "../core/types.js";
+import { fileExists, writeTextAtomic } from "../util/fs.js";
+
+const HELP = "[p]ass [f]ail [c]larify  [n]otes [e]xpected  [s]kip [b]ack [q]uit";
+
+const VERDICT_KEYS: Record<string, Label["verdict"]> = {
+  p: "pass",
+  f: "fail",
+  c: "needs_clarification",
+};
+
+/**
+ * Reads the reviewer's keys and answers: single keypresses on a terminal,
+ * else one line per key (e.g. when input is piped)
+ */
+interface Prompt {
+  key(): Promise<string | null>;
+  line(question: string): Promise<string | null>;
+  close(): void;
+}
+
+function terminalPrompt(): Prompt {
+  const stdin = process.stdin;
+  emitKeypressEvents(stdin);
+
+  return {
+    key: () =>
+      new Promise((resolve) => {
+        stdin.setRawMode(true);
+        stdin.resume();
+        stdin.once("keypress", (str: string | undefined, key: { name?: string; ctrl?: boolean }) => {
+          stdin.setRawMode(false);
+          stdin.pause();
+          resolve(key.ctrl && key.name === "c" ? "q" : (str ?? key.name ?? ""));
+        });
+      }),
+    line: async (question) => {
+      const rl = createInterface({ input: stdin, output: process.stdout });
+      try {
+        return await new Promise<string>((resolve) => rl.question(question, resolve));
+      } finally {
+        rl.close();
+      }
+    },
+    close: () => stdin.pause(),
+  };
+}
+
+function linePrompt(): Prompt {
+  const rl: Interface = createInterface({ input: process.stdin });
+  const lines = rl[Symbol.asyncIterator]();
+  const next = async (): Promise<string | null> => {
+    const result = await lines.next();
+    return result.done ? null : String(result.value);
+  };
+
+  return {
+    key: async () => {
+      const line = await next();
+      return line === null ? null : line.trim().charAt(0);
+    },
+    line: async (question) => {
+      process.stdout.write(question);
+      return next();
+    },
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * The action for a key, asking for notes or an expected field where needed.
+ * Returns null for keys that do nothing.
+ */
+async function readAction(prompt: Prompt, state: ReviewState): Promise<ReviewAction | null> {
+  const key = await prompt.key();
+  if (key === null) return { type: "quit" };
+
+  const verdict = VERDICT_KEYS[key.toLowerCase()];
+  if (verdict) return { type: "verdict", verdict };
+
+  switch (key.toLowerCase()) {
+    case "n": {
+      const notes = await prompt.line(`Notes${state.draft.notes ? ` [${state.draft.notes}]` : ""}: `);
+      return notes === null ? null : { type: "notes", notes };
+    }
+    case "e": {
+      const field = await prompt.line(`Field (${EXPECTED_FIELDS.join(", ")}): `);
+      if (field === null) return null;
+      if (!(EXPECTED_FIELDS as readonly string[]).includes(field.trim())) {
+        console.log(`Unknown field: ${field.trim()}`);
+        return null;
+      }
+      const list = field.trim() === "expectedAnswer" ? "" : " (comma-separated)";
+      const value = await prompt.line(`${field.trim()}${list}, empty to clear: `);
+      return value === null ? null : { type: "expected", field: field.trim() as ExpectedField, value };
+    }
+    case "s":
+      return { type: "skip" };
+    case "b":
+      return { type: "back" };
+    case "q":
+      return { type: "quit" };
+    default:
+      console.log(HELP);
+      return null;
+  }
+}
+
+export function labelReviewCommand(): Command {
+  return new Command("review")
+    .description("Review a sample interactively, saving labels after every verdict")
+    .requiredOption("--in <file>", "Input JSONL file with interactions")
+    .requiredOption("--labels <file>", "JSONL labels file to write (created if missing, resumed if not)")
+    .requiredOption("--reviewer <name>", "Reviewer name recorded on the labels")
+    .action(async (options: { in: string; labels: string; reviewer: string }) => {
+      try {
+        const sample = await parseInteractions(options.in);
+        if (sample.errors.length > 0) {
+          console.error(`Found ${sample.errors.length} errors in input file`);
+          if (sample.items.length === 0) {
+            process.exit(1);
+          }
+        }
+
+        let existing: Label[] = [];
+        if (fileExists(options.labels)) {
+          const parsed = await parseLabels(options.labels);
+          if (parsed.errors.length > 0) {
+            // Saving would drop the invalid lines
+            throw new Error(
+              `Found ${parsed.errors.length} errors in ${options.labels}; fix them before reviewing`
+            );
+          }
+          existing = parsed.items;
+        }
+
+        let state = startReview(sample.items, existing, options.reviewer);
+        if (state.done) {
+          console.log(`All ${state.interactions.length} interactions already reviewed by ${options.reviewer}.`);
+        } else if (state.index > 0) {
+          console.log(`Resuming at ${state.index + 1} of ${state.interactions.length}.`);
+        }
+
+        const prompt = process.stdin.isTTY ? terminalPrompt() : linePrompt();
+        try {
+          let shown = -1;
+          while (!state.done) {
+            if (shown !== state.index) {
+              console.log(`\n${formatReviewItem(state)}\n\n${HELP}`);
+              shown = state.index;
+            }
+
+            const action = await readAction(prompt, state);
+            if (!action) continue;
+
+            const next = applyReviewAction(state, action);
+            if (action.type === "verdict") {
+              existing = reviewedLabels(next, existing);
+              const jsonl = existing.map((l) => JSON.stringify(l)).join("\n");
+              await writeTextAtomic(options.labels, jsonl + "\n");
+            }
+            if (action.type === "notes" || action.type === "expected") {
+              // Show the updated draft
+              shown = -1;
+            }
+            state = next;
+          }
+        } finally {
+          prompt.close();
+        }
+
+        console.log(`\n${formatReviewSummary(summarizeReview(state))}`);
+        console.log(`Labels saved to ${options.labels}`);
+      } catch (error) {
+        console.error("Error reviewing labels:", error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,52 @@
+import { Command } from "commander";
+import { getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import { assignmentStatus, formatAssignmentStatus } from "../core/labels/assign.js";
+import type { Label } from "../core/types.js";
+import { inBatches } from "../util/batch.js";
+
+export function labelStatusCommand(): Command {
+  return new Command("status")
+    .description("Show each reviewer's progress on an assignment round")
+    .option("--name <name>", "Assignment round (default: the most recent)")
+    .option("--limit <number>", "Outstanding interactions to list per reviewer", "10")
+    .option("--format <format>", "Output format: text or json", "text")
+    .action((options: { name?: string; limit: string; format: string }) => {
+      try {
+        const limit = parseInt(options.limit, 10);
+        if (isNaN(limit) || limit < 0) {
+          throw new Error(`Invalid --limit ${options.limit}: must be a non-negative number`);
+        }
+        if (options.format !== "text" && options.format !== "json") {
+          throw new Error(`Invalid --format ${options.format}: expected text or json`);
+        }
+
+        const store = getStore();
+        const name = options.name ?? store.getLatestAssignmentName();
+        if (!name) {
+          console.log('No assignments yet. Run "goldenset label assign" first.');
+          return;
+        }
+
+        const assignments = store.getAssignments(name);
+        if (assignments.length === 0) {
+          throw new Error(`Assignment not found: ${name}`);
+        }
+
+        const labels: Label[] = [];
+        for (const batch of inBatches([...new Set(assignments.map((a) => a.interactionId))], DEFAULT_BATCH_SIZE)) {
+          labels.push(...store.getLabels(batch));
+        }
+        const status = assignmentStatus(assignments, labels);
+
+        if (options.format === "json") {
+          console.log(JSON.stringify(status, null, 2));
+        } else {
+          console.log(formatAssignmentStatus(status, limit));
+        }
+      } catch (error) {
+        console.error("Error showing assignment status:", error);
+        process.exit(1);
+      }
+    });
+}
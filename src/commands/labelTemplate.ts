@@ -1,7 +1,28 @@
 import { Command } from "commander";
 import { parseInteractions } from "../core/ingest/jsonl.js";
-import { writeText } from "../util/fs.js";
-import type { Label } from "../core/types.js";
+import { fileExists, writeText } from "../util/fs.js";
+import { getDbPath, getStore } from "../core/store/index.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import {
+  LABEL_CONTEXT_KEY,
+  TEMPLATE_CONTEXT_FIELDS,
+  TEMPLATE_FORMATS,
+  TEMPLATE_REVIEWER,
+  buildLabelTemplate,
+  formatTemplateHtml,
+  formatTemplateMarkdown,
+  parseContextFields,
+} from "../core/labels/template.js";
+import type { TemplateFormat } from "../core/labels/template.js";
+import type { Artifact, Label } from "../core/types.js";
+import { inBatches } from "../util/batch.js";
+import { labelHistoryCommand } from "./labelHistory.js";
+import { labelAgreementCommand } from "./labelAgreement.js";
+import { labelReviewCommand } from "./labelReview.js";
+import { labelLintCommand } from "./labelLint.js";
+import { labelCheckCommand } from "./labelCheck.js";
+import { labelAssignCommand } from "./labelAssign.js";
+import { labelStatusCommand } from "./labelStatus.js";
 
 export function labelTemplateCommand(): Command {
   const cmd = new Command("label")
@@ -11,9 +32,25 @@ export function labelTemplateCommand(): Command {
     .command("template")
     .description("Generate a label template from a sample file")
     .requiredOption("--in <file>", "Input JSONL file with interactions")
-    .requiredOption("--out <file>", "Output JSONL file for labels")
-    .action(async (options: { in: string; out: string }) => {
+    .requiredOption("--out <file>", "Output file for labels (or the review packet)")
+    .option(
+      "--include <fields>",
+      `Read-only context to embed under ${LABEL_CONTEXT_KEY}: comma-separated ${TEMPLATE_CONTEXT_FIELDS.join(", ")}, or all (default: none; all for markdown/html)`
+    )
+    .option("--reviewer <name>", "Reviewer on the labels; starts from their stored labels", TEMPLATE_REVIEWER)
+    .option("--format <format>", `Output format: ${TEMPLATE_FORMATS.join(", ")}`, "jsonl")
+    .action(async (options: { in: string; out: string; include?: string; reviewer: string; format: string }) => {
       try {
+        if (!(TEMPLATE_FORMATS as readonly string[]).includes(options.format)) {
+          throw new Error(`Invalid --format ${options.format}: expected ${TEMPLATE_FORMATS.join(", ")}`);
+        }
+        const format = options.format as TemplateFormat;
+        const include = options.include
+          ? parseContextFields(options.include)
+          : format === "jsonl"
+            ? []
+            : [...TEMPLATE_CONTEXT_FIELDS];
+
         const result = await parseInteractions(options.in);
 
         if (result.errors.length > 0) {
@@ -23,27 +60,68 @@ export function labelTemplateCommand(): Command {
           }
         }
 
-        // Generate label templates
-        const labels: Label[] = result.items.map((interaction) => ({
-          interactionId: interaction.interactionId,
-          reviewedAt: new Date().toISOString(),
-          reviewer: "anonymous",
-          verdict: "needs_clarification",
-          notes: "",
-        }));
+        // Stored labels and artifacts, when the project has a store
+        const existing: Label[] = [];
+        const artifacts = new Map<string, Artifact>();
+        if (fileExists(getDbPath())) {
+          const store = getStore();
+          for (const batch of inBatches(result.items, DEFAULT_BATCH_SIZE)) {
+            existing.push(...store.getLabels(batch.map((i) => i.interactionId)));
+          }
+          if (include.includes("retrieval")) {
+            const ids = result.items.flatMap((i) =>
+              [
+                ...(i.context?.retrieval?.items ?? []),
+                ...(i.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+              ].flatMap((item) => (item.artifactId ? [item.artifactId] : []))
+            );
+            for (const batch of inBatches([...new Set(ids)], DEFAULT_BATCH_SIZE)) {
+              for (const artifact of store.getArtifacts(batch)) artifacts.set(artifact.artifactId, artifact);
+            }
+          }
+        }
+
+        const labels = buildLabelTemplate(result.items, {
+          reviewer: options.reviewer,
+          include,
+          existing,
+          artifacts,
+        });
+        const reviewed = new Set(existing.filter((l) => l.reviewer === options.reviewer).map((l) => l.interactionId));
+        const prefilled = labels.filter((l) => reviewed.has(l.interactionId)).length;
 
         // Write output
-        const jsonl = labels.map((l) => JSON.stringify(l)).join("\n");
-        await writeText(options.out, jsonl);
+        if (format === "markdown") {
+          await writeText(options.out, formatTemplateMarkdown(labels));
+        } else if (format === "html") {
+          await writeText(options.out, formatTemplateHtml(labels));
+        } else {
+          await writeText(options.out, labels.map((l) => JSON.stringify(l)).join("\n"));
+        }
 
-        console.log(`Generated ${labels.length} label templates in ${options.out}`);
-        console.log("Edit the file to add reviews and verdicts.");
+        if (format === "jsonl") {
+          console.log(`Generated ${labels.length} label templates in ${options.out}`);
+          if (prefilled > 0) {
+            console.log(`${prefilled} start from ${options.reviewer}'s stored labels.`);
+          }
+          console.log("Edit the file to add reviews and verdicts.");
+        } else {
+          console.log(`Generated a review packet of ${labels.length} interactions in ${options.out}`);
+        }
       } catch (error) {
         console.error("Error generating label template:", error);
         process.exit(1);
       }
     });
 
+  cmd.addCommand(labelHistoryCommand());
+  cmd.addCommand(labelAgreementCommand());
+  cmd.addCommand(labelReviewCommand());
+  cmd.addCommand(labelLintCommand());
+  cmd.addCommand(labelCheckCommand());
+  cmd.addCommand(labelAssignCommand());
+  cmd.addCommand(labelStatusCommand());
+
   return cmd;
 }
 
@@ -2,6 +2,29 @@ import { Command } from "commander";
 import { parseInteractions, parseLabels } from "../core/ingest/jsonl.js";
 import { getStore } from "../core/store/index.js";
 import { publishDataset } from "../core/datasets/publish.js";
+import { DEFAULT_BATCH_SIZE } from "../core/store/sqlite.js";
+import { DEFAULT_RESOLUTION, resolveLabels } from "../core/labels/resolve.js";
+import { RESOLUTION_POLICIES, ResolutionSchema, loadProjectLabelsConfig } from "../core/labels/config.js";
+import type { LabelsConfig, Resolution } from "../core/labels/config.js";
+import { formatIssues } from "../core/ingest/schemas.js";
+import { inBatches } from "../util/batch.js";
+
+const LABEL_OUTPUTS = ["resolved", "all"] as const;
+
+/**
+ * The resolution policy to publish with: --resolution (taking reviewers
+ * from the config) or else the project config
+ */
+function resolutionFor(policy: string | undefined, config: LabelsConfig | null): Resolution {
+  if (!policy) {
+    return config?.resolution ?? DEFAULT_RESOLUTION;
+  }
+  const result = ResolutionSchema.safeParse({ policy, reviewers: config?.resolution?.reviewers });
+  if (!result.success) {
+    throw new Error(`Invalid --resolution ${policy}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
 
 export function publishCommand(): Command {
   const cmd = new Command("publish")
@@ -10,13 +33,31 @@ export function publishCommand(): Command {
     .requiredOption("--sample <file>", "JSONL file with sampled interactions")
     .requiredOption("--labels <file>", "JSONL file with labels")
     .option("--desc <description>", "Description of the dataset version")
+    .option(
+      "--resolution <policy>",
+      `How to pick the effective label of an interaction with several: ${RESOLUTION_POLICIES.join(", ")} (default: from .goldenset/labels.json, else latest)`
+    )
+    .option(
+      "--labels-output <mode>",
+      "Labels written to labels.jsonl: resolved (one per interaction) or all",
+      "resolved"
+    )
     .action(async (options: {
       name: string;
       sample: string;
       labels: string;
       desc?: string;
+      resolution?: string;
+      labelsOutput: string;
     }) => {
       try {
+        if (!(LABEL_OUTPUTS as readonly string[]).includes(options.labelsOutput)) {
+          throw new Error(
+            `Invalid --labels-output: ${options.labelsOutput} (expected ${LABEL_OUTPUTS.join(", ")})`
+          );
+        }
+        const resolution = resolutionFor(options.resolution, await loadProjectLabelsConfig());
+
         // Parse sample and labels
         const sampleResult = await parseInteractions(options.sample);
         const labelsResult = await parseLabels(options.labels);
@@ -50,16 +91,21 @@ export function publishCommand(): Command {
 
         // Store labels in database
         const store = getStore();
-        for (const label of labelsResult.items) {
-          store.upsertLabel(label);
-        }
+        store.upsertLabels(labelsResult.items);
+
+        // Every stored review of the sample, including earlier ones
+        const reviews = [...inBatches([...sampleIds], DEFAULT_BATCH_SIZE)].flatMap((ids) =>
+          store.getLabels(ids)
+        );
+        const labels =
+          options.labelsOutput === "all" ? reviews : resolveLabels(reviews, resolution);
 
         // Publish dataset
         const version = await publishDataset({
           name: options.name,
           description: options.desc,
           interactions: sampleResult.items,
-          labels: labelsResult.items,
+          labels,
         });
 
         // Store version in database
@@ -67,6 +113,11 @@ export function publishCommand(): Command {
 
         console.log(`Published dataset version: ${version.name}`);
         console.log(`  Interactions: ${version.interactionIds.length}`);
+        console.log(
+          options.labelsOutput === "all"
+            ? `  Labels: ${labels.length} (all reviews)`
+            : `  Labels: ${labels.length} (resolved by ${resolution.policy} from ${reviews.length} reviews)`
+        );
         console.log(`  Created: ${version.createdAt}`);
       } catch (error) {
         console.error("Error publishing dataset:", error);
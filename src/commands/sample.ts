@@ -1,5 +1,6 @@
 import { Command } from "commander";
 import { getStore } from "../core/store/index.js";
+import { parseFilter } from "../core/filter/parse.js";
 import { stratifiedSample } from "../core/analytics/sample.js";
 import { dedupeExact } from "../core/analytics/dedupe.js";
 import { writeText } from "../util/fs.js";
@@ -10,7 +11,7 @@ export function sampleCommand(): Command {
     .requiredOption("--n <number>", "Number of interactions to sample", parseInt)
     .requiredOption("--by <keys>", "Comma-separated dimension keys for stratification")
     .requiredOption("--out <file>", "Output JSONL file path")
-    .option("--where <filters>", "Comma-separated key=value filters")
+    .option("--where <filter>", 'Filter expression (e.g., "intent=incident and not has:label")')
     .option("--dedupe <method>", "Deduplication method: exact", "exact")
     .option("--seed <number>", "Random seed for reproducibility", parseInt)
     .action(async (options: {
@@ -23,19 +24,9 @@ export function sampleCommand(): Command {
     }) => {
       try {
         const store = getStore();
-        let interactions = store.getAllInteractions();
-
-        // Parse where filters
-        let whereFilter: Record<string, string> | undefined;
-        if (options.where) {
-          whereFilter = {};
-          for (const filter of options.where.split(",")) {
-            const [key, value] = filter.split("=").map((s) => s.trim());
-            if (key && value) {
-              whereFilter[key] = value;
-            }
-          }
-        }
+        let interactions = store.findInteractions(
+          options.where ? parseFilter(options.where) : undefined
+        );
 
         // Deduplication
         if (options.dedupe === "exact") {
@@ -47,7 +38,6 @@ export function sampleCommand(): Command {
         const sampled = stratifiedSample(interactions, {
           n: options.n,
           by: dimensionKeys,
-          where: whereFilter,
           seed: options.seed,
         });
 
@@ -0,0 +1,60 @@
+import { Command } from "commander";
+import { getStore } from "../core/store/index.js";
+import { parseFilter } from "../core/filter/parse.js";
+import { toFtsQuery } from "../core/search/query.js";
+import { SEARCH_FIELDS } from "../core/search/document.js";
+import type { SearchHit } from "../core/search/document.js";
+import { writeText } from "../util/fs.js";
+
+function formatHit(hit: SearchHit, index: number): string {
+  const { interaction } = hit;
+  const dimensions = Object.entries(interaction.dimensions ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+
+  const lines = [`${index + 1}. ${interaction.interactionId}${dimensions ? `  (${dimensions})` : ""}`];
+  for (const field of SEARCH_FIELDS) {
+    const text = hit.highlights[field];
+    if (text) lines.push(`   ${`${field}:`.padEnd(10)}${text.replace(/\s+/g, " ")}`);
+  }
+  return lines.join("\n");
+}
+
+export function searchCommand(): Command {
+  const cmd = new Command("search")
+    .description("Full-text search over interaction inputs, outputs and retrieved snippets")
+    .argument("<query>", 'Search query (e.g., \'"reset password" OR onboard*\')')
+    .option("--where <filter>", 'Filter expression (e.g., "intent=incident and not has:label")')
+    .option("--limit <number>", "Maximum number of matches", parseInt, 20)
+    .option("--out <file>", "Write the matching interactions to a JSONL file")
+    .action(async (query: string, options: { where?: string; limit: number; out?: string }) => {
+      try {
+        const store = getStore();
+        const color = process.stdout.isTTY;
+        const hits = store.searchInteractions(toFtsQuery(query), {
+          filter: options.where ? parseFilter(options.where) : undefined,
+          limit: options.limit,
+          highlight: color ? { open: "\x1b[1;33m", close: "\x1b[0m" } : { open: "[", close: "]" },
+        });
+
+        if (hits.length === 0) {
+          console.log("No matches.");
+          return;
+        }
+
+        console.log(hits.map(formatHit).join("\n\n"));
+        console.log(`\n${hits.length} match${hits.length === 1 ? "" : "es"}`);
+
+        if (options.out) {
+          const jsonl = hits.map((hit) => JSON.stringify(hit.interaction)).join("\n");
+          await writeText(options.out, jsonl);
+          console.log(`Wrote ${hits.length} interactions to ${options.out}`);
+        }
+      } catch (error) {
+        console.error("Error searching:", error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -1,6 +1,8 @@
 import { Command } from "commander";
 import { getStore } from "../core/store/index.js";
+import { parseFilter } from "../core/filter/parse.js";
 import { computeStats, formatStats } from "../core/analytics/stats.js";
+import { loadProjectVocabulary } from "../core/dimensions/vocabulary.js";
 
 export function statsCommand(): Command {
   const cmd = new Command("stats")
@@ -10,36 +12,15 @@ export function statsCommand(): Command {
       "Comma-separated list of dimension keys to group by"
     )
     .option(
-      "--where <filters>",
-      "Comma-separated key=value filters (e.g., intent=incident,department=eng)"
+      "--where <filter>",
+      'Filter expression (e.g., "intent=incident and not has:label")'
     )
     .action(async (options: { by?: string; where?: string }) => {
       try {
         const store = getStore();
-        let interactions = store.getAllInteractions();
-
-        // Parse where filters
-        let whereFilter: Record<string, string> | undefined;
-        if (options.where) {
-          whereFilter = {};
-          for (const filter of options.where.split(",")) {
-            const [key, value] = filter.split("=").map((s) => s.trim());
-            if (key && value) {
-              whereFilter[key] = value;
-            }
-          }
-          if (whereFilter) {
-            interactions = interactions.filter((interaction) => {
-              if (!interaction.dimensions) return false;
-              for (const [key, value] of Object.entries(whereFilter!)) {
-                if (interaction.dimensions[key] !== value) {
-                  return false;
-                }
-              }
-              return true;
-            });
-          }
-        }
+        const interactions = store.findInteractions(
+          options.where ? parseFilter(options.where) : undefined
+        );
 
         // Parse dimension keys
         let dimensionKeys: string[] | undefined;
@@ -47,7 +28,8 @@ export function statsCommand(): Command {
           dimensionKeys = options.by.split(",").map((s) => s.trim());
         }
 
-        const stats = computeStats(interactions, dimensionKeys);
+        const vocabulary = await loadProjectVocabulary();
+        const stats = computeStats(interactions, dimensionKeys, vocabulary);
         console.log(formatStats(stats));
       } catch (error) {
         console.error("Error computing stats:", error);
@@ -0,0 +1,47 @@
+import { Command } from "commander";
+import { getStore, closeStore } from "../core/store/index.js";
+import { createUiServer } from "../core/ui/server.js";
+import { DEFAULT_RESOLUTION } from "../core/labels/resolve.js";
+import { loadProjectLabelsConfig } from "../core/labels/config.js";
+
+// Only reachable from this machine
+const HOST = "127.0.0.1";
+
+export function uiCommand(): Command {
+  return new Command("ui")
+    .description("Start the labeling web UI on localhost")
+    .option("--port <number>", "Port to listen on", "4321")
+    .option("--reviewer <name>", "Reviewer name to prefill in label forms")
+    .action(async (options: { port: string; reviewer?: string }) => {
+      try {
+        const port = parseInt(options.port, 10);
+        if (isNaN(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid --port ${options.port}`);
+        }
+
+        const config = await loadProjectLabelsConfig();
+        const server = createUiServer(getStore(), {
+          resolution: config?.resolution ?? DEFAULT_RESOLUTION,
+          reviewer: options.reviewer,
+        });
+
+        await new Promise<void>((resolve, reject) => {
+          server.once("error", reject);
+          server.listen(port, HOST, resolve);
+        });
+
+        const address = server.address();
+        const actualPort = typeof address === "object" && address ? address.port : port;
+        console.log(`Labeling UI at http://${HOST}:${actualPort}/ (Ctrl-C to stop)`);
+
+        process.once("SIGINT", () => {
+          server.close();
+          closeStore();
+          process.exit(0);
+        });
+      } catch (error) {
+        console.error("Error starting UI:", error);
+        process.exit(1);
+      }
+    });
+}
@@ -68,4 +68,70 @@ describe("dedupeExact", () => {
     expect(deduped).toHaveLength(1);
     expect(deduped[0].interactionId).toBe("1");
   });
+
+  it("dedupes multi-turn conversations by their user-facing prompt", () => {
+    const interactions: Interaction[] = [
+      {
+        interactionId: "1",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "And on weekends?" },
+        messages: [
+          { role: "user", content: "How do I page on-call?" },
+          { role: "assistant", content: "Use the pager." },
+          { role: "user", content: "And on weekends?" },
+        ],
+      },
+      {
+        interactionId: "2",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "and on weekends?" },
+        messages: [
+          { role: "user", content: "how do i page on-call?" },
+          { role: "assistant", content: "Use the pager." },
+          { role: "user", content: "and on weekends?  " },
+          { role: "assistant", content: "A different reply" }, // Trailing reply ignored
+        ],
+      },
+      {
+        interactionId: "3",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "And on weekends?" }, // Same last turn, different history
+        messages: [
+          { role: "user", content: "How do I reset my password?" },
+          { role: "assistant", content: "Use the portal." },
+          { role: "user", content: "And on weekends?" },
+        ],
+      },
+      {
+        interactionId: "4",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "And on weekends?" }, // Single-turn equivalent of nothing above
+      },
+    ];
+
+    const deduped = dedupeExact(interactions);
+    expect(deduped.map((i) => i.interactionId)).toEqual(["1", "3", "4"]);
+  });
+
+  it("treats a single user turn like single-turn input", () => {
+    const interactions: Interaction[] = [
+      {
+        interactionId: "1",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "What is Y?" },
+      },
+      {
+        interactionId: "2",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "What is Y?" },
+        messages: [
+          { role: "user", content: "what is y?" },
+          { role: "assistant", content: "Y is..." },
+        ],
+      },
+    ];
+
+    const deduped = dedupeExact(interactions);
+    expect(deduped).toHaveLength(1);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { computeStats } from "../stats.js";
+import { computeStats, formatStats } from "../stats.js";
 import type { Interaction } from "../../types.js";
 
 describe("computeStats", () => {
@@ -78,4 +78,21 @@ describe("computeStats", () => {
     expect(stats.byDimension.department).toBeDefined();
     expect(stats.byDimension.extra).toBeUndefined();
   });
+
+  it("flags out-of-vocabulary values when a vocabulary is given", () => {
+    const interactions: Interaction[] = [
+      {
+        interactionId: "1",
+        timestamp: "2026-01-01T00:00:00Z",
+        input: { text: "test" },
+        dimensions: { department: "enginering" },
+      },
+    ];
+
+    const stats = computeStats(interactions, undefined, { keys: { department: ["eng"] } });
+    expect(stats.outOfVocabulary).toEqual([
+      { key: "department", value: "enginering", count: 1 },
+    ]);
+    expect(formatStats(stats)).toContain("department=enginering: 1");
+  });
 });
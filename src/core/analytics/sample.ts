@@ -101,7 +101,7 @@ export function stratifiedSample(
  * Build composite key from dimension values.
  * Use JSON.stringify to avoid delimiter collisions.
  */
-function buildCompositeKey(interaction: Interaction, keys: string[]): string {
+export function buildCompositeKey(interaction: Interaction, keys: string[]): string {
   const values = keys.map((k) => interaction.dimensions?.[k] ?? "__missing__");
   return JSON.stringify(values);
 }
@@ -314,7 +314,7 @@ function topUp(
  * A better seeded RNG than the simple LCG you had.
  * Deterministic, fast, and commonly used.
  */
-function mulberry32(seed: number): () => number {
+export function mulberry32(seed: number): () => number {
   let t = seed >>> 0;
   return () => {
     t += 0x6d2b79f5;
@@ -1,4 +1,6 @@
 import type { Interaction } from "../types.js";
+import { findOutOfVocabulary, formatOutOfVocabulary } from "../dimensions/vocabulary.js";
+import type { DimensionVocabulary, OutOfVocabularyCount } from "../dimensions/vocabulary.js";
 
 const MISSING = "__missing__";
 
@@ -6,6 +8,8 @@ export interface DimensionStats {
   byDimension: Record<string, Record<string, number>>;
   tagCounts: Record<string, number>;
   total: number;
+  /** Dimension values outside the project vocabulary, when one is registered */
+  outOfVocabulary?: OutOfVocabularyCount[];
 }
 
 /**
@@ -13,7 +17,8 @@ export interface DimensionStats {
  */
 export function computeStats(
   interactions: Interaction[],
-  dimensionKeys?: string[]
+  dimensionKeys?: string[],
+  vocabulary?: DimensionVocabulary | null
 ): DimensionStats {
   const byDimension: Record<string, Record<string, number>> = {};
   const tagCounts: Record<string, number> = {};
@@ -40,7 +45,11 @@ export function computeStats(
     }
   }
 
-  return { byDimension, tagCounts, total: interactions.length };
+  const stats: DimensionStats = { byDimension, tagCounts, total: interactions.length };
+  if (vocabulary) {
+    stats.outOfVocabulary = findOutOfVocabulary(interactions, vocabulary);
+  }
+  return stats;
 }
 
 /**
@@ -90,6 +99,13 @@ export function formatStats(stats: DimensionStats): string {
     }
   }
 
+  // Values outside the vocabulary create phantom strata when sampling
+  if (stats.outOfVocabulary && stats.outOfVocabulary.length > 0) {
+    lines.push("");
+    lines.push("Out-of-vocabulary dimension values:");
+    lines.push(...formatOutOfVocabulary(stats.outOfVocabulary));
+  }
+
   return lines.join("\n");
 }
 
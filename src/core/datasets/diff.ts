@@ -1,5 +1,6 @@
 import type { Interaction, Label } from "../types.js";
 import { parseInteractions, parseLabels } from "../ingest/jsonl.js";
+import { resolveLabels } from "../labels/resolve.js";
 import { sanitizeVersionName } from "./helpers.js";
 import { join } from "path";
 import { existsSync } from "fs";
@@ -96,8 +97,9 @@ async function loadLabels(
     throw new Error(`Failed to parse labels: ${result.errors[0].error}`);
   }
 
+  // Versions published with all labels are compared by their latest ones
   const map = new Map<string, Label>();
-  for (const label of result.items) {
+  for (const label of resolveLabels(result.items)) {
     map.set(label.interactionId, label);
   }
   return map;
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { enrichInteractions, citedArtifactIds, DEFAULT_ENRICH_CONFIG } from "../enrich.js";
+import type { EnrichConfig } from "../enrich.js";
+import type { Artifact, Interaction, RetrievalItem } from "../../types.js";
+
+const artifacts: Artifact[] = [
+  { artifactId: "doc:a", type: "doc", meta: { owner: "sre", criticality: "low" } },
+  { artifactId: "doc:b", type: "runbook", meta: { owner: "ops", criticality: "high" } },
+  { artifactId: "doc:c", type: "runbook", meta: { owner: "ops", criticality: "medium" } },
+];
+
+function citing(id: string, items: RetrievalItem[], dimensions?: Record<string, string>): Interaction {
+  return {
+    interactionId: id,
+    timestamp: "2026-01-01T00:00:00Z",
+    input: { text: "q" },
+    context: { retrieval: { items } },
+    dimensions,
+  };
+}
+
+const severalCitations = citing("1", [
+  { artifactId: "doc:a", score: 0.9 },
+  { artifactId: "doc:b", score: 0.5 },
+  { artifactId: "doc:c", score: 0.7 },
+]);
+
+function enrichOne(interaction: Interaction, config: EnrichConfig = DEFAULT_ENRICH_CONFIG) {
+  return enrichInteractions([interaction], artifacts, config).changed[0]?.dimensions;
+}
+
+describe("enrichInteractions", () => {
+  it("takes values from the top-scored artifact by default", () => {
+    expect(enrichOne(severalCitations)).toEqual({
+      docType: "doc",
+      owner: "sre",
+      criticality: "low",
+    });
+  });
+
+  it("takes the most common value under majority", () => {
+    expect(enrichOne(severalCitations, { ...DEFAULT_ENRICH_CONFIG, policy: "majority" })).toEqual({
+      docType: "runbook",
+      owner: "ops",
+      // All three differ, so the top-scored item breaks the tie
+      criticality: "low",
+    });
+  });
+
+  it("takes every value from the most critical artifact under max-criticality", () => {
+    expect(
+      enrichOne(severalCitations, { ...DEFAULT_ENRICH_CONFIG, policy: "max-criticality" })
+    ).toEqual({ docType: "runbook", owner: "ops", criticality: "high" });
+  });
+
+  it("lets a mapping override the policy", () => {
+    const config: EnrichConfig = {
+      policy: "top-score",
+      mappings: [
+        { from: "type", to: "docType" },
+        { from: "meta.criticality", to: "criticality", policy: "max-criticality" },
+      ],
+    };
+    expect(enrichOne(severalCitations, config)).toEqual({ docType: "doc", criticality: "high" });
+  });
+
+  it("keeps existing dimensions unless overwriting", () => {
+    const labeled = citing("1", [{ artifactId: "doc:b" }], { docType: "policy" });
+
+    expect(enrichOne(labeled)).toEqual({ docType: "policy", owner: "ops", criticality: "high" });
+    expect(enrichOne(labeled, { ...DEFAULT_ENRICH_CONFIG, overwrite: true })?.docType).toBe("runbook");
+  });
+
+  it("summarizes changes and interactions without known artifacts", () => {
+    const interactions = [
+      severalCitations,
+      citing("2", [{ artifactId: "doc:missing" }]),
+      citing("3", [{ artifactId: "doc:a" }], { docType: "doc", owner: "sre", criticality: "low" }),
+    ];
+
+    const { changed, summary } = enrichInteractions(interactions, artifacts, DEFAULT_ENRICH_CONFIG);
+
+    expect(changed.map((i) => i.interactionId)).toEqual(["1"]);
+    expect(summary).toEqual({
+      enriched: 1,
+      withoutArtifacts: 1,
+      dimensions: { docType: 1, owner: 1, criticality: 1 },
+    });
+    expect(citedArtifactIds(interactions)).toEqual(["doc:a", "doc:b", "doc:c", "doc:missing"]);
+  });
+});
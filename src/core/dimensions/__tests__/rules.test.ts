@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { compileRules, applyRules, deriveDimensions, RulesFileSchema } from "../rules.js";
+import type { RulesFile } from "../rules.js";
+import type { Interaction } from "../../types.js";
+
+function interaction(id: string, text: string, extra: Partial<Interaction> = {}): Interaction {
+  return { interactionId: id, timestamp: "2026-01-01T00:00:00Z", input: { text }, ...extra };
+}
+
+const rulesFile: RulesFile = {
+  rules: [
+    { name: "incident", when: { input: "outage|page|sev[0-9]", flags: "i" }, set: { intent: "incident" } },
+    { name: "runbooks", when: { artifactPrefix: "runbook:" }, set: { docType: "runbook", intent: "howto" } },
+    { name: "slack", when: { source: "slack", tag: "escalated" }, set: { channel: "escalation" } },
+  ],
+};
+
+describe("deriveDimensions", () => {
+  const ruleSet = compileRules(rulesFile);
+
+  it("lets the first matching rule decide each key", () => {
+    const result = deriveDimensions(
+      interaction("1", "SEV2 outage, which runbook?", {
+        context: { retrieval: { items: [{ artifactId: "runbook:db-failover" }] } },
+      }),
+      ruleSet
+    );
+
+    expect(result.dimensions).toEqual({ intent: "incident", docType: "runbook" });
+    expect(result.applied).toEqual([0, 1]);
+  });
+
+  it("requires every condition of a rule", () => {
+    const tagged = interaction("1", "help", { source: "slack", tags: ["escalated"] });
+    const untagged = interaction("2", "help", { source: "slack" });
+
+    expect(deriveDimensions(tagged, ruleSet).dimensions).toEqual({ channel: "escalation" });
+    expect(deriveDimensions(untagged, ruleSet).applied).toEqual([]);
+  });
+
+  it("keeps existing dimensions unless the rules overwrite", () => {
+    const existing = interaction("1", "outage", { dimensions: { intent: "policy" } });
+
+    expect(deriveDimensions(existing, ruleSet).dimensions).toEqual({ intent: "policy" });
+    expect(
+      deriveDimensions(existing, compileRules({ ...rulesFile, overwrite: true })).dimensions
+    ).toEqual({ intent: "incident" });
+  });
+});
+
+describe("applyRules", () => {
+  it("counts the interactions each rule touched", () => {
+    const { items, changed, summary } = applyRules(
+      [interaction("1", "outage in prod"), interaction("2", "page me"), interaction("3", "hello")],
+      compileRules(rulesFile)
+    );
+
+    expect(items).toHaveLength(3);
+    expect(changed.map((i) => i.interactionId)).toEqual(["1", "2"]);
+    expect(summary).toEqual({
+      changed: 2,
+      rules: [
+        { name: "incident", touched: 2 },
+        { name: "runbooks", touched: 0 },
+        { name: "slack", touched: 0 },
+      ],
+    });
+  });
+});
+
+describe("rules file validation", () => {
+  it("rejects rules without conditions and invalid regexes", () => {
+    expect(RulesFileSchema.safeParse({ rules: [{ when: {}, set: { a: "b" } }] }).success).toBe(false);
+    expect(() =>
+      compileRules({ rules: [{ name: "bad", when: { input: "(" }, set: { a: "b" } }] })
+    ).toThrow("bad input");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { InteractionSchema, formatIssues } from "../../ingest/schemas.js";
+import { withVocabulary, findOutOfVocabulary, applyVocabulary } from "../vocabulary.js";
+import type { DimensionVocabulary } from "../vocabulary.js";
+import type { Interaction } from "../../types.js";
+
+const vocabulary: DimensionVocabulary = {
+  keys: {
+    department: ["eng", "security", "other"],
+    criticality: ["low", "high"],
+  },
+};
+
+function record(dimensions: Record<string, string>): Interaction {
+  return {
+    interactionId: "1",
+    timestamp: "2026-01-01T00:00:00Z",
+    input: { text: "q" },
+    dimensions,
+  };
+}
+
+describe("withVocabulary", () => {
+  it("accepts in-vocabulary dimensions", () => {
+    const schema = withVocabulary(InteractionSchema, vocabulary, "strict");
+    const result = schema.safeParse(record({ department: "eng", criticality: "low" }));
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects unknown values of known keys in strict mode", () => {
+    const schema = withVocabulary(InteractionSchema, vocabulary, "strict");
+
+    const badValue = schema.safeParse(record({ department: "enginering" }));
+    expect(badValue.success).toBe(false);
+    expect(formatIssues(badValue.error!.issues)).toBe(
+      'dimensions.department: "enginering" is not in the vocabulary (expected one of eng, security, other)'
+    );
+
+    // Keys are open, e.g. for the model and totalTokens an adapter adds
+    const otherKey = schema.safeParse(record({ department: "eng", model: "gpt-4o" }));
+    expect(otherKey.success).toBe(true);
+  });
+
+  it("coerces to other where the key allows it", () => {
+    const schema = withVocabulary(InteractionSchema, vocabulary, "coerce-to-other");
+
+    const coerced = schema.safeParse(record({ department: "marketing" }));
+    expect(coerced.success).toBe(true);
+    expect(coerced.data?.dimensions).toEqual({ department: "other" });
+
+    // criticality has no "other" value, so there is nothing to coerce to
+    expect(schema.safeParse(record({ criticality: "medium" })).success).toBe(false);
+  });
+
+  it("leaves dimensions untouched in warn mode", () => {
+    const schema = withVocabulary(InteractionSchema, vocabulary, "warn");
+    const result = schema.safeParse(record({ department: "marketing" }));
+    expect(result.success).toBe(true);
+    expect(result.data?.dimensions).toEqual({ department: "marketing" });
+  });
+});
+
+describe("findOutOfVocabulary", () => {
+  it("counts out-of-vocabulary values, most frequent first", () => {
+    const interactions = [
+      record({ department: "eng" }),
+      record({ departmnet: "eng" }),
+      record({ department: "marketing" }),
+      record({ department: "marketing" }),
+    ];
+
+    expect(findOutOfVocabulary(interactions, vocabulary)).toEqual([
+      { key: "department", value: "marketing", count: 2 },
+    ]);
+  });
+});
+
+describe("applyVocabulary", () => {
+  const interactions = [
+    { ...record({ department: "eng" }), interactionId: "1" },
+    { ...record({ department: "marketing" }), interactionId: "2" },
+    { ...record({ criticality: "medium" }), interactionId: "3" },
+  ];
+
+  it("leaves out interactions with out-of-vocabulary values in strict mode", () => {
+    const { items, summary } = applyVocabulary(interactions, vocabulary, "strict");
+    expect(items.map((i) => i.interactionId)).toEqual(["1"]);
+    expect(summary).toEqual({
+      rejected: 2,
+      coerced: 0,
+      outOfVocabulary: [
+        { key: "criticality", value: "medium", count: 1 },
+        { key: "department", value: "marketing", count: 1 },
+      ],
+    });
+  });
+
+  it("coerces what it can and keeps everything in warn mode", () => {
+    const coerced = applyVocabulary(interactions, vocabulary, "coerce-to-other");
+    expect(coerced.items.map((i) => i.dimensions)).toEqual([{ department: "eng" }, { department: "other" }]);
+    expect(coerced.summary).toMatchObject({ rejected: 1, coerced: 1 });
+
+    const warned = applyVocabulary(interactions, vocabulary, "warn");
+    expect(warned.items).toEqual(interactions);
+    expect(warned.summary).toMatchObject({ rejected: 0, coerced: 0 });
+    expect(warned.summary.outOfVocabulary).toHaveLength(2);
+  });
+});
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import type { Artifact, Interaction } from "../types.js";
+import { readJson } from "../../util/fs.js";
+import { formatIssues } from "../ingest/schemas.js";
+
+export const ENRICH_POLICIES = ["top-score", "majority", "max-criticality"] as const;
+
+/**
+ * Which artifact decides a dimension when an interaction cites several:
+ * - top-score: the highest-scored retrieval item
+ * - majority: the most common value (ties go to the higher-scored item)
+ * - max-criticality: the most critical artifact (see criticality.order)
+ */
+export type EnrichPolicy = (typeof ENRICH_POLICIES)[number];
+
+// Artifact fields a mapping can read: "type", "title" or "meta.<key>"
+const ArtifactFieldSchema = z
+  .string()
+  .regex(/^(type|title|meta\.[^.]+)$/, 'must be "type", "title" or "meta.<key>"');
+
+const EnrichMappingSchema = z.object({
+  from: ArtifactFieldSchema,
+  to: z.string().min(1),
+  policy: z.enum(ENRICH_POLICIES).optional(),
+});
+
+export const EnrichConfigSchema = z.object({
+  policy: z.enum(ENRICH_POLICIES).optional(),
+  /** Replace dimensions the interaction already has (default: only fill missing ones) */
+  overwrite: z.boolean().optional(),
+  criticality: z
+    .object({
+      field: ArtifactFieldSchema.optional(),
+      /** Least critical first */
+      order: z.array(z.string()).min(1).optional(),
+    })
+    .optional(),
+  mappings: z.array(EnrichMappingSchema).min(1),
+});
+
+export type EnrichConfig = z.infer<typeof EnrichConfigSchema>;
+
+// Matches the artifact metadata of the examples/internal-docs preset
+export const DEFAULT_ENRICH_CONFIG: EnrichConfig = {
+  policy: "top-score",
+  mappings: [
+    { from: "type", to: "docType" },
+    { from: "meta.owner", to: "owner" },
+    { from: "meta.criticality", to: "criticality" },
+  ],
+};
+
+const DEFAULT_CRITICALITY_FIELD = "meta.criticality";
+const DEFAULT_CRITICALITY_ORDER = ["low", "medium", "high", "critical"];
+
+export interface EnrichSummary {
+  /** Interactions with at least one changed dimension */
+  enriched: number;
+  /** Interactions citing no artifact that is in the store */
+  withoutArtifacts: number;
+  /** Interactions changed per dimension */
+  dimensions: Record<string, number>;
+}
+
+// A cited artifact, with the retrieval rank used to break ties
+interface Citation {
+  artifact: Artifact;
+  score: number;
+  position: number;
+}
+
+/**
+ * Load and validate an enrichment mapping file
+ */
+export async function loadEnrichConfig(path: string): Promise<EnrichConfig> {
+  const result = EnrichConfigSchema.safeParse(await readJson<unknown>(path));
+  if (!result.success) {
+    throw new Error(`Invalid enrichment mapping ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+function fieldValue(artifact: Artifact, field: string): string | undefined {
+  const value =
+    field === "type"
+      ? artifact.type
+      : field === "title"
+        ? artifact.title
+        : artifact.meta?.[field.slice("meta.".length)];
+  return value === undefined || value === "" ? undefined : String(value);
+}
+
+/**
+ * Artifacts cited by an interaction, best-ranked first: highest score,
+ * then earliest in the retrieval list. Each artifact appears once.
+ */
+function citations(interaction: Interaction, artifacts: Map<string, Artifact>): Citation[] {
+  const byId = new Map<string, Citation>();
+
+  (interaction.context?.retrieval?.items ?? []).forEach((item, position) => {
+    const artifact = item.artifactId ? artifacts.get(item.artifactId) : undefined;
+    if (!artifact) return;
+
+    const score = item.score ?? -Infinity;
+    const existing = byId.get(artifact.artifactId);
+    if (!existing || score > existing.score) {
+      byId.set(artifact.artifactId, { artifact, score, position: existing?.position ?? position });
+    }
+  });
+
+  return [...byId.values()].sort((a, b) => b.score - a.score || a.position - b.position);
+}
+
+function pickValue(
+  cited: Citation[],
+  from: string,
+  policy: EnrichPolicy,
+  config: EnrichConfig
+): string | undefined {
+  const candidates = cited.filter((c) => fieldValue(c.artifact, from) !== undefined);
+  if (candidates.length === 0) return undefined;
+
+  switch (policy) {
+    case "top-score":
+      return fieldValue(candidates[0].artifact, from);
+
+    case "majority": {
+      const counts = new Map<string, number>();
+      for (const c of candidates) {
+        const value = fieldValue(c.artifact, from)!;
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+      // Candidates are best-ranked first, so the first value with the top
+      // count wins ties
+      const top = Math.max(...counts.values());
+      return [...counts.keys()].find((value) => counts.get(value) === top);
+    }
+
+    case "max-criticality": {
+      const field = config.criticality?.field ?? DEFAULT_CRITICALITY_FIELD;
+      const order = config.criticality?.order ?? DEFAULT_CRITICALITY_ORDER;
+      const rank = (c: Citation) => order.indexOf(fieldValue(c.artifact, field) ?? "");
+      // Stable sort keeps the score order among equally critical artifacts
+      const [mostCritical] = [...candidates].sort((a, b) => rank(b) - rank(a));
+      return fieldValue(mostCritical.artifact, from);
+    }
+  }
+}
+
+/**
+ * Fill dimensions of one interaction from the artifacts it cites. Returns
+ * the new dimensions and the keys that changed.
+ */
+export function enrichInteraction(
+  interaction: Interaction,
+  artifacts: Map<string, Artifact>,
+  config: EnrichConfig
+): { dimensions: Record<string, string>; changed: string[]; cited: number } {
+  const dimensions = { ...interaction.dimensions };
+  const changed: string[] = [];
+  const cited = citations(interaction, artifacts);
+
+  for (const mapping of config.mappings) {
+    if (!config.overwrite && dimensions[mapping.to] !== undefined) continue;
+
+    const policy = mapping.policy ?? config.policy ?? "top-score";
+    const value = pickValue(cited, mapping.from, policy, config);
+    if (value !== undefined && dimensions[mapping.to] !== value) {
+      dimensions[mapping.to] = value;
+      changed.push(mapping.to);
+    }
+  }
+
+  return { dimensions, changed, cited: cited.length };
+}
+
+/**
+ * Enrich interactions from the given artifacts. Returns the interactions
+ * that changed and a summary.
+ */
+export function enrichInteractions(
+  interactions: Interaction[],
+  artifacts: Artifact[],
+  config: EnrichConfig
+): { changed: Interaction[]; summary: EnrichSummary } {
+  const byId = new Map(artifacts.map((a) => [a.artifactId, a]));
+  const changed: Interaction[] = [];
+  const summary: EnrichSummary = { enriched: 0, withoutArtifacts: 0, dimensions: {} };
+
+  for (const interaction of interactions) {
+    const result = enrichInteraction(interaction, byId, config);
+    if (result.cited === 0) {
+      summary.withoutArtifacts++;
+      continue;
+    }
+    if (result.changed.length === 0) continue;
+
+    changed.push({ ...interaction, dimensions: result.dimensions });
+    summary.enriched++;
+    for (const key of result.changed) {
+      summary.dimensions[key] = (summary.dimensions[key] ?? 0) + 1;
+    }
+  }
+
+  return { changed, summary };
+}
+
+/**
+ * Distinct artifact ids cited by interactions
+ */
+export function citedArtifactIds(interactions: Interaction[]): string[] {
+  const ids = new Set<string>();
+  for (const interaction of interactions) {
+    for (const item of interaction.context?.retrieval?.items ?? []) {
+      if (item.artifactId) ids.add(item.artifactId);
+    }
+  }
+  return [...ids].sort();
+}
@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { join } from "path";
+import type { Interaction } from "../types.js";
+import { fileExists, getGoldensetDir, readJson } from "../../util/fs.js";
+import { formatIssues } from "../ingest/schemas.js";
+
+// Project rules file, inside .goldenset/
+export const RULES_FILE = "rules.json";
+
+// Every condition present must hold for a rule to match
+const ConditionSchema = z
+  .object({
+    /** Regex tested against input.text */
+    input: z.string().optional(),
+    /** Regex tested against output.text */
+    output: z.string().optional(),
+    /** Regex flags for input/output, e.g. "i" */
+    flags: z.string().optional(),
+    /** Tag the interaction must have */
+    tag: z.string().optional(),
+    /** Exact source */
+    source: z.string().optional(),
+    /** Prefix of at least one cited artifact id (context.retrieval.items) */
+    artifactPrefix: z.string().optional(),
+  })
+  .refine(
+    (c) => [c.input, c.output, c.tag, c.source, c.artifactPrefix].some((v) => v !== undefined),
+    "needs at least one of input, output, tag, source or artifactPrefix"
+  );
+
+const RuleSchema = z.object({
+  name: z.string().optional(),
+  when: ConditionSchema,
+  set: z.record(z.string(), z.string()).refine((s) => Object.keys(s).length > 0, "is empty"),
+});
+
+export const RulesFileSchema = z.object({
+  /** Replace dimensions the interaction already has (default: only fill missing ones) */
+  overwrite: z.boolean().optional(),
+  rules: z.array(RuleSchema),
+});
+
+export type RulesFile = z.infer<typeof RulesFileSchema>;
+
+export interface CompiledRule {
+  name: string;
+  input?: RegExp;
+  output?: RegExp;
+  tag?: string;
+  source?: string;
+  artifactPrefix?: string;
+  set: Record<string, string>;
+}
+
+export interface RuleSet {
+  overwrite: boolean;
+  rules: CompiledRule[];
+}
+
+export interface RuleCount {
+  name: string;
+  /** Interactions whose dimensions the rule changed */
+  touched: number;
+}
+
+export interface DeriveSummary {
+  /** Interactions with at least one changed dimension */
+  changed: number;
+  /** Per rule, in rules-file order */
+  rules: RuleCount[];
+}
+
+export function getRulesPath(projectRoot?: string): string {
+  return join(getGoldensetDir(projectRoot), RULES_FILE);
+}
+
+function compileRegex(pattern: string, flags: string | undefined, where: string): RegExp {
+  try {
+    // Stateful flags would make test() depend on the previous interaction
+    return new RegExp(pattern, flags?.replace(/[gy]/g, ""));
+  } catch (err) {
+    throw new Error(`${where}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Validate a rules file and compile its regexes. Unnamed rules are called
+ * "rule <n>" (1-based).
+ */
+export function compileRules(file: RulesFile): RuleSet {
+  return {
+    overwrite: file.overwrite ?? false,
+    rules: file.rules.map((rule, i) => {
+      const name = rule.name ?? `rule ${i + 1}`;
+      const { when } = rule;
+      const regex = (pattern: string | undefined, field: string) =>
+        pattern !== undefined ? compileRegex(pattern, when.flags, `${name} ${field}`) : undefined;
+      return {
+        name,
+        input: regex(when.input, "input"),
+        output: regex(when.output, "output"),
+        tag: when.tag,
+        source: when.source,
+        artifactPrefix: when.artifactPrefix,
+        set: rule.set,
+      };
+    }),
+  };
+}
+
+/**
+ * Load, validate and compile a rules file
+ */
+export async function loadRules(path: string): Promise<RuleSet> {
+  const result = RulesFileSchema.safeParse(await readJson<unknown>(path));
+  if (!result.success) {
+    throw new Error(`Invalid rules file ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  try {
+    return compileRules(result.data);
+  } catch (err) {
+    throw new Error(`Invalid rules file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Load the project's rules, or null when there are none
+ */
+export async function loadProjectRules(projectRoot?: string): Promise<RuleSet | null> {
+  const path = getRulesPath(projectRoot);
+  return fileExists(path) ? loadRules(path) : null;
+}
+
+function matches(rule: CompiledRule, interaction: Interaction): boolean {
+  if (rule.input && !rule.input.test(interaction.input.text)) return false;
+  if (rule.output && !rule.output.test(interaction.output?.text ?? "")) return false;
+  if (rule.tag !== undefined && !interaction.tags?.includes(rule.tag)) return false;
+  if (rule.source !== undefined && interaction.source !== rule.source) return false;
+  if (rule.artifactPrefix !== undefined) {
+    const prefix = rule.artifactPrefix;
+    const cited = interaction.context?.retrieval?.items ?? [];
+    if (!cited.some((item) => item.artifactId?.startsWith(prefix))) return false;
+  }
+  return true;
+}
+
+/**
+ * Derive dimensions for one interaction. Rules apply in order and the
+ * first matching rule decides each key; existing dimensions are kept
+ * unless the rule set overwrites. Returns the new dimensions and the
+ * indices of the rules that changed something.
+ */
+export function deriveDimensions(
+  interaction: Interaction,
+  ruleSet: RuleSet
+): { dimensions: Record<string, string>; applied: number[] } {
+  const dimensions = { ...interaction.dimensions };
+  const decided = new Set(ruleSet.overwrite ? [] : Object.keys(dimensions));
+  const applied: number[] = [];
+
+  ruleSet.rules.forEach((rule, i) => {
+    if (!matches(rule, interaction)) return;
+
+    let changed = false;
+    for (const [key, value] of Object.entries(rule.set)) {
+      if (decided.has(key)) continue;
+      decided.add(key);
+      if (dimensions[key] !== value) {
+        dimensions[key] = value;
+        changed = true;
+      }
+    }
+    if (changed) applied.push(i);
+  });
+
+  return { dimensions, applied };
+}
+
+/**
+ * Apply a rule set to interactions. Returns every interaction (with derived
+ * dimensions), the ones that changed, and per-rule counts.
+ */
+export function applyRules(
+  interactions: Interaction[],
+  ruleSet: RuleSet
+): { items: Interaction[]; changed: Interaction[]; summary: DeriveSummary } {
+  const items: Interaction[] = [];
+  const changed: Interaction[] = [];
+  const summary: DeriveSummary = {
+    changed: 0,
+    rules: ruleSet.rules.map((rule) => ({ name: rule.name, touched: 0 })),
+  };
+
+  for (const interaction of interactions) {
+    const { dimensions, applied } = deriveDimensions(interaction, ruleSet);
+    if (applied.length === 0) {
+      items.push(interaction);
+      continue;
+    }
+
+    const updated = { ...interaction, dimensions };
+    items.push(updated);
+    changed.push(updated);
+    summary.changed++;
+    for (const i of applied) summary.rules[i].touched++;
+  }
+
+  return { items, changed, summary };
+}
+
+/**
+ * Format per-rule counts, one "name: touched" line each
+ */
+export function formatDeriveSummary(summary: DeriveSummary): string[] {
+  return summary.rules.map((rule) => `  ${rule.name}: ${rule.touched}`);
+}
@@ -0,0 +1,294 @@
+import { z } from "zod";
+import { join } from "path";
+import type { Interaction } from "../types.js";
+import { fileExists, getGoldensetDir, readJson } from "../../util/fs.js";
+import { formatIssues } from "../ingest/schemas.js";
+
+export const VOCABULARY_MODES = ["strict", "warn", "coerce-to-other"] as const;
+
+/**
+ * What ingest does with dimensions outside the vocabulary:
+ * - strict: reject the line
+ * - warn: keep the line and report the values
+ * - coerce-to-other: replace the value with "other" (rejecting the line
+ *   when the key has no "other" value)
+ */
+export type VocabularyMode = (typeof VOCABULARY_MODES)[number];
+
+// Value that coerce-to-other substitutes
+export const OTHER_VALUE = "other";
+
+// Project vocabulary file, inside .goldenset/
+export const VOCABULARY_FILE = "dimensions.json";
+
+// Same shape as the preset files under examples/*/dimensions.json
+export const DimensionVocabularySchema = z.object({
+  mode: z.enum(VOCABULARY_MODES).optional(),
+  keys: z.record(z.string(), z.array(z.string()).min(1)),
+});
+
+export type DimensionVocabulary = z.infer<typeof DimensionVocabularySchema>;
+
+export interface VocabularyViolation {
+  key: string;
+  allowed: string[];
+  value: string;
+}
+
+export interface OutOfVocabularyCount {
+  key: string;
+  value: string;
+  count: number;
+}
+
+export interface VocabularySummary {
+  /** Interactions left out for values that could not be coerced */
+  rejected: number;
+  /** Interactions with a value replaced by "other" */
+  coerced: number;
+  /** Every out-of-vocabulary value found, whatever became of it */
+  outOfVocabulary: OutOfVocabularyCount[];
+}
+
+export function getVocabularyPath(projectRoot?: string): string {
+  return join(getGoldensetDir(projectRoot), VOCABULARY_FILE);
+}
+
+/**
+ * Load and validate a vocabulary file
+ */
+export async function loadVocabulary(path: string): Promise<DimensionVocabulary> {
+  const result = DimensionVocabularySchema.safeParse(await readJson<unknown>(path));
+  if (!result.success) {
+    throw new Error(`Invalid vocabulary file ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the project's registered vocabulary, or null when there is none
+ */
+export async function loadProjectVocabulary(
+  projectRoot?: string
+): Promise<DimensionVocabulary | null> {
+  const path = getVocabularyPath(projectRoot);
+  return fileExists(path) ? loadVocabulary(path) : null;
+}
+
+export interface VocabularyCheck {
+  vocabulary: DimensionVocabulary;
+  mode: VocabularyMode;
+}
+
+/**
+ * The project's vocabulary and the mode to apply it in: `mode` when given
+ * (e.g. from --vocab-mode), else the file's mode, else strict. Null when
+ * no vocabulary is registered.
+ */
+export async function loadVocabularyCheck(
+  mode?: string,
+  projectRoot?: string
+): Promise<VocabularyCheck | null> {
+  if (mode && !(VOCABULARY_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid vocabulary mode: ${mode} (expected ${VOCABULARY_MODES.join(", ")})`);
+  }
+  const vocabulary = await loadProjectVocabulary(projectRoot);
+  if (!vocabulary) return null;
+  return { vocabulary, mode: (mode ?? vocabulary.mode ?? "strict") as VocabularyMode };
+}
+
+/**
+ * List the dimensions whose value is not in the vocabulary. Keys are an
+ * open set: adapters and rules add keys of their own (model, totalTokens),
+ * so only the keys the vocabulary lists are checked.
+ */
+export function findViolations(
+  dimensions: Record<string, string> | undefined,
+  vocabulary: DimensionVocabulary
+): VocabularyViolation[] {
+  const violations: VocabularyViolation[] = [];
+  for (const [key, value] of Object.entries(dimensions ?? {})) {
+    const allowed = vocabulary.keys[key] as string[] | undefined;
+    if (allowed && !allowed.includes(value)) {
+      violations.push({ key, value, allowed });
+    }
+  }
+  return violations;
+}
+
+function violationMessage(violation: VocabularyViolation): string {
+  return `"${violation.value}" is not in the vocabulary (expected one of ${violation.allowed.join(", ")})`;
+}
+
+/**
+ * Coerce what the mode allows in one interaction's dimensions. Returns the
+ * new dimensions and the violations that remain.
+ */
+function checkDimensions(
+  dimensions: Record<string, string> | undefined,
+  vocabulary: DimensionVocabulary,
+  mode: VocabularyMode
+): { dimensions: Record<string, string>; remaining: VocabularyViolation[]; coerced: boolean } {
+  const checked = { ...dimensions };
+  const remaining: VocabularyViolation[] = [];
+  let coerced = false;
+
+  for (const violation of findViolations(dimensions, vocabulary)) {
+    if (mode === "coerce-to-other" && violation.allowed.includes(OTHER_VALUE)) {
+      checked[violation.key] = OTHER_VALUE;
+      coerced = true;
+    } else if (mode !== "warn") {
+      remaining.push(violation);
+    }
+  }
+
+  return { dimensions: checked, remaining, coerced };
+}
+
+/**
+ * Wrap an interaction schema so out-of-vocabulary dimensions fail
+ * validation (strict) or are coerced to "other" (coerce-to-other).
+ * In warn mode the schema is returned unchanged; use findOutOfVocabulary
+ * on the parsed items instead.
+ */
+export function withVocabulary(
+  schema: z.ZodType<unknown>,
+  vocabulary: DimensionVocabulary,
+  mode: VocabularyMode
+): z.ZodType<Interaction> {
+  if (mode === "warn") {
+    return schema as z.ZodType<Interaction>;
+  }
+
+  return schema.transform((value, ctx) => {
+    const interaction = value as Interaction;
+    const { dimensions, remaining } = checkDimensions(interaction.dimensions, vocabulary, mode);
+
+    for (const violation of remaining) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["dimensions", violation.key],
+        message: violationMessage(violation),
+      });
+    }
+
+    return interaction.dimensions ? { ...interaction, dimensions } : interaction;
+  });
+}
+
+/**
+ * Apply the vocabulary to interactions that are about to be written, e.g.
+ * after dimensions were derived or enriched: strict leaves out the
+ * interactions with out-of-vocabulary values, coerce-to-other replaces
+ * what it can and leaves out the rest, and warn keeps them all.
+ */
+export function applyVocabulary(
+  interactions: Interaction[],
+  vocabulary: DimensionVocabulary,
+  mode: VocabularyMode
+): { items: Interaction[]; summary: VocabularySummary } {
+  const items: Interaction[] = [];
+  const summary: VocabularySummary = {
+    rejected: 0,
+    coerced: 0,
+    outOfVocabulary: findOutOfVocabulary(interactions, vocabulary),
+  };
+
+  for (const interaction of interactions) {
+    const { dimensions, remaining, coerced } = checkDimensions(interaction.dimensions, vocabulary, mode);
+    if (remaining.length > 0) {
+      summary.rejected++;
+      continue;
+    }
+    if (coerced) {
+      summary.coerced++;
+      items.push({ ...interaction, dimensions });
+    } else {
+      items.push(interaction);
+    }
+  }
+
+  return { items, summary };
+}
+
+/**
+ * Count out-of-vocabulary dimension values across interactions,
+ * most frequent first
+ */
+export function findOutOfVocabulary(
+  interactions: Interaction[],
+  vocabulary: DimensionVocabulary
+): OutOfVocabularyCount[] {
+  const counts = new Map<string, OutOfVocabularyCount>();
+
+  for (const interaction of interactions) {
+    for (const violation of findViolations(interaction.dimensions, vocabulary)) {
+      const id = `${violation.key}=${violation.value}`;
+      const entry = counts.get(id) ?? { key: violation.key, value: violation.value, count: 0 };
+      entry.count++;
+      counts.set(id, entry);
+    }
+  }
+
+  return sortCounts([...counts.values()]);
+}
+
+function sortCounts(counts: OutOfVocabularyCount[]): OutOfVocabularyCount[] {
+  return counts.sort(
+    (a, b) => b.count - a.count || a.key.localeCompare(b.key) || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * Combine out-of-vocabulary counts, e.g. from the chunks of a streamed file
+ */
+export function mergeOutOfVocabulary(
+  a: OutOfVocabularyCount[],
+  b: OutOfVocabularyCount[]
+): OutOfVocabularyCount[] {
+  const merged = new Map(a.map((c) => [`${c.key}=${c.value}`, { ...c }]));
+  for (const c of b) {
+    const entry = merged.get(`${c.key}=${c.value}`);
+    if (entry) {
+      entry.count += c.count;
+    } else {
+      merged.set(`${c.key}=${c.value}`, { ...c });
+    }
+  }
+  return sortCounts([...merged.values()]);
+}
+
+/**
+ * Combine vocabulary summaries, e.g. from the chunks of a streamed file
+ */
+export function mergeVocabularySummaries(a: VocabularySummary, b: VocabularySummary): VocabularySummary {
+  return {
+    rejected: a.rejected + b.rejected,
+    coerced: a.coerced + b.coerced,
+    outOfVocabulary: mergeOutOfVocabulary(a.outOfVocabulary, b.outOfVocabulary),
+  };
+}
+
+/**
+ * Format out-of-vocabulary counts, one "key=value: count" line each
+ */
+export function formatOutOfVocabulary(counts: OutOfVocabularyCount[]): string[] {
+  return counts.map((c) => `  ${c.key}=${c.value}: ${c.count}`);
+}
+
+/**
+ * Format a vocabulary summary for stderr; empty when every value was in
+ * the vocabulary
+ */
+export function formatVocabularySummary(summary: VocabularySummary): string[] {
+  if (summary.outOfVocabulary.length === 0) return [];
+
+  const lines = ["Warning: out-of-vocabulary dimension values:", ...formatOutOfVocabulary(summary.outOfVocabulary)];
+  if (summary.coerced > 0) {
+    lines.push(`Replaced values with "${OTHER_VALUE}" in ${summary.coerced} interactions`);
+  }
+  if (summary.rejected > 0) {
+    lines.push(`Left out ${summary.rejected} interactions with values outside the vocabulary`);
+  }
+  return lines;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runChecks, applyFixes } from "../checks.js";
+import type { CheckId, DoctorReport } from "../checks.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import { publishDataset } from "../../datasets/publish.js";
+import type { Interaction } from "../../types.js";
+
+describe("doctor checks", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let store: SQLiteStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-doctor-test-"));
+    dbPath = join(tempDir, "db.sqlite");
+    store = new SQLiteStore(dbPath);
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const interaction: Interaction = {
+    interactionId: "1",
+    timestamp: "2026-01-01T00:00:00Z",
+    input: { text: "q" },
+    context: { retrieval: { items: [{ artifactId: "doc:a" }, { artifactId: "doc:missing" }] } },
+  };
+
+  function check(report: DoctorReport, id: CheckId) {
+    return report.checks.find((c) => c.id === id)!;
+  }
+
+  it("reports nothing for a consistent project", async () => {
+    const report = await runChecks(store, tempDir);
+    expect(report.checks.every((c) => c.count === 0)).toBe(true);
+  });
+
+  it("finds each class of problem and fixes the safe ones", async () => {
+    store.upsertArtifact({ artifactId: "doc:a", type: "doc" });
+    store.upsertInteraction(interaction);
+
+    // Another client writing with foreign keys off can leave orphan labels
+    const raw = new Database(dbPath);
+    raw.pragma("foreign_keys = OFF");
+    raw
+      .prepare("INSERT INTO labels (interactionId, reviewedAt, reviewer, verdict) VALUES (?, ?, ?, ?)")
+      .run("gone", "2026-01-01T00:00:00Z", "a", "pass");
+    raw.close();
+
+    store.createDatasetVersion({
+      name: "golden/v1",
+      createdAt: "2026-01-01T00:00:00Z",
+      interactionIds: ["1", "gone"],
+      stats: { byDimension: {} },
+    });
+    await publishDataset({ name: "golden/v2", interactions: [interaction], labels: [], projectRoot: tempDir });
+    await mkdir(join(tempDir, "datasets", "scratch"), { recursive: true });
+
+    const report = await runChecks(store, tempDir);
+
+    expect(report.foreignKeys).toBe(true);
+    expect(check(report, "missing-artifacts")).toMatchObject({ count: 1, examples: ["doc:missing"], fixable: true });
+    expect(check(report, "orphan-labels")).toMatchObject({ count: 1, examples: ["gone"], fixable: false });
+    expect(check(report, "versions-missing-interactions").examples).toEqual([
+      "golden/v1 (1 missing, e.g. gone)",
+    ]);
+    expect(check(report, "versions-without-folder").examples).toEqual(["golden/v1"]);
+    expect(check(report, "folders-without-version")).toMatchObject({
+      examples: ["golden_v2", "scratch"],
+      fixable: true,
+    });
+    expect(check(report, "incomplete-folders").examples).toEqual([
+      "scratch (missing dataset.json, interactions.jsonl, labels.jsonl)",
+    ]);
+
+    const fixes = await applyFixes(store, report);
+    expect(fixes.stubsCreated).toBe(1);
+    expect(fixes.versionsRegistered).toEqual(["golden/v2"]);
+    expect(store.getArtifact("doc:missing")?.type).toBe("unknown");
+
+    const after = await runChecks(store, tempDir);
+    expect(check(after, "missing-artifacts").count).toBe(0);
+    expect(check(after, "folders-without-version")).toMatchObject({ examples: ["scratch"], fixable: false });
+    // Not safe to repair automatically
+    expect(check(after, "orphan-labels").count).toBe(1);
+  });
+});
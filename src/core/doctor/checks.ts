@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { existsSync } from "fs";
+import { readdir } from "fs/promises";
+import { join } from "path";
+import type { DatasetVersion, Interaction } from "../types.js";
+import { DEFAULT_BATCH_SIZE } from "../store/sqlite.js";
+import type { SQLiteStore } from "../store/sqlite.js";
+import { getDatasetsDir, readJson } from "../../util/fs.js";
+import { inBatches } from "../../util/batch.js";
+import { sanitizeVersionName } from "../datasets/helpers.js";
+import { ingestArtifactStubs } from "../ingest/apply.js";
+import { runIngestBatch } from "../ingest/batches.js";
+
+// Examples listed per problem
+export const MAX_EXAMPLES = 5;
+
+// Files every published version folder holds
+const DATASET_FILES = ["dataset.json", "interactions.jsonl", "labels.jsonl"];
+
+export type CheckId =
+  | "missing-artifacts"
+  | "orphan-labels"
+  | "versions-missing-interactions"
+  | "versions-without-folder"
+  | "folders-without-version"
+  | "incomplete-folders";
+
+export interface CheckResult {
+  id: CheckId;
+  description: string;
+  count: number;
+  examples: string[];
+  /** Whether `--fix` can repair this without losing data */
+  fixable: boolean;
+}
+
+export interface DoctorReport {
+  checks: CheckResult[];
+  /** Whether the connection enforces foreign keys (PRAGMA foreign_keys) */
+  foreignKeys: boolean;
+  /** Details the fixes need, gathered while checking */
+  missingArtifactIds: string[];
+  registrableFolders: DatasetVersion[];
+}
+
+export interface FixResult {
+  stubsCreated: number;
+  stubBatchId?: number;
+  versionsRegistered: string[];
+}
+
+// Published dataset.json, as written by publishDataset
+const DatasetJsonSchema = z.object({
+  name: z.string(),
+  createdAt: z.string(),
+  description: z.string().optional(),
+  interactionIds: z.array(z.string()),
+  stats: z.object({
+    byDimension: z.record(z.string(), z.record(z.string(), z.number())),
+    tagCounts: z.record(z.string(), z.number()).optional(),
+  }),
+});
+
+function result(
+  id: CheckId,
+  description: string,
+  items: string[],
+  fixable = false
+): CheckResult {
+  return { id, description, count: items.length, examples: items.slice(0, MAX_EXAMPLES), fixable };
+}
+
+/**
+ * Artifact ids cited anywhere in an interaction, including per-turn
+ * retrieval on messages
+ */
+function citedIds(interaction: Interaction): string[] {
+  const items = [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+  return items.flatMap((item) => (item.artifactId ? [item.artifactId] : []));
+}
+
+async function readDatasetJson(folder: string): Promise<DatasetVersion | null> {
+  try {
+    const parsed = DatasetJsonSchema.safeParse(await readJson<unknown>(join(folder, "dataset.json")));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that the store and the datasets directory line up. Read-only.
+ */
+export async function runChecks(store: SQLiteStore, projectRoot?: string): Promise<DoctorReport> {
+  const interactions = store.getAllInteractions();
+  const interactionIds = new Set(interactions.map((i) => i.interactionId));
+
+  // Retrieval items citing artifacts that were never ingested
+  const cited = [...new Set(interactions.flatMap(citedIds))].sort();
+  const known = new Set<string>();
+  for (const batch of inBatches(cited, DEFAULT_BATCH_SIZE)) {
+    for (const artifact of store.getArtifacts(batch)) known.add(artifact.artifactId);
+  }
+  const missingArtifactIds = cited.filter((id) => !known.has(id));
+
+  const orphanLabels = store.getOrphanLabelIds();
+
+  // Dataset versions against their folders
+  const versions = store
+    .listDatasetVersions()
+    .map((v) => store.getDatasetVersion(v.name))
+    .filter((v): v is DatasetVersion => v !== null);
+  const datasetsDir = getDatasetsDir(projectRoot);
+  const folders = existsSync(datasetsDir)
+    ? (await readdir(datasetsDir, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort()
+    : [];
+  const versionFolders = new Set(versions.map((v) => sanitizeVersionName(v.name)));
+
+  const versionsMissingInteractions = versions
+    .map((v) => ({ name: v.name, missing: v.interactionIds.filter((id) => !interactionIds.has(id)) }))
+    .filter((v) => v.missing.length > 0)
+    .map((v) => `${v.name} (${v.missing.length} missing, e.g. ${v.missing[0]})`);
+
+  const versionsWithoutFolder = versions
+    .filter((v) => !folders.includes(sanitizeVersionName(v.name)))
+    .map((v) => v.name);
+
+  const foldersWithoutVersion: string[] = [];
+  const registrableFolders: DatasetVersion[] = [];
+  for (const folder of folders.filter((f) => !versionFolders.has(f))) {
+    foldersWithoutVersion.push(folder);
+    const version = await readDatasetJson(join(datasetsDir, folder));
+    if (version && sanitizeVersionName(version.name) === folder) {
+      registrableFolders.push(version);
+    }
+  }
+
+  const incompleteFolders = folders
+    .map((folder) => ({
+      folder,
+      missing: DATASET_FILES.filter((file) => !existsSync(join(datasetsDir, folder, file))),
+    }))
+    .filter((f) => f.missing.length > 0)
+    .map((f) => `${f.folder} (missing ${f.missing.join(", ")})`);
+
+  return {
+    foreignKeys: store.foreignKeysEnforced(),
+    checks: [
+      result(
+        "missing-artifacts",
+        "artifact ids cited by retrieval items but never ingested",
+        missingArtifactIds,
+        true
+      ),
+      result("orphan-labels", "labels whose interaction is not in the store", orphanLabels),
+      result(
+        "versions-missing-interactions",
+        "dataset versions listing interactions that are not in the store",
+        versionsMissingInteractions
+      ),
+      result(
+        "versions-without-folder",
+        "dataset versions without a datasets/ folder",
+        versionsWithoutFolder
+      ),
+      result(
+        "folders-without-version",
+        "datasets/ folders without a dataset version in the store",
+        foldersWithoutVersion,
+        registrableFolders.length > 0
+      ),
+      result("incomplete-folders", "datasets/ folders missing published files", incompleteFolders),
+    ],
+    missingArtifactIds,
+    registrableFolders,
+  };
+}
+
+/**
+ * Apply the repairs that add data and never remove it: stub artifacts for
+ * missing artifact ids (as a `doctor` ingest batch, so they can be rolled
+ * back) and store rows for folders whose dataset.json is intact.
+ */
+export async function applyFixes(store: SQLiteStore, report: DoctorReport): Promise<FixResult> {
+  const fixes: FixResult = { stubsCreated: 0, versionsRegistered: [] };
+
+  if (report.missingArtifactIds.length > 0) {
+    const { batchId, summary } = await runIngestBatch(store, { kind: "doctor", errors: 0 }, (id) => {
+      const inserted = ingestArtifactStubs(store, report.missingArtifactIds, { batchId: id });
+      return { inserted, updated: [], unchanged: 0, conflicts: [] };
+    });
+    fixes.stubsCreated = summary.inserted;
+    fixes.stubBatchId = batchId;
+  }
+
+  for (const version of report.registrableFolders) {
+    store.createDatasetVersion(version);
+    fixes.versionsRegistered.push(version.name);
+  }
+
+  return fixes;
+}
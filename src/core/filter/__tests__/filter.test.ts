@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseFilter } from "../parse.js";
+import { planFilter } from "../sql.js";
+import { matchesFilter } from "../evaluate.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import { groupByInteraction } from "../../labels/resolve.js";
+import type { Interaction, Label } from "../../types.js";
+
+describe("parseFilter", () => {
+  it("gives and precedence over or, and treats commas as and", () => {
+    expect(parseFilter("a=1 or b=2 and c=3")).toEqual({
+      type: "or",
+      terms: [
+        { type: "compare", field: { name: "dimension", key: "a" }, op: "=", value: "1" },
+        {
+          type: "and",
+          terms: [
+            { type: "compare", field: { name: "dimension", key: "b" }, op: "=", value: "2" },
+            { type: "compare", field: { name: "dimension", key: "c" }, op: "=", value: "3" },
+          ],
+        },
+      ],
+    });
+    expect(parseFilter("intent=incident,department=eng")).toEqual(
+      parseFilter("intent=incident and department=eng")
+    );
+  });
+
+  it("desugars negative forms into not", () => {
+    expect(parseFilter("source!=slack")).toEqual({
+      type: "not",
+      term: { type: "compare", field: { name: "source" }, op: "=", value: "slack" },
+    });
+    expect(parseFilter("missing:intent")).toEqual({
+      type: "not",
+      term: { type: "exists", field: { name: "dimension", key: "intent" } },
+    });
+    expect(parseFilter("tag not in (a, 'b c')")).toEqual({
+      type: "not",
+      term: { type: "in", field: { name: "tag" }, values: ["a", "b c"] },
+    });
+  });
+
+  it("reports the position of syntax errors", () => {
+    expect(() => parseFilter("intent=")).toThrow("Invalid filter at position 8: expected a value");
+    expect(() => parseFilter("(a=1")).toThrow('expected ")"');
+    expect(() => parseFilter("verdict=fial")).toThrow("unknown verdict fial");
+    expect(() => parseFilter("input ~ /(/")).toThrow("Invalid filter at position 9");
+    expect(() => parseFilter("timestamp <")).toThrow("expected a value");
+    expect(() => parseFilter("tag<a")).toThrow("tags only support");
+  });
+});
+
+describe("filter evaluation", () => {
+  let tempDir: string;
+  let store: SQLiteStore;
+
+  const interactions: Interaction[] = [
+    {
+      interactionId: "1",
+      timestamp: "2026-01-05T10:00:00Z",
+      input: { text: "Refund for order 7" },
+      output: { text: "Done" },
+      dimensions: { intent: "billing", department: "support" },
+      tags: ["vip", "escalated"],
+      source: "slack",
+    },
+    {
+      interactionId: "2",
+      timestamp: "2026-02-01T00:00:00Z",
+      input: { text: "How do I page oncall?" },
+      dimensions: { intent: "incident", source: "sre" },
+      source: "web",
+    },
+    {
+      interactionId: "3",
+      timestamp: "2025-12-31T23:59:59Z",
+      input: { text: "refund policy?" },
+      output: { text: "See the policy" },
+      dimensions: { intent: "billing" },
+      tags: ["internal"],
+    },
+  ];
+
+  const labels: Label[] = [
+    { interactionId: "1", reviewedAt: "2026-01-06T00:00:00Z", reviewer: "ana", verdict: "fail" },
+    { interactionId: "3", reviewedAt: "2026-01-06T00:00:00Z", reviewer: "bo", verdict: "pass" },
+    // A fail later relabeled pass
+    { interactionId: "2", reviewedAt: "2026-02-02T00:00:00Z", reviewer: "ana", verdict: "fail" },
+    { interactionId: "2", reviewedAt: "2026-02-03T00:00:00.000Z", reviewer: "ana", verdict: "pass" },
+  ];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-filter-test-"));
+    store = new SQLiteStore(join(tempDir, "db.sqlite"));
+    store.upsertInteractions(interactions);
+    store.upsertLabels(labels);
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const cases: Array<[string, string[]]> = [
+    ["intent=billing", ["1", "3"]],
+    ["intent!=billing", ["2"]],
+    ["department!=support", ["2", "3"]],
+    ["intent in (incident, other)", ["2"]],
+    ["exists:department or missing:intent", ["1"]],
+    ["tag=vip", ["1"]],
+    ["not tag=vip", ["2", "3"]],
+    ["tag in (internal, escalated)", ["1", "3"]],
+    ["has:tags", ["1", "3"]],
+    ["source=slack or source=web", ["1", "2"]],
+    ["not has:source", ["3"]],
+    ["timestamp>=2026-01-01 and timestamp<2026-02-01", ["1"]],
+    ["has:output and not has:label", []],
+    ["has:label", ["1", "2", "3"]],
+    ["verdict=fail", ["1"]],
+    ["verdict!=fail", ["2", "3"]],
+    ["verdict=pass", ["2", "3"]],
+    ["reviewer in (bo)", ["3"]],
+    ["reviewer=ana and not verdict=pass", ["1"]],
+    ["input ~ /refund/i", ["1", "3"]],
+    ["input ~ refund or verdict=fail", ["1", "3"]],
+    ["intent=billing and input ~ /^Refund/ and tag=vip", ["1"]],
+    ["not (intent=billing and has:output)", ["2"]],
+    ["dimensions.source=sre", ["2"]],
+    ["id in (1, 2) and not (id=2)", ["1"]],
+  ];
+
+  it.each(cases)("%s", (text, expected) => {
+    const filter = parseFilter(text);
+    const ids = store.findInteractions(filter).map((i) => i.interactionId).sort();
+    expect(ids).toEqual(expected);
+
+    // The in-memory evaluator agrees with SQL
+    const labelsById = groupByInteraction(labels);
+    const inMemory = interactions
+      .filter((i) => matchesFilter(filter, i, labelsById.get(i.interactionId)))
+      .map((i) => i.interactionId);
+    expect(inMemory).toEqual(expected);
+  });
+
+  it("runs only regex matches in memory, and binds every value", () => {
+    const plan = planFilter(parseFilter(String.raw`intent='x\' OR 1=1 --' and input ~ refund`));
+
+    expect(plan.sql?.params).toEqual(['$."intent"', "x' OR 1=1 --"]);
+    expect(plan.sql?.where).not.toContain("OR 1=1");
+    expect(plan.residual).toMatchObject({ type: "match", pattern: "refund" });
+  });
+});
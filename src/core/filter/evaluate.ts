@@ -0,0 +1,125 @@
+import type { Interaction, Label } from "../types.js";
+import type { FilterExpr, FilterField } from "./parse.js";
+import { latestPerReviewer } from "../labels/resolve.js";
+
+// Compiled once per match node rather than once per interaction
+const regexes = new WeakMap<FilterExpr, RegExp>();
+
+function compiledRegex(expr: Extract<FilterExpr, { type: "match" }>): RegExp {
+  let regex = regexes.get(expr);
+  if (!regex) {
+    // Stateful flags would make test() depend on earlier calls
+    regex = new RegExp(expr.pattern, expr.flags.replace(/[gy]/g, ""));
+    regexes.set(expr, regex);
+  }
+  return regex;
+}
+
+/**
+ * Whether an interaction (with its labels) matches a filter. Mirrors the
+ * SQL from compileFilter, so a filter selects the same interactions
+ * whichever way it runs.
+ */
+export function matchesFilter(
+  expr: FilterExpr,
+  interaction: Interaction,
+  labels: Label[] = []
+): boolean {
+  switch (expr.type) {
+    case "and":
+      return expr.terms.every((t) => matchesFilter(t, interaction, labels));
+    case "or":
+      return expr.terms.some((t) => matchesFilter(t, interaction, labels));
+    case "not":
+      return !matchesFilter(expr.term, interaction, labels);
+
+    case "compare":
+      return values(expr.field, interaction, labels).some((value) => {
+        switch (expr.op) {
+          case "=":
+            return value === expr.value;
+          case "<":
+            return value < expr.value;
+          case "<=":
+            return value <= expr.value;
+          case ">":
+            return value > expr.value;
+          case ">=":
+            return value >= expr.value;
+        }
+      });
+
+    case "in":
+      return values(expr.field, interaction, labels).some((value) => expr.values.includes(value));
+
+    case "match": {
+      const regex = compiledRegex(expr);
+      return values(expr.field, interaction, labels).some((value) => regex.test(value));
+    }
+
+    case "exists":
+      return exists(expr.field, interaction, labels);
+  }
+}
+
+/**
+ * Whether evaluating a filter needs the interaction's labels
+ */
+export function usesLabels(expr: FilterExpr): boolean {
+  switch (expr.type) {
+    case "and":
+    case "or":
+      return expr.terms.some(usesLabels);
+    case "not":
+      return usesLabels(expr.term);
+    default:
+      return ["verdict", "reviewer", "label"].includes(expr.field.name);
+  }
+}
+
+// The values a field holds; a condition holds if any of them satisfies it
+function values(field: FilterField, interaction: Interaction, labels: Label[]): string[] {
+  const value = (v: string | undefined) => (v === undefined ? [] : [v]);
+
+  switch (field.name) {
+    case "dimension":
+      return value(interaction.dimensions?.[field.key]);
+    case "id":
+      return [interaction.interactionId];
+    case "input":
+      return [interaction.input.text];
+    case "output":
+      return value(interaction.output?.text);
+    case "source":
+      return value(interaction.source || undefined);
+    case "timestamp":
+      return [interaction.timestamp];
+    case "tag":
+      return interaction.tags ?? [];
+    // Only each reviewer's most recent label, not the reviews it replaced
+    case "verdict":
+      return latestPerReviewer(labels).map((l) => l.verdict);
+    case "reviewer":
+      return latestPerReviewer(labels).map((l) => l.reviewer);
+    case "label":
+    case "messages":
+      return [];
+  }
+}
+
+function exists(field: FilterField, interaction: Interaction, labels: Label[]): boolean {
+  switch (field.name) {
+    case "label":
+    case "verdict":
+    case "reviewer":
+      return labels.length > 0;
+    case "tag":
+      return (interaction.tags ?? []).length > 0;
+    case "output":
+      return interaction.output !== undefined;
+    case "messages":
+      return interaction.messages !== undefined;
+    default:
+      return values(field, interaction, labels).length > 0;
+  }
+}
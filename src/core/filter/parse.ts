@@ -0,0 +1,309 @@
+/**
+ * Filter expressions over interactions, as taken by `--where`:
+ *
+ *   intent=incident and (department=eng or department=sre)
+ *   tag in (escalated, vip) and not has:label
+ *   timestamp>=2026-01-01 and timestamp<2026-02-01
+ *   input ~ /refund/i and verdict=fail
+ *
+ * Bare names are dimension keys (`dimensions.<key>` also works, for keys
+ * that clash with the reserved fields below). A comma is the same as `and`,
+ * so the old `key=value,key=value` form still works.
+ */
+
+export const FIELD_NAMES = [
+  "source",
+  "timestamp",
+  "id",
+  "input",
+  "output",
+  "tag",
+  "verdict",
+  "reviewer",
+  "label",
+  "messages",
+] as const;
+
+export type FieldName = (typeof FIELD_NAMES)[number];
+
+export type FilterField = { name: "dimension"; key: string } | { name: FieldName };
+
+export type CompareOp = "=" | "<" | "<=" | ">" | ">=";
+
+export type FilterExpr =
+  | { type: "and"; terms: FilterExpr[] }
+  | { type: "or"; terms: FilterExpr[] }
+  | { type: "not"; term: FilterExpr }
+  | { type: "compare"; field: FilterField; op: CompareOp; value: string }
+  | { type: "in"; field: FilterField; values: string[] }
+  | { type: "match"; field: FilterField; pattern: string; flags: string }
+  | { type: "exists"; field: FilterField };
+
+// Alternative spellings of reserved fields
+const FIELD_ALIASES: Record<string, FieldName> = {
+  interactionId: "id",
+  tags: "tag",
+};
+
+// Fields that can only be tested with has:/exists:/missing:
+const PRESENCE_ONLY = new Set<string>(["label", "messages"]);
+
+const VERDICTS = ["pass", "fail", "needs_clarification"];
+
+type Token =
+  | { kind: "word"; text: string; pos: number }
+  | { kind: "string"; text: string; pos: number }
+  | { kind: "regex"; text: string; flags: string; pos: number }
+  | { kind: "op"; text: "=" | "!=" | "<" | "<=" | ">" | ">=" | "~"; pos: number }
+  | { kind: "("; pos: number }
+  | { kind: ")"; pos: number }
+  | { kind: ","; pos: number };
+
+function syntaxError(message: string, pos: number): Error {
+  return new Error(`Invalid filter at position ${pos + 1}: ${message}`);
+}
+
+// Characters that end a bare word
+const WORD_BREAK = /[\s()=!<>~,"']/;
+
+function isMatchOp(token: Token | undefined): boolean {
+  return token?.kind === "op" && token.text === "~";
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(" || c === ")" || c === ",") {
+      tokens.push({ kind: c, pos: i });
+      i++;
+    } else if (c === '"' || c === "'") {
+      // Quoted string; backslash escapes the next character
+      const start = i;
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== c) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        text += input[i];
+        i++;
+      }
+      if (i >= input.length) throw syntaxError("unterminated string", start);
+      i++;
+      tokens.push({ kind: "string", text, pos: start });
+    } else if (c === "/" && isMatchOp(tokens[tokens.length - 1])) {
+      // /pattern/flags, only as the value of ~
+      const start = i;
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== "/") {
+        if (input[i] === "\\" && input[i + 1] === "/") i++;
+        text += input[i];
+        i++;
+      }
+      if (i >= input.length) throw syntaxError("unterminated regex", start);
+      i++;
+      let flags = "";
+      while (i < input.length && /[a-z]/i.test(input[i])) flags += input[i++];
+      tokens.push({ kind: "regex", text, flags, pos: start });
+    } else if ("=!<>~".includes(c)) {
+      const two = input.slice(i, i + 2);
+      if (two === "!=" || two === "<=" || two === ">=") {
+        tokens.push({ kind: "op", text: two, pos: i });
+        i += 2;
+      } else if (c === "!") {
+        throw syntaxError('expected "!="', i);
+      } else {
+        tokens.push({ kind: "op", text: c as "=" | "<" | ">" | "~", pos: i });
+        i++;
+      }
+    } else {
+      const start = i;
+      while (i < input.length && !WORD_BREAK.test(input[i])) i++;
+      tokens.push({ kind: "word", text: input.slice(start, i), pos: start });
+    }
+  }
+
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === "word" && token.text.toLowerCase() === keyword;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly length: number
+  ) {}
+
+  parse(): FilterExpr {
+    const expr = this.parseOr();
+    const next = this.peek();
+    if (next) throw syntaxError("unexpected input", next.pos);
+    return expr;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(what: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw syntaxError(`expected ${what}`, this.length);
+    return token;
+  }
+
+  private parseOr(): FilterExpr {
+    const terms = [this.parseAnd()];
+    while (isKeyword(this.peek(), "or")) {
+      this.index++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : { type: "or", terms };
+  }
+
+  private parseAnd(): FilterExpr {
+    const terms = [this.parseUnary()];
+    while (isKeyword(this.peek(), "and") || this.peek()?.kind === ",") {
+      this.index++;
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : { type: "and", terms };
+  }
+
+  private parseUnary(): FilterExpr {
+    const token = this.next("a condition");
+
+    if (isKeyword(token, "not")) {
+      return { type: "not", term: this.parseUnary() };
+    }
+    if (token.kind === "(") {
+      const expr = this.parseOr();
+      const close = this.next('")"');
+      if (close.kind !== ")") throw syntaxError('expected ")"', close.pos);
+      return expr;
+    }
+    if (token.kind !== "word") {
+      throw syntaxError("expected a field name", token.pos);
+    }
+    return this.parseCondition(token.text, token.pos);
+  }
+
+  private parseCondition(word: string, pos: number): FilterExpr {
+    // has:output, exists:intent, missing:intent
+    const presence = /^(has|exists|missing):(.+)$/.exec(word);
+    if (presence) {
+      const field = parseField(presence[2], pos);
+      const exists: FilterExpr = { type: "exists", field };
+      return presence[1] === "missing" ? { type: "not", term: exists } : exists;
+    }
+
+    const field = parseField(word, pos);
+    if (PRESENCE_ONLY.has(field.name)) {
+      throw syntaxError(`${field.name} can only be tested with has:${field.name}`, pos);
+    }
+
+    const token = this.next("an operator");
+
+    if (isKeyword(token, "in")) {
+      return { type: "in", field, values: this.parseList() };
+    }
+    if (isKeyword(token, "not")) {
+      const inToken = this.next('"in"');
+      if (!isKeyword(inToken, "in")) throw syntaxError('expected "in"', inToken.pos);
+      return { type: "not", term: { type: "in", field, values: this.parseList() } };
+    }
+    if (token.kind !== "op") {
+      throw syntaxError("expected an operator (=, !=, <, <=, >, >=, ~, in)", token.pos);
+    }
+
+    const valueToken = this.next("a value");
+    if (token.text === "~") {
+      if (valueToken.kind !== "regex" && valueToken.kind !== "string" && valueToken.kind !== "word") {
+        throw syntaxError("expected a regex", valueToken.pos);
+      }
+      const flags = valueToken.kind === "regex" ? valueToken.flags : "";
+      try {
+        new RegExp(valueToken.text, flags);
+      } catch (err) {
+        throw syntaxError(err instanceof Error ? err.message : String(err), valueToken.pos);
+      }
+      return { type: "match", field, pattern: valueToken.text, flags };
+    }
+
+    const value = this.value(valueToken);
+    checkValue(field, value, valueToken.pos);
+
+    if (token.text === "!=") {
+      return { type: "not", term: { type: "compare", field, op: "=", value } };
+    }
+    if (token.text !== "=" && field.name === "tag") {
+      throw syntaxError("tags only support =, !=, in and ~", token.pos);
+    }
+    return { type: "compare", field, op: token.text, value };
+  }
+
+  private parseList(): string[] {
+    const open = this.next('"("');
+    if (open.kind !== "(") throw syntaxError('expected "("', open.pos);
+
+    const values: string[] = [];
+    for (;;) {
+      values.push(this.value(this.next("a value")));
+      const token = this.next('"," or ")"');
+      if (token.kind === ")") return values;
+      if (token.kind !== ",") throw syntaxError('expected "," or ")"', token.pos);
+    }
+  }
+
+  private value(token: Token): string {
+    if (token.kind !== "word" && token.kind !== "string") {
+      throw syntaxError("expected a value", token.pos);
+    }
+    return token.text;
+  }
+}
+
+function isFieldName(name: string): name is FieldName {
+  return (FIELD_NAMES as readonly string[]).includes(name);
+}
+
+function parseField(name: string, pos: number): FilterField {
+  const dimension = /^(?:dimensions|dim)\.(.+)$/.exec(name);
+  if (dimension) {
+    return { name: "dimension", key: checkKey(dimension[1], pos) };
+  }
+  const field = FIELD_ALIASES[name] ?? name;
+  if (isFieldName(field)) {
+    return { name: field };
+  }
+  return { name: "dimension", key: checkKey(name, pos) };
+}
+
+function checkKey(key: string, pos: number): string {
+  // Dimension keys end up in a JSON path, where `"` cannot be escaped
+  if (key.includes('"')) throw syntaxError(`invalid dimension key ${key}`, pos);
+  return key;
+}
+
+function checkValue(field: FilterField, value: string, pos: number): void {
+  if (field.name === "verdict" && !VERDICTS.includes(value)) {
+    throw syntaxError(`unknown verdict ${value} (expected ${VERDICTS.join(", ")})`, pos);
+  }
+}
+
+/**
+ * Parse a filter expression. Throws with the position of the first error.
+ */
+export function parseFilter(input: string): FilterExpr {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw syntaxError("empty filter", 0);
+  return new Parser(tokens, input.length).parse();
+}
@@ -0,0 +1,162 @@
+import type { FilterExpr, FilterField } from "./parse.js";
+
+export interface SqlFilter {
+  /** Condition over the `interactions` table, with `?` placeholders */
+  where: string;
+  params: string[];
+}
+
+export interface FilterPlan {
+  /** The part SQLite can evaluate */
+  sql?: SqlFilter;
+  /** The rest, evaluated in memory on the rows `sql` selects */
+  residual?: FilterExpr;
+}
+
+// Labels of the interaction being filtered
+const LABEL_EXISTS = "EXISTS (SELECT 1 FROM labels l WHERE l.interactionId = interactions.interactionId";
+
+// Each reviewer's most recent label of the interaction being filtered, as
+// latestPerReviewer picks it; earlier reviews they replaced do not count
+const LATEST_LABEL_EXISTS =
+  `${LABEL_EXISTS} AND NOT EXISTS (SELECT 1 FROM labels newer WHERE newer.interactionId = l.interactionId` +
+  " AND newer.reviewer = l.reviewer AND julianday(newer.reviewedAt) > julianday(l.reviewedAt))";
+
+/**
+ * Whether SQLite can evaluate an expression. Regex matches cannot.
+ */
+export function isSqlCompatible(expr: FilterExpr): boolean {
+  switch (expr.type) {
+    case "and":
+    case "or":
+      return expr.terms.every(isSqlCompatible);
+    case "not":
+      return isSqlCompatible(expr.term);
+    case "match":
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Split a filter into SQL and in-memory parts. Top-level `and` terms are
+ * split individually; any other expression goes wholly to one side.
+ */
+export function planFilter(expr: FilterExpr): FilterPlan {
+  const terms = expr.type === "and" ? expr.terms : [expr];
+  const sqlTerms = terms.filter(isSqlCompatible);
+  const residualTerms = terms.filter((term) => !isSqlCompatible(term));
+
+  const combine = (parts: FilterExpr[]): FilterExpr | undefined =>
+    parts.length === 0 ? undefined : parts.length === 1 ? parts[0] : { type: "and", terms: parts };
+
+  const sqlExpr = combine(sqlTerms);
+  return {
+    sql: sqlExpr ? compileFilter(sqlExpr) : undefined,
+    residual: combine(residualTerms),
+  };
+}
+
+/**
+ * Compile a SQL-compatible filter. Every value, and every dimension key,
+ * is bound as a parameter.
+ */
+export function compileFilter(expr: FilterExpr): SqlFilter {
+  const params: string[] = [];
+  const where = compile(expr, params);
+  return { where, params };
+}
+
+function compile(expr: FilterExpr, params: string[]): string {
+  switch (expr.type) {
+    case "and":
+    case "or":
+      return `(${expr.terms.map((t) => compile(t, params)).join(` ${expr.type.toUpperCase()} `)})`;
+
+    case "not":
+      return `NOT ${compile(expr.term, params)}`;
+
+    case "compare":
+      return predicate(expr.field, params, (column) => {
+        params.push(expr.value);
+        return `${column} ${expr.op} ?`;
+      });
+
+    case "in":
+      return predicate(expr.field, params, (column) => {
+        params.push(...expr.values);
+        return `${column} IN (${expr.values.map(() => "?").join(", ")})`;
+      });
+
+    case "exists":
+      return exists(expr.field, params);
+
+    case "match":
+      throw new Error("Regex matches cannot be compiled to SQL");
+  }
+}
+
+/**
+ * A condition on a field, never NULL so that NOT behaves. Label fields
+ * hold when any reviewer's most recent label satisfies the condition, and
+ * tags when any tag does.
+ */
+function predicate(
+  field: FilterField,
+  params: string[],
+  condition: (column: string) => string
+): string {
+  switch (field.name) {
+    case "tag":
+      return `EXISTS (SELECT 1 FROM json_each(interactions.tags) WHERE ${condition("value")})`;
+    case "verdict":
+    case "reviewer":
+      return `${LATEST_LABEL_EXISTS} AND ${condition(`l.${field.name}`)})`;
+    default: {
+      const column = columnFor(field, params);
+      return `IFNULL(${condition(column)}, 0)`;
+    }
+  }
+}
+
+function columnFor(field: FilterField, params: string[]): string {
+  switch (field.name) {
+    case "dimension":
+      params.push(`$."${field.key}"`);
+      return "json_extract(interactions.dimensions, ?)";
+    case "id":
+      return "interactions.interactionId";
+    case "input":
+      return "json_extract(interactions.input, '$.text')";
+    case "output":
+      return "json_extract(interactions.output, '$.text')";
+    case "source":
+    case "timestamp":
+      return `interactions.${field.name}`;
+    default:
+      throw new Error(`Cannot compare ${field.name}`);
+  }
+}
+
+function exists(field: FilterField, params: string[]): string {
+  switch (field.name) {
+    case "dimension":
+      params.push(`$."${field.key}"`);
+      return "(json_extract(interactions.dimensions, ?) IS NOT NULL)";
+    case "label":
+    case "verdict":
+    case "reviewer":
+      return `${LABEL_EXISTS})`;
+    case "tag":
+      return "(IFNULL(json_array_length(interactions.tags), 0) > 0)";
+    case "output":
+    case "messages":
+    case "source":
+      return `(interactions.${field.name} IS NOT NULL)`;
+    case "id":
+    case "input":
+    case "timestamp":
+      return "1";
+  }
+}
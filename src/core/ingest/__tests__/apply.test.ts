@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  ingestInteractions,
+  ingestArtifacts,
+  ingestArtifactStubs,
+  ingestLabels,
+  diffFields,
+  parseLabelStrategy,
+} from "../apply.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import type { Interaction, Label } from "../../types.js";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+describe("ingest apply", () => {
+  let tempDir: string;
+  let store: SQLiteStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-apply-test-"));
+    store = new SQLiteStore(join(tempDir, "db.sqlite"));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const base: Interaction = {
+    interactionId: "1",
+    timestamp: "2026-01-01T00:00:00Z",
+    input: { text: "a" },
+    dimensions: { intent: "policy", department: "eng" },
+  };
+
+  it("inserts new records and separates identical from changed existing ones", () => {
+    ingestInteractions(store, [base, { ...base, interactionId: "2" }]);
+
+    const summary = ingestInteractions(store, [
+      base,
+      { ...base, interactionId: "2", dimensions: { intent: "howto", department: "eng" }, tags: ["x"] },
+      { ...base, interactionId: "3" },
+    ]);
+
+    expect(summary.inserted).toBe(1);
+    expect(summary.unchanged).toBe(1);
+    expect(summary.updated).toEqual([]);
+    expect(summary.conflicts).toEqual([{ id: "2", fields: ["dimensions.intent", "tags"] }]);
+    // Insert-only: the edited dimensions are kept
+    expect(store.getInteraction("2")?.dimensions?.intent).toBe("policy");
+  });
+
+  it("overwrites changed records with upsert", () => {
+    ingestInteractions(store, [base]);
+
+    const summary = ingestInteractions(
+      store,
+      [{ ...base, output: { text: "b" } }],
+      { upsert: true }
+    );
+
+    expect(summary.updated).toEqual([{ id: "1", fields: ["output"] }]);
+    expect(summary.conflicts).toEqual([]);
+    expect(store.getInteraction("1")?.output?.text).toBe("b");
+  });
+
+  it("treats artifacts the same way", () => {
+    ingestArtifacts(store, [{ artifactId: "doc:a", type: "doc", meta: { owner: "sre" } }]);
+
+    const summary = ingestArtifacts(store, [
+      { artifactId: "doc:a", type: "doc", meta: { owner: "ops" } },
+    ]);
+
+    expect(summary.conflicts).toEqual([{ id: "doc:a", fields: ["meta.owner"] }]);
+  });
+
+  it("replaces artifact stubs with the real artifact as an insert", () => {
+    expect(ingestArtifactStubs(store, ["d1", "d2"])).toBe(2);
+    ingestArtifacts(store, [{ artifactId: "d2", type: "unknown", title: "Known now" }]);
+
+    const summary = ingestArtifacts(store, [
+      { artifactId: "d1", type: "doc", title: "Runbook", uri: "https://kb.example.com/d1" },
+      { artifactId: "d2", type: "doc" },
+    ]);
+
+    expect(summary.inserted).toBe(1);
+    expect(summary.conflicts).toEqual([{ id: "d2", fields: ["type", "title"] }]);
+    expect(store.getArtifact("d1")).toMatchObject({ type: "doc", title: "Runbook" });
+    // A stub never replaces the real artifact
+    expect(ingestArtifactStubs(store, ["d1"])).toBe(0);
+  });
+
+  it("ignores key order and empty strings when comparing", () => {
+    const fields = diffFields(
+      { interactionId: "1", timestamp: "t", input: { text: "a" }, source: "" } as Interaction,
+      { interactionId: "1", timestamp: "t", input: { text: "a" } } as Interaction,
+      ["input", "source"]
+    );
+    expect(fields).toEqual([]);
+  });
+
+  describe("labels", () => {
+    const label: Label = {
+      interactionId: "1",
+      reviewedAt: "2026-01-02T00:00:00Z",
+      reviewer: "alice",
+      verdict: "pass",
+    };
+    const older: Label = { ...label, reviewedAt: "2026-01-01T00:00:00Z", verdict: "fail" };
+    const newer: Label = { ...label, reviewedAt: "2026-01-03T00:00:00Z", verdict: "fail" };
+
+    beforeEach(() => {
+      ingestInteractions(store, [base]);
+    });
+
+    it("rejects labels for unknown interactions", () => {
+      const summary = ingestLabels(store, [label, { ...label, interactionId: "missing" }]);
+
+      expect(summary.inserted).toBe(1);
+      expect(summary.unknownInteractions).toEqual(["missing"]);
+      expect(store.getLatestLabel("missing")).toBeNull();
+    });
+
+    it("keeps every review alongside the earlier ones", () => {
+      ingestLabels(store, [label]);
+
+      const summary = ingestLabels(store, [older, newer, { ...label, reviewer: "bob" }]);
+      expect(summary.inserted).toBe(3);
+      expect(store.getLabels(["1"])).toHaveLength(4);
+      expect(store.getLatestLabel("1")).toEqual(newer);
+      expect(store.getLabelsByReviewer("1").map((l) => [l.reviewer, l.reviewedAt])).toEqual([
+        ["alice", newer.reviewedAt],
+        ["bob", label.reviewedAt],
+      ]);
+    });
+
+    it("supports keep-existing and overwrite for labels with the same key", () => {
+      ingestLabels(store, [label]);
+      const edited: Label = { ...label, verdict: "fail", notes: "missed a step" };
+
+      const kept = ingestLabels(store, [edited], { strategy: "keep-existing" });
+      expect(kept.conflicts).toEqual([
+        { id: "1 (alice, 2026-01-02T00:00:00Z)", fields: ["verdict", "notes"] },
+      ]);
+      expect(store.getLatestLabel("1")?.verdict).toBe("pass");
+
+      const replaced = ingestLabels(store, [edited], { strategy: "overwrite" });
+      expect(replaced.updated).toHaveLength(1);
+      expect(store.getLabels(["1"])).toEqual([edited]);
+      expect(store.getLabelHistory("1").map((h) => [h.action, h.label.verdict])).toEqual([
+        ["insert", "pass"],
+        ["update", "fail"],
+      ]);
+    });
+
+    it("accepts newest as an alias of keep-existing", () => {
+      expect(parseLabelStrategy("overwrite")).toBe("overwrite");
+      expect(parseLabelStrategy("newest")).toBe("keep-existing");
+      expect(() => parseLabelStrategy("latest")).toThrow("Invalid strategy: latest");
+      // Only the listed aliases, not inherited object keys
+      expect(() => parseLabelStrategy("constructor")).toThrow("Invalid strategy: constructor");
+      expect(() => parseLabelStrategy("__proto__")).toThrow("Invalid strategy: __proto__");
+    });
+  });
+});
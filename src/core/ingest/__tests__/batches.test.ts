@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { runIngestBatch, rollbackBatch, streamIngestBatch } from "../batches.js";
+import { ingestInteractions, ingestLabels } from "../apply.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import type { Interaction } from "../../types.js";
+import type { ParsedRecord } from "../jsonl.js";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+describe("ingest batches", () => {
+  let tempDir: string;
+  let sourcePath: string;
+  let store: SQLiteStore;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-batches-test-"));
+    sourcePath = join(tempDir, "input.jsonl");
+    await writeFile(sourcePath, "{}\n", "utf-8");
+    store = new SQLiteStore(join(tempDir, "db.sqlite"));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const base: Interaction = {
+    interactionId: "1",
+    timestamp: "2026-01-01T00:00:00Z",
+    input: { text: "a" },
+    dimensions: { intent: "policy" },
+  };
+
+  async function ingest(items: Interaction[], upsert = false): Promise<number> {
+    const { batchId } = await runIngestBatch(
+      store,
+      { kind: "interactions", filePath: sourcePath, errors: 2 },
+      (id) => ingestInteractions(store, items, { upsert, batchId: id })
+    );
+    return batchId;
+  }
+
+  it("records provenance and counts for each run", async () => {
+    const batchId = await ingest([base, { ...base, interactionId: "2" }]);
+
+    const batch = store.getIngestBatch(batchId);
+    expect(batch).toMatchObject({
+      kind: "interactions",
+      sourcePath,
+      inserted: 2,
+      updated: 0,
+      skipped: 0,
+      errors: 2,
+    });
+    expect(batch?.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(store.getIngestBatchRows(batchId).map((r) => r.entityId).sort()).toEqual(["1", "2"]);
+  });
+
+  it("rolls back inserts and restores updated rows", async () => {
+    await ingest([base]);
+    const second = await ingest(
+      [{ ...base, dimensions: { intent: "howto" } }, { ...base, interactionId: "2" }],
+      true
+    );
+
+    const result = rollbackBatch(store, second);
+
+    expect(result).toEqual({ restored: 1, deleted: 1 });
+    expect(store.getInteraction("1")?.dimensions?.intent).toBe("policy");
+    expect(store.getInteraction("2")).toBeNull();
+    expect(store.getIngestBatch(second)?.rolledBackAt).toBeDefined();
+    expect(() => rollbackBatch(store, second)).toThrow("already rolled back");
+  });
+
+  it("refuses to roll back under later batches unless forced", async () => {
+    const first = await ingest([base]);
+    await runIngestBatch(
+      store,
+      { kind: "labels", filePath: sourcePath, errors: 0 },
+      (id) =>
+        ingestLabels(
+          store,
+          [{ interactionId: "1", reviewedAt: "2026-01-02T00:00:00Z", reviewer: "a", verdict: "pass" }],
+          { batchId: id }
+        )
+    );
+    await ingest([{ ...base, output: { text: "b" } }], true);
+
+    expect(() => rollbackBatch(store, first)).toThrow("Later batches wrote the same rows: #3");
+
+    const result = rollbackBatch(store, first, { force: true });
+    expect(result.deleted).toBe(2); // The interaction and its label
+    expect(store.getInteraction("1")).toBeNull();
+    expect(store.getLatestLabel("1")).toBeNull();
+  });
+
+  it("refuses to delete an interaction labeled since", async () => {
+    const first = await ingest([base]);
+    store.upsertLabel({ interactionId: "1", reviewedAt: "2026-01-02T00:00:00Z", reviewer: "a", verdict: "pass" });
+
+    expect(() => rollbackBatch(store, first)).toThrow("has a label");
+    expect(store.getInteraction("1")).not.toBeNull();
+    expect(store.getIngestBatch(first)?.rolledBackAt).toBeUndefined();
+  });
+
+  async function* records(
+    items: Array<Interaction | string>
+  ): AsyncGenerator<ParsedRecord<Interaction>> {
+    for (const [i, item] of items.entries()) {
+      yield typeof item === "string" ? { error: { line: i + 1, error: item } } : { item };
+    }
+  }
+
+  it("streams records into one batch, a chunk per transaction", async () => {
+    const items = [1, 2, 3, 4, 5].map((n) => ({ ...base, interactionId: String(n) }));
+    const applied: number[] = [];
+    const errors: string[] = [];
+
+    const result = await streamIngestBatch(
+      store,
+      { kind: "interactions", filePath: sourcePath },
+      records([items[0], items[1], "bad line", items[2], items[3], items[4], items[0]]),
+      (id, chunk) => {
+        applied.push(chunk.length);
+        return ingestInteractions(store, chunk, { batchId: id });
+      },
+      { batchSize: 2, onError: (error) => void errors.push(error.error) }
+    );
+
+    expect(applied).toEqual([2, 2, 2]);
+    expect(errors).toEqual(["bad line"]);
+    expect(result).toMatchObject({ valid: 6, invalid: 1 });
+    expect(result.totals).toMatchObject({ inserted: 5, unchanged: 1 });
+    expect(store.getIngestBatch(result.batchId!)).toMatchObject({ inserted: 5, skipped: 1, errors: 1 });
+
+    rollbackBatch(store, result.batchId!);
+    expect(store.getAllInteractions()).toEqual([]);
+  });
+
+  it("records an empty batch with its error count when every record is invalid", async () => {
+    const result = await streamIngestBatch(
+      store,
+      { kind: "interactions", filePath: sourcePath },
+      records(["bad", "worse"]),
+      (id, chunk) => ingestInteractions(store, chunk, { batchId: id })
+    );
+
+    expect(result.invalid).toBe(2);
+    expect(store.listIngestBatches()).toMatchObject([
+      { batchId: result.batchId, inserted: 0, updated: 0, skipped: 0, errors: 2 },
+    ]);
+    expect(store.getIngestBatchRows(result.batchId)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseInteractionsDelimited } from "../csv.js";
+import type { ColumnMapping } from "../csv.js";
+import { writeFile, unlink } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+describe("parseDelimited", () => {
+  async function createTempFile(content: string, ext = "csv"): Promise<string> {
+    const tmpPath = join(tmpdir(), `test-${Date.now()}.${ext}`);
+    await writeFile(tmpPath, content, "utf-8");
+    return tmpPath;
+  }
+
+  const mapping: ColumnMapping = {
+    columns: {
+      id: "interactionId",
+      ts: "timestamp",
+      question: "input.text",
+      answer: "output.text",
+      intent: "dimensions.intent",
+      tags: { path: "tags", type: "json" },
+    },
+  };
+
+  it("maps columns to nested fields", async () => {
+    const content = `id,ts,question,answer,intent,tags
+1,2026-01-01T00:00:00Z,How do I page on-call?,Use the pager,incident,"[""oncall""]"
+2,2026-01-01T00:00:00Z,What is the policy?,,policy,`;
+
+    const path = await createTempFile(content);
+    try {
+      const result = await parseInteractionsDelimited(path, mapping);
+      expect(result.errors).toHaveLength(0);
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0]).toMatchObject({
+        interactionId: "1",
+        input: { text: "How do I page on-call?" },
+        output: { text: "Use the pager" },
+        dimensions: { intent: "incident" },
+        tags: ["oncall"],
+      });
+      // Empty cells are omitted rather than set to ""
+      expect(result.items[1].output).toBeUndefined();
+      expect(result.items[1].tags).toBeUndefined();
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  it("handles quoted delimiters and newlines with correct line numbers", async () => {
+    const content = `id,ts,question
+1,2026-01-01T00:00:00Z,"first, with comma
+and a newline"
+2,invalid,second`;
+
+    const path = await createTempFile(content);
+    try {
+      const result = await parseInteractionsDelimited(path, mapping);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].input.text).toBe("first, with comma\nand a newline");
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].line).toBe(4);
+      expect(result.errors[0].error).toContain("timestamp");
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  it("reports conversion errors and column count mismatches", async () => {
+    const content = `id\tts\tquestion\ttags
+1\t2026-01-01T00:00:00Z\ta\tnot-json
+2\t2026-01-01T00:00:00Z`;
+
+    const path = await createTempFile(content, "tsv");
+    try {
+      const result = await parseInteractionsDelimited(path, mapping, { delimiter: "\t" });
+      expect(result.items).toHaveLength(0);
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toMatchObject({ line: 2 });
+      expect(result.errors[0].error).toContain("tags: invalid JSON");
+      expect(result.errors[1]).toMatchObject({ line: 3, error: "Expected 4 columns, got 2" });
+    } finally {
+      await unlink(path);
+    }
+  });
+});
@@ -71,4 +71,22 @@ describe("parseJsonl", () => {
       await unlink(path);
     }
   });
+
+  it("parses multi-turn messages and derives input from the last user turn", async () => {
+    const content = `{"interactionId":"1","timestamp":"2026-01-01T00:00:00Z","messages":[{"role":"user","content":"first"},{"role":"assistant","content":"reply","context":{"retrieval":{"items":[{"artifactId":"doc:a"}]}}},{"role":"user","content":"second"}]}
+{"interactionId":"2","timestamp":"2026-01-01T00:00:00Z","messages":[{"role":"robot","content":"x"}]}`;
+
+    const path = await createTempFile(content);
+    try {
+      const result = await parseInteractions(path);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].input.text).toBe("second");
+      expect(result.items[0].messages).toHaveLength(3);
+      expect(result.items[0].messages?.[1].context?.retrieval?.items[0].artifactId).toBe("doc:a");
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].error).toContain("messages.0.role");
+    } finally {
+      await unlink(path);
+    }
+  });
 });
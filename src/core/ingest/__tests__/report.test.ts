@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseInteractions, INVALID_JSON_ISSUE } from "../jsonl.js";
+import { buildValidationReport, writeRejects } from "../report.js";
+
+describe("validation report", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-report-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const badTimestamp = (id: string) =>
+    JSON.stringify({ interactionId: id, timestamp: "yesterday", input: { text: "q" } });
+
+  async function parse(lines: string[]) {
+    const path = join(tempDir, "in.jsonl");
+    await writeFile(path, lines.join("\n"), "utf-8");
+    return { path, result: await parseInteractions(path) };
+  }
+
+  it("groups invalid lines by issue, most frequent first", async () => {
+    const { path, result } = await parse([
+      badTimestamp("1"),
+      JSON.stringify({ interactionId: "2", timestamp: "2026-01-01T00:00:00Z", input: { text: "ok" } }),
+      badTimestamp("3"),
+      "{not json",
+      JSON.stringify({ timestamp: "later", input: { text: "q" } }),
+    ]);
+
+    const report = buildValidationReport("interactions", path, result);
+
+    expect(report.valid).toBe(1);
+    expect(report.invalid).toBe(4);
+    expect(report.issues[0]).toEqual({
+      issue: "timestamp: Invalid ISO datetime",
+      count: 3,
+      lines: [1, 3, 5],
+    });
+    expect(report.issues.map((i) => i.issue)).toContain(INVALID_JSON_ISSUE);
+    expect(report.issues.find((i) => i.issue.startsWith("interactionId:"))?.lines).toEqual([5]);
+  });
+
+  it("writes each rejected line in full with its error", async () => {
+    const longText = "x".repeat(500);
+    const line = JSON.stringify({ interactionId: "1", timestamp: "yesterday", input: { text: longText } });
+    const { result } = await parse([line]);
+
+    const rejectsPath = join(tempDir, "rejects.jsonl");
+    await writeRejects(rejectsPath, result.errors);
+
+    const rejects = (await readFile(rejectsPath, "utf-8"))
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l) as { line: number; error: string; issues: string[]; raw: string });
+    expect(rejects).toHaveLength(1);
+    expect(rejects[0].line).toBe(1);
+    expect(rejects[0].raw).toBe(line);
+    expect(rejects[0].issues).toEqual(["timestamp: Invalid ISO datetime"]);
+  });
+});
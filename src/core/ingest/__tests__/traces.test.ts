@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { parseTraces } from "../traces.js";
+import { writeFile, unlink } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+function attr(key: string, value: string | number): { key: string; value: Record<string, unknown> } {
+  if (typeof value === "string") return { key, value: { stringValue: value } };
+  return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } };
+}
+
+const exportFixture = {
+  resourceSpans: [
+    {
+      scopeSpans: [
+        {
+          spans: [
+            {
+              traceId: "t1",
+              spanId: "root",
+              name: "chat",
+              startTimeUnixNano: "1767225600000000000",
+              attributes: [
+                attr("openinference.span.kind", "LLM"),
+                attr("llm.model_name", "gpt-4o"),
+                attr("input.value", "How do I page on-call?"),
+                attr("output.value", "Use the pager."),
+              ],
+            },
+            {
+              traceId: "t1",
+              spanId: "r1",
+              parentSpanId: "root",
+              name: "retrieve",
+              startTimeUnixNano: "1767225600100000000",
+              attributes: [
+                attr("openinference.span.kind", "RETRIEVER"),
+                attr("retrieval.documents.1.document.id", "doc:runbook/pager"),
+                attr("retrieval.documents.1.document.score", 0.5),
+                attr("retrieval.documents.0.document.id", "doc:handbook/oncall"),
+                attr("retrieval.documents.0.document.chunk_id", "c1"),
+                attr("retrieval.documents.0.document.content", "After-hours escalation..."),
+                attr("retrieval.documents.0.document.score", 0.83),
+              ],
+            },
+            {
+              traceId: "t2",
+              spanId: "orphan",
+              name: "retrieve",
+              startTimeUnixNano: "1767225600000000000",
+              attributes: [attr("retrieval.documents.0.document.id", "doc:unused")],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe("parseTraces", () => {
+  async function createTempFile(content: string): Promise<string> {
+    const tmpPath = join(tmpdir(), `test-traces-${Date.now()}.json`);
+    await writeFile(tmpPath, content, "utf-8");
+    return tmpPath;
+  }
+
+  it("reassembles spans by trace id into interactions", async () => {
+    const path = await createTempFile(JSON.stringify(exportFixture));
+    try {
+      const result = await parseTraces(path);
+      expect(result.traceCount).toBe(2);
+      expect(result.items).toHaveLength(1);
+
+      const interaction = result.items[0];
+      expect(interaction).toMatchObject({
+        interactionId: "trace:t1",
+        timestamp: "2026-01-01T00:00:00.000Z",
+        input: { text: "How do I page on-call?" },
+        output: { text: "Use the pager." },
+        dimensions: { model: "gpt-4o" },
+        source: "traces",
+      });
+      expect(interaction.context?.retrieval?.items).toEqual([
+        { artifactId: "doc:handbook/oncall", chunkId: "c1", snippetText: "After-hours escalation...", score: 0.83 },
+        { artifactId: "doc:runbook/pager", score: 0.5 },
+      ]);
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  it("reports traces without input as errors", async () => {
+    const path = await createTempFile(JSON.stringify(exportFixture));
+    try {
+      const result = await parseTraces(path);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].line).toBe(1);
+      expect(result.errors[0].error).toContain("trace t2");
+      expect(result.errors[0].error).toContain("input.text");
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  it("reads one export per line", async () => {
+    const [first] = exportFixture.resourceSpans[0].scopeSpans[0].spans;
+    const lines = [first, exportFixture.resourceSpans[0].scopeSpans[0].spans[1]].map((span) =>
+      JSON.stringify({ resourceSpans: [{ scopeSpans: [{ spans: [span] }] }] })
+    );
+    const path = await createTempFile(lines.join("\n"));
+    try {
+      const result = await parseTraces(path);
+      expect(result.errors).toHaveLength(0);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].context?.retrieval?.items).toHaveLength(2);
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  it("reports bad lines and unreadable spans without dropping the rest of the file", async () => {
+    const [root, retrieval, orphan] = exportFixture.resourceSpans[0].scopeSpans[0].spans;
+    const lines = [
+      root,
+      retrieval,
+      { ...orphan, startTimeUnixNano: "soon", attributes: [attr("input.value", "q")] },
+      { ...root, traceId: "t3", startTimeUnixNano: "99999999999999999999999999" },
+    ].map((span) => JSON.stringify({ resourceSpans: [{ scopeSpans: [{ spans: [span] }] }] }));
+    lines.splice(1, 0, "{not json");
+    const path = await createTempFile(lines.join("\n"));
+    try {
+      const result = await parseTraces(path);
+      expect(result.traceCount).toBe(3);
+      expect(result.items.map((i) => i.interactionId)).toEqual(["trace:t1"]);
+      expect(result.errors.map((e) => [e.line, e.issues])).toEqual([
+        [2, ["<root>: Invalid JSON"]],
+        [4, ['startTimeUnixNano: Invalid start time "soon"']],
+        [5, ['startTimeUnixNano: Invalid start time "99999999999999999999999999"']],
+      ]);
+      expect(result.errors[1].error).toContain("span orphan of trace t2");
+    } finally {
+      await unlink(path);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { convertOpenAIChat } from "../openaiChat.js";
+import { loadAdapter } from "../index.js";
+import { parseInteractions } from "../../jsonl.js";
+import { writeFile, unlink } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const payload = {
+  request: {
+    model: "gpt-4o",
+    messages: [
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: "How do I page on-call?" },
+      { role: "assistant", content: "Use the pager." },
+      { role: "user", content: [{ type: "text", text: "And on weekends?" }] },
+    ],
+  },
+  response: {
+    id: "chatcmpl-1",
+    created: 1767225600,
+    model: "gpt-4o-2024-08-06",
+    choices: [{ index: 0, message: { role: "assistant", content: "Same pager." } }],
+    usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+  },
+};
+
+describe("convertOpenAIChat", () => {
+  it("builds input from the last user turn and output from the reply", () => {
+    const interaction = convertOpenAIChat(payload);
+
+    expect(interaction.interactionId).toBe("chatcmpl-1");
+    expect(interaction.timestamp).toBe("2026-01-01T00:00:00.000Z");
+    expect(interaction.input.text).toBe("And on weekends?");
+    expect(interaction.output?.text).toBe("Same pager.");
+    expect(interaction.messages).toHaveLength(4);
+    expect(interaction.source).toBe("openai-chat");
+  });
+
+  it("applies default rules for model and token counts", () => {
+    const interaction = convertOpenAIChat(payload);
+
+    // Response model wins over request model
+    expect(interaction.dimensions).toEqual({ model: "gpt-4o-2024-08-06", totalTokens: "<1000" });
+    expect(interaction.tags).toEqual(["promptTokens:120", "completionTokens:30"]);
+  });
+
+  it("applies custom rules and tags tool calls", () => {
+    const flat = {
+      id: "req-2",
+      timestamp: "2026-01-02T00:00:00Z",
+      model: "gpt-4o-mini",
+      messages: [{ role: "user", content: "Restart the db" }],
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [{ type: "function", function: { name: "restart_db", arguments: "{\"force\":true}" } }],
+          },
+        },
+      ],
+      usage: { total_tokens: 5000 },
+    };
+
+    const interaction = convertOpenAIChat(flat, {
+      source: "gateway",
+      rules: [
+        { from: "model", to: "tags", prefix: "model:" },
+        { from: "usage.total_tokens", to: "dimensions.tokens", buckets: [1000, 4000] },
+      ],
+    });
+
+    expect(interaction.interactionId).toBe("req-2");
+    expect(interaction.output?.text).toBe('[tool_call] restart_db({"force":true})');
+    expect(interaction.messages).toBeUndefined();
+    expect(interaction.tags).toEqual(["tool:restart_db", "model:gpt-4o-mini"]);
+    expect(interaction.dimensions).toEqual({ tokens: ">=4000" });
+    expect(interaction.source).toBe("gateway");
+  });
+
+  it("reports unconvertible lines as parse errors", async () => {
+    const tmpPath = join(tmpdir(), `test-openai-${Date.now()}.jsonl`);
+    const lines = [
+      JSON.stringify(payload),
+      JSON.stringify({ request: { messages: [{ role: "user", content: "hi" }] }, response: { id: "x", created: 1 } }),
+    ];
+    await writeFile(tmpPath, lines.join("\n"), "utf-8");
+
+    try {
+      const transform = await loadAdapter("openai-chat");
+      const result = await parseInteractions(tmpPath, { transform });
+      expect(result.items).toHaveLength(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].line).toBe(2);
+      expect(result.errors[0].error).toContain("choices[0].message");
+    } finally {
+      await unlink(tmpPath);
+    }
+  });
+});
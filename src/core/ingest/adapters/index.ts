@@ -0,0 +1,39 @@
+import { readJson } from "../../../util/fs.js";
+import { formatIssues } from "../schemas.js";
+import {
+  convertOpenAIChat,
+  OpenAIChatConfigSchema,
+  DEFAULT_OPENAI_CHAT_CONFIG,
+} from "./openaiChat.js";
+
+/**
+ * An ingest adapter converts one raw JSON line into an interaction-shaped
+ * object, which is then validated like any other JSONL line
+ */
+export type InteractionAdapter = (raw: unknown) => unknown;
+
+export const ADAPTER_NAMES = ["openai-chat"] as const;
+
+/**
+ * Create a named adapter, optionally configured from a JSON file
+ */
+export async function loadAdapter(
+  name: string,
+  configPath?: string
+): Promise<InteractionAdapter> {
+  switch (name) {
+    case "openai-chat": {
+      let config = DEFAULT_OPENAI_CHAT_CONFIG;
+      if (configPath) {
+        const result = OpenAIChatConfigSchema.safeParse(await readJson<unknown>(configPath));
+        if (!result.success) {
+          throw new Error(`Invalid adapter config ${configPath}: ${formatIssues(result.error.issues)}`);
+        }
+        config = result.data;
+      }
+      return (raw) => convertOpenAIChat(raw, config);
+    }
+    default:
+      throw new Error(`Unknown adapter: ${name} (available: ${ADAPTER_NAMES.join(", ")})`);
+  }
+}
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import type { ChatMessage, Interaction } from "../../types.js";
+import { hashString } from "../../../util/hash.js";
+
+// A rule copies one value from the raw payload into the interaction.
+// `from` is a dotted path looked up on the response, then the request,
+// then the raw line; `to` is "dimensions.<key>" or "tags".
+const AdapterRuleSchema = z.object({
+  from: z.string(),
+  to: z.string().regex(/^(dimensions\.[^.]+|tags)$/, 'must be "dimensions.<key>" or "tags"'),
+  prefix: z.string().optional(),
+  buckets: z.array(z.number()).optional(),
+});
+
+export const OpenAIChatConfigSchema = z.object({
+  source: z.string().optional(),
+  rules: z.array(AdapterRuleSchema),
+});
+
+export type AdapterRule = z.infer<typeof AdapterRuleSchema>;
+export type OpenAIChatConfig = z.infer<typeof OpenAIChatConfigSchema>;
+
+export const DEFAULT_OPENAI_CHAT_CONFIG: OpenAIChatConfig = {
+  source: "openai-chat",
+  rules: [
+    { from: "model", to: "dimensions.model" },
+    { from: "usage.total_tokens", to: "dimensions.totalTokens", buckets: [1000, 4000, 16000] },
+    { from: "usage.prompt_tokens", to: "tags", prefix: "promptTokens:" },
+    { from: "usage.completion_tokens", to: "tags", prefix: "completionTokens:" },
+  ],
+};
+
+type RawMessage = {
+  role?: unknown;
+  content?: unknown;
+  tool_calls?: Array<{ function?: { name?: unknown; arguments?: unknown } }>;
+};
+
+type RawPayload = Record<string, unknown>;
+
+/**
+ * Look up a dotted path on an object
+ */
+function getPath(obj: unknown, path: string): unknown {
+  let node = obj;
+  for (const segment of path.split(".")) {
+    if (typeof node !== "object" || node === null) return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
+
+function asObject(value: unknown): RawPayload | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as RawPayload)
+    : undefined;
+}
+
+/**
+ * Flatten message content: plain strings, or arrays of content parts
+ * where only text parts are kept
+ */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        const p = asObject(part);
+        return p && typeof p.text === "string" ? p.text : "";
+      })
+      .filter((t) => t.length > 0)
+      .join("\n");
+  }
+  return "";
+}
+
+function normalizeRole(role: unknown): ChatMessage["role"] {
+  switch (role) {
+    case "system":
+    case "developer":
+      return "system";
+    case "assistant":
+      return "assistant";
+    case "tool":
+    case "function":
+      return "tool";
+    default:
+      return "user";
+  }
+}
+
+function toolCallNames(message: RawMessage): string[] {
+  return (message.tool_calls ?? [])
+    .map((call) => call.function?.name)
+    .filter((name): name is string => typeof name === "string");
+}
+
+/**
+ * Render an assistant reply that only contains tool calls
+ */
+function renderToolCalls(message: RawMessage): string {
+  return (message.tool_calls ?? [])
+    .map((call) => {
+      const name = typeof call.function?.name === "string" ? call.function.name : "unknown";
+      const args = typeof call.function?.arguments === "string" ? call.function.arguments : "";
+      return `[tool_call] ${name}(${args})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Format a numeric value into a bucket label, e.g. [1000, 4000] gives
+ * "<1000", "1000-4000" and ">=4000"
+ */
+function bucketLabel(value: number, buckets: number[]): string {
+  const sorted = [...buckets].sort((a, b) => a - b);
+  if (value < sorted[0]) return `<${sorted[0]}`;
+  for (let i = 1; i < sorted.length; i++) {
+    if (value < sorted[i]) return `${sorted[i - 1]}-${sorted[i]}`;
+  }
+  return `>=${sorted[sorted.length - 1]}`;
+}
+
+function applyRules(
+  rules: AdapterRule[],
+  sources: unknown[],
+  dimensions: Record<string, string>,
+  tags: string[]
+): void {
+  for (const rule of rules) {
+    const value = sources
+      .map((source) => getPath(source, rule.from))
+      .find((v) => v !== undefined && v !== null);
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      continue;
+    }
+
+    const text =
+      rule.buckets && rule.buckets.length > 0 && typeof value === "number"
+        ? bucketLabel(value, rule.buckets)
+        : String(value);
+    const formatted = `${rule.prefix ?? ""}${text}`;
+
+    if (rule.to === "tags") {
+      if (!tags.includes(formatted)) tags.push(formatted);
+    } else {
+      dimensions[rule.to.slice("dimensions.".length)] = formatted;
+    }
+  }
+}
+
+/**
+ * Convert one OpenAI-style chat-completion log line into an Interaction.
+ *
+ * Accepts either a `{ request, response }` envelope or a flat object that
+ * carries `messages` alongside `choices`. Throws when the line cannot be
+ * converted; the caller reports it as a ParseError.
+ */
+export function convertOpenAIChat(
+  raw: unknown,
+  config: OpenAIChatConfig = DEFAULT_OPENAI_CHAT_CONFIG
+): Interaction {
+  const line = asObject(raw);
+  if (!line) {
+    throw new Error("Expected a JSON object");
+  }
+
+  const request = asObject(line.request) ?? line;
+  const response = asObject(line.response) ?? line;
+
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new Error("request.messages: expected a non-empty array");
+  }
+  const rawMessages = request.messages as RawMessage[];
+
+  const choices = response.choices;
+  const reply = Array.isArray(choices)
+    ? (asObject(asObject(choices[0])?.message) as RawMessage | undefined)
+    : undefined;
+  if (!reply) {
+    throw new Error("choices[0].message: missing assistant reply");
+  }
+
+  const messages: ChatMessage[] = rawMessages.map((m) => ({
+    role: normalizeRole(m.role),
+    content: contentText(m.content),
+  }));
+
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  if (!lastUser) {
+    throw new Error("request.messages: no user turn");
+  }
+
+  const replyText = contentText(reply.content) || renderToolCalls(reply);
+
+  let timestamp: string | undefined;
+  if (typeof line.timestamp === "string") {
+    timestamp = line.timestamp;
+  } else if (typeof response.created === "number") {
+    timestamp = new Date(response.created * 1000).toISOString();
+  }
+  if (!timestamp) {
+    throw new Error("timestamp: expected `timestamp` or `created`");
+  }
+
+  const interactionId =
+    (typeof response.id === "string" && response.id) ||
+    (typeof line.id === "string" && line.id) ||
+    `openai:${hashString(JSON.stringify(raw)).slice(0, 16)}`;
+
+  const dimensions: Record<string, string> = {};
+  const tags: string[] = toolCallNames(reply).map((name) => `tool:${name}`);
+  applyRules(config.rules, [response, request, line], dimensions, tags);
+
+  const interaction: Interaction = {
+    interactionId,
+    timestamp,
+    input: { text: lastUser.content },
+    output: { text: replyText },
+    source: config.source ?? DEFAULT_OPENAI_CHAT_CONFIG.source,
+  };
+
+  // Keep the conversation only when there is more than the single user turn
+  if (messages.length > 1) interaction.messages = messages;
+  if (Object.keys(dimensions).length > 0) interaction.dimensions = dimensions;
+  if (tags.length > 0) interaction.tags = tags;
+
+  return interaction;
+}
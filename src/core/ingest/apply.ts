@@ -0,0 +1,418 @@
+import type { Interaction, Artifact, Label, BatchEntity, IngestBatchRow } from "../types.js";
+import { DEFAULT_BATCH_SIZE } from "../store/sqlite.js";
+import type { SQLiteStore } from "../store/sqlite.js";
+import { inBatches } from "../../util/batch.js";
+import { describeLabel, labelKey } from "../labels/keys.js";
+
+export interface ApplyOptions {
+  /** Overwrite existing records whose content differs */
+  upsert?: boolean;
+  /** Ingest batch to link written rows to (see batches.ts) */
+  batchId?: number;
+  /** Records looked up and written per statement batch */
+  batchSize?: number;
+}
+
+export interface RecordChange {
+  id: string;
+  fields: string[];
+}
+
+export interface IngestSummary {
+  inserted: number;
+  /** Existing records overwritten (`upsert`, or a label strategy allowing it) */
+  updated: RecordChange[];
+  /** Existing records identical to the incoming ones (never rewritten) */
+  unchanged: number;
+  /** Existing records that differ and were left untouched */
+  conflicts: RecordChange[];
+}
+
+const INTERACTION_FIELDS = [
+  "timestamp",
+  "input",
+  "output",
+  "messages",
+  "context",
+  "dimensions",
+  "tags",
+  "source",
+] as const;
+
+const ARTIFACT_FIELDS = ["type", "title", "uri", "updatedAt", "meta"] as const;
+
+// Type of the stubs created for cited artifacts that were never ingested
+export const STUB_ARTIFACT_TYPE = "unknown";
+
+/**
+ * Whether an artifact is a stub: the stub type and nothing else known
+ */
+export function isArtifactStub(artifact: Artifact): boolean {
+  return (
+    artifact.type === STUB_ARTIFACT_TYPE &&
+    !artifact.title &&
+    !artifact.uri &&
+    !artifact.updatedAt &&
+    (!artifact.meta || Object.keys(artifact.meta).length === 0)
+  );
+}
+
+// Fields besides the key (interactionId, reviewer, reviewedAt)
+const LABEL_FIELDS = ["verdict", "notes", "expected"] as const;
+
+export const LABEL_STRATEGIES = ["keep-existing", "overwrite"] as const;
+
+/**
+ * What happens to an incoming label with the same key (interaction,
+ * reviewer, reviewedAt) as a stored one but different content. Labels
+ * with a new key are always added alongside the stored ones.
+ * - keep-existing: keep the stored label and report a conflict
+ * - overwrite: replace it
+ */
+export type LabelStrategy = (typeof LABEL_STRATEGIES)[number];
+
+/**
+ * Strategies from before labels were keyed by reviewer and review time,
+ * still accepted. `newest` kept whichever label had the later reviewedAt;
+ * a later review now has its own key and is always added, so for labels
+ * with the same key it keeps the stored one.
+ */
+export const LABEL_STRATEGY_ALIASES: ReadonlyMap<string, LabelStrategy> = new Map([
+  ["newest", "keep-existing"],
+]);
+
+/**
+ * Parse a --strategy value, resolving aliases
+ */
+export function parseLabelStrategy(value: string): LabelStrategy {
+  if ((LABEL_STRATEGIES as readonly string[]).includes(value)) {
+    return value as LabelStrategy;
+  }
+  const alias = LABEL_STRATEGY_ALIASES.get(value);
+  if (alias) return alias;
+  throw new Error(`Invalid strategy: ${value} (expected ${LABEL_STRATEGIES.join(", ")})`);
+}
+
+export interface LabelApplyOptions {
+  strategy?: LabelStrategy;
+  batchId?: number;
+  batchSize?: number;
+}
+
+export interface LabelIngestSummary extends IngestSummary {
+  /** Labels rejected because their interaction is not in the store */
+  unknownInteractions: string[];
+}
+
+// Changed records (and unknown interactions) kept as examples in totals
+export const MAX_EXAMPLES = 20;
+
+/**
+ * Counts over several summaries, e.g. the chunks of a streamed ingest,
+ * keeping only the first few changed records so memory stays bounded
+ */
+export interface IngestTotals {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  conflicts: number;
+  unknownInteractions: number;
+  examples: {
+    updated: RecordChange[];
+    conflicts: RecordChange[];
+    unknownInteractions: string[];
+  };
+}
+
+export function emptyTotals(): IngestTotals {
+  return {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    conflicts: 0,
+    unknownInteractions: 0,
+    examples: { updated: [], conflicts: [], unknownInteractions: [] },
+  };
+}
+
+function addExamples<T>(examples: T[], items: T[]): void {
+  examples.push(...items.slice(0, MAX_EXAMPLES - examples.length));
+}
+
+/**
+ * Add a summary to running totals (in place)
+ */
+export function addToTotals(
+  totals: IngestTotals,
+  summary: IngestSummary & Partial<Pick<LabelIngestSummary, "unknownInteractions">>
+): IngestTotals {
+  totals.inserted += summary.inserted;
+  totals.updated += summary.updated.length;
+  totals.unchanged += summary.unchanged;
+  totals.conflicts += summary.conflicts.length;
+  addExamples(totals.examples.updated, summary.updated);
+  addExamples(totals.examples.conflicts, summary.conflicts);
+  if (summary.unknownInteractions) {
+    totals.unknownInteractions += summary.unknownInteractions.length;
+    addExamples(totals.examples.unknownInteractions, summary.unknownInteractions);
+  }
+  return totals;
+}
+
+// Record-valued fields are compared per key, e.g. "dimensions.intent"
+const KEYED_FIELDS = new Set(["dimensions", "meta"]);
+
+/**
+ * Canonical JSON for comparison: sorted object keys, and empty strings
+ * treated as absent (the store does not keep them)
+ */
+function canonical(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+    return v;
+  });
+}
+
+/**
+ * List the fields whose values differ between two records
+ */
+export function diffFields<T extends object>(
+  existing: T,
+  incoming: T,
+  fields: readonly (keyof T & string)[]
+): string[] {
+  const changed: string[] = [];
+
+  for (const field of fields) {
+    const before = existing[field] as unknown;
+    const after = incoming[field] as unknown;
+
+    if (KEYED_FIELDS.has(field) && (before || after)) {
+      const a = (before ?? {}) as Record<string, unknown>;
+      const b = (after ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      for (const key of [...keys].sort()) {
+        if (canonical(a[key]) !== canonical(b[key])) {
+          changed.push(`${field}.${key}`);
+        }
+      }
+    } else if (canonical(before) !== canonical(after)) {
+      changed.push(field);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Link written rows to their ingest batch, keeping the previous version of
+ * updated rows for rollback
+ */
+function recordWrites(
+  store: SQLiteStore,
+  batchId: number | undefined,
+  writes: Array<{ entity: BatchEntity; id: string; previous?: Interaction | Artifact | Label }>
+): void {
+  if (batchId === undefined || writes.length === 0) return;
+  store.recordIngestBatchRows(
+    writes.map(
+      (write): IngestBatchRow => ({
+        batchId,
+        entity: write.entity,
+        entityId: write.id,
+        action: write.previous ? "update" : "insert",
+        previous: write.previous,
+      })
+    )
+  );
+}
+
+/**
+ * Compare and write records a batch at a time: one lookup query for the
+ * existing versions, then the writes in one transaction
+ */
+function applyRecords<T extends Interaction | Artifact>(
+  store: SQLiteStore,
+  items: T[],
+  options: ApplyOptions,
+  ops: {
+    entity: BatchEntity;
+    id: (item: T) => string;
+    getMany: (ids: string[]) => T[];
+    writeMany: (items: T[]) => void;
+    fields: readonly (keyof T & string)[];
+    /** Stored placeholders that incoming records replace as if new */
+    isPlaceholder?: (item: T) => boolean;
+  }
+): IngestSummary {
+  const summary: IngestSummary = { inserted: 0, updated: [], unchanged: 0, conflicts: [] };
+
+  for (const batch of inBatches(items, options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+    const stored = new Map(ops.getMany(batch.map(ops.id)).map((item) => [ops.id(item), item]));
+    const writes: T[] = [];
+    const rows: Array<{ entity: BatchEntity; id: string; previous?: T }> = [];
+
+    for (const item of batch) {
+      const id = ops.id(item);
+      const existing = stored.get(id);
+
+      if (!existing) {
+        writes.push(item);
+        rows.push({ entity: ops.entity, id });
+        // A repeated id later in the batch compares against this version
+        stored.set(id, item);
+        summary.inserted++;
+        continue;
+      }
+
+      const fields = diffFields(existing, item, ops.fields);
+      if (fields.length === 0) {
+        summary.unchanged++;
+      } else if (ops.isPlaceholder?.(existing)) {
+        // Kept as the previous version, so rolling back restores the placeholder
+        writes.push(item);
+        rows.push({ entity: ops.entity, id, previous: existing });
+        stored.set(id, item);
+        summary.inserted++;
+      } else if (options.upsert) {
+        writes.push(item);
+        rows.push({ entity: ops.entity, id, previous: existing });
+        stored.set(id, item);
+        summary.updated.push({ id, fields });
+      } else {
+        summary.conflicts.push({ id, fields });
+      }
+    }
+
+    ops.writeMany(writes);
+    recordWrites(store, options.batchId, rows);
+  }
+
+  return summary;
+}
+
+/**
+ * Write interactions to the store. Existing ids are reported as conflicts
+ * unless `upsert` allows overwriting them.
+ */
+export function ingestInteractions(
+  store: SQLiteStore,
+  interactions: Interaction[],
+  options: ApplyOptions = {}
+): IngestSummary {
+  return applyRecords(store, interactions, options, {
+    entity: "interaction",
+    id: (i) => i.interactionId,
+    getMany: (ids) => store.getInteractions(ids),
+    writeMany: (items) => store.upsertInteractions(items),
+    fields: INTERACTION_FIELDS,
+  });
+}
+
+/**
+ * Write artifacts to the store. Stubs are replaced as if they were not
+ * there; other existing ids are reported as conflicts unless `upsert`
+ * allows overwriting them.
+ */
+export function ingestArtifacts(
+  store: SQLiteStore,
+  artifacts: Artifact[],
+  options: ApplyOptions = {}
+): IngestSummary {
+  return applyRecords(store, artifacts, options, {
+    entity: "artifact",
+    id: (a) => a.artifactId,
+    getMany: (ids) => store.getArtifacts(ids),
+    writeMany: (items) => store.upsertArtifacts(items),
+    fields: ARTIFACT_FIELDS,
+    isPlaceholder: isArtifactStub,
+  });
+}
+
+/**
+ * Write labels to the store. Labels for interactions that are not in the
+ * store are rejected; a label whose key is already stored is handled
+ * according to `strategy`.
+ */
+export function ingestLabels(
+  store: SQLiteStore,
+  labels: Label[],
+  options: LabelApplyOptions = {}
+): LabelIngestSummary {
+  const { strategy = "keep-existing", batchId } = options;
+  const summary: LabelIngestSummary = {
+    inserted: 0,
+    updated: [],
+    unchanged: 0,
+    conflicts: [],
+    unknownInteractions: [],
+  };
+
+  for (const batch of inBatches(labels, options.batchSize ?? DEFAULT_BATCH_SIZE)) {
+    const ids = batch.map((l) => l.interactionId);
+    const known = store.getKnownInteractionIds(ids);
+    const stored = new Map(store.getLabels(ids).map((l) => [labelKey(l), l]));
+    const writes: Label[] = [];
+    const rows: Array<{ entity: BatchEntity; id: string; previous?: Label }> = [];
+
+    for (const label of batch) {
+      if (!known.has(label.interactionId)) {
+        summary.unknownInteractions.push(label.interactionId);
+        continue;
+      }
+
+      const key = labelKey(label);
+      const existing = stored.get(key);
+      if (!existing) {
+        writes.push(label);
+        rows.push({ entity: "label", id: key });
+        stored.set(key, label);
+        summary.inserted++;
+        continue;
+      }
+
+      const fields = diffFields(existing, label, LABEL_FIELDS);
+      if (fields.length === 0) {
+        summary.unchanged++;
+      } else if (strategy === "overwrite") {
+        writes.push(label);
+        rows.push({ entity: "label", id: key, previous: existing });
+        stored.set(key, label);
+        summary.updated.push({ id: describeLabel(label), fields });
+      } else {
+        summary.conflicts.push({ id: describeLabel(label), fields });
+      }
+    }
+
+    store.upsertLabels(writes);
+    recordWrites(store, batchId, rows);
+  }
+
+  return summary;
+}
+
+/**
+ * Create stubs (of STUB_ARTIFACT_TYPE) for cited artifacts that are not in the
+ * store yet; existing artifacts are never touched. Returns the number created.
+ */
+export function ingestArtifactStubs(
+  store: SQLiteStore,
+  artifactIds: string[],
+  options: Pick<ApplyOptions, "batchId"> = {}
+): number {
+  const created = artifactIds.filter((artifactId) =>
+    store.insertArtifactIfMissing({ artifactId, type: STUB_ARTIFACT_TYPE })
+  );
+  recordWrites(
+    store,
+    options.batchId,
+    created.map((id) => ({ entity: "artifact" as const, id }))
+  );
+  return created.length;
+}
+
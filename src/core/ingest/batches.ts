@@ -0,0 +1,264 @@
+import { resolve } from "path";
+import type {
+  Interaction,
+  Artifact,
+  Label,
+  IngestBatchKind,
+  IngestBatchRow,
+} from "../types.js";
+import { DEFAULT_BATCH_SIZE } from "../store/sqlite.js";
+import type { SQLiteStore } from "../store/sqlite.js";
+import { addToTotals, emptyTotals } from "./apply.js";
+import type { IngestSummary, IngestTotals } from "./apply.js";
+import type { ParseError, ParsedRecord } from "./jsonl.js";
+import { hashFile } from "../../util/hash.js";
+import { labelKey, parseLabelKey } from "../labels/keys.js";
+
+export interface BatchSource {
+  kind: IngestBatchKind;
+  /** File the batch was read from; absent for runs that read no file */
+  filePath?: string;
+  /** Number of invalid lines found while parsing the file */
+  errors: number;
+}
+
+export interface BatchResult<S extends IngestSummary> {
+  batchId: number;
+  summary: S;
+}
+
+export interface StreamBatchOptions {
+  /** Records written per transaction */
+  batchSize?: number;
+  /** Called with each invalid record as it is read */
+  onError?: (error: ParseError) => void | Promise<void>;
+  /** Called every `batchSize` records with the number read so far */
+  onProgress?: (read: number) => void;
+}
+
+export interface StreamBatchResult {
+  batchId: number;
+  totals: IngestTotals;
+  valid: number;
+  invalid: number;
+}
+
+export interface RollbackResult {
+  restored: number;
+  deleted: number;
+}
+
+/**
+ * Record an ingest run as a batch and apply it in one transaction.
+ * `apply` receives the new batch id and must link every row it writes
+ * to it (see ApplyOptions.batchId).
+ */
+export async function runIngestBatch<S extends IngestSummary>(
+  store: SQLiteStore,
+  source: BatchSource,
+  apply: (batchId: number) => S
+): Promise<BatchResult<S>> {
+  const sha256 = source.filePath ? await hashFile(source.filePath) : "";
+
+  return store.transaction(() => {
+    const batchId = store.createIngestBatch({
+      kind: source.kind,
+      sourcePath: source.filePath ? resolve(source.filePath) : "",
+      sha256,
+      createdAt: new Date().toISOString(),
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      errors: source.errors,
+    });
+
+    const summary = apply(batchId);
+
+    store.updateIngestBatchCounts(
+      batchId,
+      batchCounts(addToTotals(emptyTotals(), summary), source.errors)
+    );
+
+    return { batchId, summary };
+  });
+}
+
+function batchCounts(totals: IngestTotals, errors: number) {
+  return {
+    inserted: totals.inserted,
+    updated: totals.updated,
+    skipped: totals.unchanged + totals.conflicts,
+    errors,
+  };
+}
+
+/**
+ * Record an ingest run as a batch while reading its records, so memory
+ * stays bounded however large the file. Valid records are applied in
+ * chunks of `batchSize`, each in its own transaction. If the run fails part
+ * way, the chunks already committed stay linked to the batch and
+ * rollbackBatch undoes them. A run with no valid record is still recorded,
+ * as a batch of no rows with its error count.
+ */
+export async function streamIngestBatch<T>(
+  store: SQLiteStore,
+  source: Omit<BatchSource, "errors">,
+  records: AsyncIterable<ParsedRecord<T>>,
+  apply: (batchId: number, items: T[]) => IngestSummary,
+  options: StreamBatchOptions = {}
+): Promise<StreamBatchResult> {
+  const sha256 = source.filePath ? await hashFile(source.filePath) : "";
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const result: Omit<StreamBatchResult, "batchId"> & { batchId?: number } = {
+    totals: emptyTotals(),
+    valid: 0,
+    invalid: 0,
+  };
+  let pending: T[] = [];
+
+  const flush = () => {
+    const items = pending;
+    pending = [];
+    store.transaction(() => {
+      // Created with the first chunk, or at the end when there was none
+      const batchId =
+        result.batchId ??
+        store.createIngestBatch({
+          kind: source.kind,
+          sourcePath: source.filePath ? resolve(source.filePath) : "",
+          sha256,
+          createdAt: new Date().toISOString(),
+          inserted: 0,
+          updated: 0,
+          skipped: 0,
+          errors: 0,
+        });
+      result.batchId = batchId;
+
+      addToTotals(result.totals, apply(batchId, items));
+      store.updateIngestBatchCounts(batchId, batchCounts(result.totals, result.invalid));
+    });
+  };
+
+  for await (const record of records) {
+    if (record.error) {
+      result.invalid++;
+      await options.onError?.(record.error);
+    } else {
+      result.valid++;
+      pending.push(record.item);
+      if (pending.length >= batchSize) flush();
+    }
+
+    const read = result.valid + result.invalid;
+    if (read % batchSize === 0) options.onProgress?.(read);
+  }
+
+  if (pending.length > 0 || result.batchId === undefined) {
+    // A file without valid records is still recorded, as an empty batch
+    flush();
+  } else {
+    // Invalid records after the last chunk
+    store.updateIngestBatchCounts(result.batchId, batchCounts(result.totals, result.invalid));
+  }
+
+  return { ...result, batchId: result.batchId! };
+}
+
+function restoreRow(store: SQLiteStore, row: IngestBatchRow): void {
+  switch (row.entity) {
+    case "interaction":
+      store.upsertInteraction(row.previous as Interaction);
+      break;
+    case "artifact":
+      store.upsertArtifact(row.previous as Artifact);
+      break;
+    case "label": {
+      const previous = row.previous as Label;
+      // Batches from before labels had keys could replace a label with
+      // one under another key; that one goes
+      const key = parseLabelKey(row.entityId);
+      if (key && labelKey(key) !== labelKey(previous)) {
+        store.deleteLabel(key);
+      }
+      store.upsertLabel(previous);
+      break;
+    }
+  }
+}
+
+function deleteRow(store: SQLiteStore, row: IngestBatchRow, force: boolean): number {
+  switch (row.entity) {
+    case "interaction":
+      // Labels reference interactions, so a labeled one cannot simply go away
+      if (store.getLabels([row.entityId]).length > 0) {
+        if (!force) {
+          throw new Error(
+            `Interaction ${row.entityId} has a label added since. ` +
+              "Roll back the batch that added it first, or use --force to delete it too."
+          );
+        }
+        const labels = store.deleteLabels(row.entityId);
+        store.deleteInteraction(row.entityId);
+        return 1 + labels;
+      }
+      store.deleteInteraction(row.entityId);
+      break;
+    case "artifact":
+      store.deleteArtifact(row.entityId);
+      break;
+    case "label": {
+      // Rows without a key name labels already gone when keys came in
+      const key = parseLabelKey(row.entityId);
+      if (key) store.deleteLabel(key);
+      break;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Undo an ingest batch: rows it updated get their previous version back,
+ * rows it inserted are deleted.
+ *
+ * Refuses when a later batch wrote any of the same rows, since rolling back
+ * would discard that batch's changes too, or when an inserted interaction
+ * has been labeled since; `force` overrides both.
+ */
+export function rollbackBatch(
+  store: SQLiteStore,
+  batchId: number,
+  options: { force?: boolean } = {}
+): RollbackResult {
+  const batch = store.getIngestBatch(batchId);
+  if (!batch) {
+    throw new Error(`Ingest batch not found: ${batchId}`);
+  }
+  if (batch.rolledBackAt) {
+    throw new Error(`Ingest batch ${batchId} was already rolled back at ${batch.rolledBackAt}`);
+  }
+
+  const later = store.getLaterBatchesTouchingRows(batchId);
+  if (later.length > 0 && !options.force) {
+    throw new Error(
+      `Later batches wrote the same rows: ${later.map((id) => `#${id}`).join(", ")}. ` +
+        "Roll those back first, or use --force."
+    );
+  }
+
+  return store.transaction(() => {
+    const result: RollbackResult = { restored: 0, deleted: 0 };
+
+    for (const row of store.getIngestBatchRows(batchId)) {
+      if (row.action === "update" && row.previous) {
+        restoreRow(store, row);
+        result.restored++;
+      } else {
+        result.deleted += deleteRow(store, row, options.force ?? false);
+      }
+    }
+
+    store.markIngestBatchRolledBack(batchId, new Date().toISOString());
+    return result;
+  });
+}
@@ -0,0 +1,342 @@
+import { createReadStream } from "fs";
+import { z } from "zod";
+import type { Interaction, Artifact, Label } from "../types.js";
+import { readJson } from "../../util/fs.js";
+import {
+  InteractionSchema,
+  ArtifactSchema,
+  LabelSchema,
+  formatIssues,
+  issueMessages,
+} from "./schemas.js";
+import { MAX_ERROR_CONTENT_LENGTH, collectParsed } from "./jsonl.js";
+import type { ParseResult, ParsedRecord } from "./jsonl.js";
+
+// Column mapping file schema
+// A column maps either to a dotted field path ("input.text") or to
+// { path, type } when the cell needs conversion before validation.
+const ColumnRuleSchema = z.union([
+  z.string(),
+  z.object({
+    path: z.string(),
+    type: z.enum(["string", "number", "boolean", "json"]).optional(),
+  }),
+]);
+
+const ColumnMappingSchema = z.object({
+  delimiter: z.string().length(1).optional(),
+  columns: z.record(z.string(), ColumnRuleSchema),
+});
+
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>;
+
+type ColumnType = "string" | "number" | "boolean" | "json";
+
+export interface DelimitedOptions {
+  delimiter?: string;
+}
+
+// UTF-8 BOM regex for stripping from the start of the file
+const UTF8_BOM_REGEX = /^\uFEFF/;
+
+const QUOTE = '"';
+
+interface DelimitedRecord {
+  line: number;
+  fields: string[];
+  raw: string;
+}
+
+/**
+ * Load and validate a column mapping file
+ */
+export async function loadColumnMapping(path: string): Promise<ColumnMapping> {
+  const json = await readJson<unknown>(path);
+  const result = ColumnMappingSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid mapping file ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Stream records from a delimited file (RFC 4180 quoting).
+ * Quoted fields may contain delimiters, escaped quotes ("") and newlines;
+ * `line` is the physical line on which each record starts.
+ */
+async function* readDelimitedRecords(
+  filePath: string,
+  delimiter: string
+): AsyncGenerator<DelimitedRecord> {
+  const fileStream = createReadStream(filePath, { encoding: "utf-8" });
+
+  let state: "start" | "unquoted" | "quoted" | "quoteInQuoted" = "start";
+  let field = "";
+  let fields: string[] = [];
+  let raw = "";
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+
+  const endRecord = (): DelimitedRecord | null => {
+    fields.push(field);
+    const record = { line: recordLine, fields, raw };
+    field = "";
+    fields = [];
+    raw = "";
+    state = "start";
+    // Skip blank lines
+    return record.fields.length === 1 && record.fields[0] === "" ? null : record;
+  };
+
+  try {
+    for await (const chunk of fileStream) {
+      let text = chunk as string;
+      if (first) {
+        text = text.replace(UTF8_BOM_REGEX, "");
+        first = false;
+      }
+
+      for (const c of text) {
+        if (state === "quoted") {
+          if (c === QUOTE) {
+            state = "quoteInQuoted";
+          } else {
+            field += c;
+            if (c === "\n") line++;
+          }
+          raw += c;
+          continue;
+        }
+
+        if (state === "quoteInQuoted") {
+          if (c === QUOTE) {
+            field += QUOTE;
+            state = "quoted";
+            raw += c;
+            continue;
+          }
+          state = "unquoted";
+        }
+
+        if (state === "start" && c === QUOTE) {
+          state = "quoted";
+          raw += c;
+          continue;
+        }
+
+        if (c === delimiter) {
+          fields.push(field);
+          field = "";
+          state = "start";
+          raw += c;
+        } else if (c === "\n") {
+          line++;
+          const record = endRecord();
+          recordLine = line;
+          if (record) yield record;
+        } else if (c !== "\r") {
+          field += c;
+          state = "unquoted";
+          raw += c;
+        }
+      }
+    }
+
+    if (raw.length > 0 || fields.length > 0 || field.length > 0) {
+      const record = endRecord();
+      if (record) yield record;
+    }
+  } finally {
+    fileStream.destroy();
+  }
+}
+
+/**
+ * Set a value at a dotted path, creating objects (or arrays for numeric
+ * segments) along the way
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split(".");
+  let node: Record<string, unknown> = target;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    const nextIsIndex = /^\d+$/.test(segments[i + 1]);
+    if (node[segment] === undefined || node[segment] === null) {
+      node[segment] = nextIsIndex ? [] : {};
+    }
+    node = node[segment] as Record<string, unknown>;
+  }
+
+  node[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Convert a raw cell to the declared column type
+ */
+function convertCell(value: string, type: ColumnType): unknown {
+  switch (type) {
+    case "number": {
+      const num = Number(value);
+      if (value.trim() === "" || isNaN(num)) {
+        throw new Error(`expected number, got '${value}'`);
+      }
+      return num;
+    }
+    case "boolean": {
+      const lower = value.trim().toLowerCase();
+      if (lower === "true" || lower === "1") return true;
+      if (lower === "false" || lower === "0") return false;
+      throw new Error(`expected boolean, got '${value}'`);
+    }
+    case "json":
+      try {
+        return JSON.parse(value) as unknown;
+      } catch (err) {
+        throw new Error(`invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Stream a CSV/TSV file, mapping columns to fields and validating each row
+ * as it is read. Errors use the same line-numbered ParseError shape as
+ * streamJsonl.
+ */
+export async function* streamDelimited<T>(
+  filePath: string,
+  schema: z.ZodSchema<T>,
+  mapping: ColumnMapping,
+  options: DelimitedOptions = {}
+): AsyncGenerator<ParsedRecord<T>> {
+  const delimiter = options.delimiter ?? mapping.delimiter ?? ",";
+  let header: string[] | null = null;
+
+  try {
+    for await (const record of readDelimitedRecords(filePath, delimiter)) {
+      const content = record.raw.substring(0, MAX_ERROR_CONTENT_LENGTH);
+
+      if (!header) {
+        // Mapped columns absent from the header are simply never set
+        header = record.fields.map((f) => f.trim());
+        continue;
+      }
+
+      if (record.fields.length !== header.length) {
+        yield {
+          error: {
+            line: record.line,
+            error: `Expected ${header.length} columns, got ${record.fields.length}`,
+            content,
+            raw: record.raw,
+          },
+        };
+        continue;
+      }
+
+      const obj: Record<string, unknown> = {};
+      const cellErrors: string[] = [];
+
+      header.forEach((column, i) => {
+        const rule = mapping.columns[column];
+        const cell = record.fields[i];
+        if (rule === undefined || cell === "") return;
+
+        const path = typeof rule === "string" ? rule : rule.path;
+        const type = typeof rule === "string" ? "string" : rule.type ?? "string";
+        try {
+          setPath(obj, path, convertCell(cell, type));
+        } catch (err) {
+          cellErrors.push(`${column}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      });
+
+      if (cellErrors.length > 0) {
+        yield {
+          error: {
+            line: record.line,
+            error: cellErrors.join("; "),
+            content,
+            raw: record.raw,
+            issues: cellErrors,
+          },
+        };
+        continue;
+      }
+
+      const result = schema.safeParse(obj);
+      if (result.success) {
+        yield { item: result.data };
+      } else {
+        const issues = issueMessages(result.error.issues);
+        yield {
+          error: {
+            line: record.line,
+            error: issues.join("; "),
+            content,
+            raw: record.raw,
+            issues,
+          },
+        };
+      }
+    }
+  } catch (err) {
+    yield {
+      error: {
+        line: 0,
+        error: `Read error: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    };
+  }
+}
+
+/**
+ * Parse a CSV/TSV file, map columns to fields and validate each row.
+ * Errors use the same line-numbered ParseError shape as parseJsonl.
+ */
+export async function parseDelimited<T>(
+  filePath: string,
+  schema: z.ZodSchema<T>,
+  mapping: ColumnMapping,
+  options: DelimitedOptions = {}
+): Promise<ParseResult<T>> {
+  return collectParsed(streamDelimited(filePath, schema, mapping, options));
+}
+
+/**
+ * Parse interactions from a CSV/TSV file
+ */
+export async function parseInteractionsDelimited(
+  filePath: string,
+  mapping: ColumnMapping,
+  options?: DelimitedOptions
+): Promise<ParseResult<Interaction>> {
+  const result = await parseDelimited(filePath, InteractionSchema, mapping, options);
+  return result as ParseResult<Interaction>;
+}
+
+/**
+ * Parse artifacts from a CSV/TSV file
+ */
+export async function parseArtifactsDelimited(
+  filePath: string,
+  mapping: ColumnMapping,
+  options?: DelimitedOptions
+): Promise<ParseResult<Artifact>> {
+  const result = await parseDelimited(filePath, ArtifactSchema, mapping, options);
+  return result as ParseResult<Artifact>;
+}
+
+/**
+ * Parse labels from a CSV/TSV file
+ */
+export async function parseLabelsDelimited(
+  filePath: string,
+  mapping: ColumnMapping,
+  options?: DelimitedOptions
+): Promise<ParseResult<Label>> {
+  return parseDelimited(filePath, LabelSchema, mapping, options);
+}
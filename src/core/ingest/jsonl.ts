@@ -1,77 +1,32 @@
 import { createReadStream } from "fs";
 import { createInterface } from "readline";
-import { z } from "zod";
+import type { z } from "zod";
 import type { Interaction, Artifact, Label } from "../types.js";
-
-// Zod schemas for validation
-// Top-level schemas use looseObject for forward compatibility
-// Nested stable shapes use strict object to catch typos
-
-const RetrievalItemSchema = z.looseObject({
-  artifactId: z.string().optional(),
-  chunkId: z.string().optional(),
-  snippetText: z.string().optional(),
-  score: z.number().optional(),
-});
-
-const InteractionSchema = z.looseObject({
-  interactionId: z.string(),
-  timestamp: z.iso.datetime(),
-  input: z.object({
-    text: z.string(),
-  }),
-  output: z.object({
-    text: z.string(),
-  }).optional(),
-  context: z.looseObject({
-    retrieval: z.object({
-      items: z.array(RetrievalItemSchema),
-    }).optional(),
-  }).optional(),
-  dimensions: z.record(z.string(), z.string()).optional(),
-  tags: z.array(z.string()).optional(),
-  source: z.string().optional(),
-});
-
-const ArtifactSchema = z.looseObject({
-  artifactId: z.string(),
-  type: z.string(),
-  title: z.string().optional(),
-  uri: z.string().optional(),
-  updatedAt: z.iso.datetime().optional(),
-  meta: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
-});
-
-const LabelSchema = z.looseObject({
-  interactionId: z.string(),
-  reviewedAt: z.iso.datetime(),
-  reviewer: z.string(),
-  verdict: z.enum(["pass", "fail", "needs_clarification"]),
-  notes: z.string().optional(),
-  expected: z
-    .object({
-      expectedAnswer: z.string().optional(),
-      mustInclude: z.array(z.string()).optional(),
-      mustNotInclude: z.array(z.string()).optional(),
-      allowedArtifactIds: z.array(z.string()).optional(),
-      blockedArtifactIds: z.array(z.string()).optional(),
-    })
-    .optional(),
-});
+import {
+  InteractionSchema,
+  ArtifactSchema,
+  LabelSchema,
+  issueMessages,
+} from "./schemas.js";
 
 // UTF-8 BOM regex for stripping from first line
 const UTF8_BOM_REGEX = /^\uFEFF/;
 
 // Maximum characters of content to include in error messages
-const MAX_ERROR_CONTENT_LENGTH = 100;
+export const MAX_ERROR_CONTENT_LENGTH = 100;
 
-// Label for root-level validation errors
-const ROOT_ERROR_PATH = "<root>";
+// Report issue for lines that are not valid JSON
+export const INVALID_JSON_ISSUE = "<root>: Invalid JSON";
 
 export interface ParseError {
   line: number;
   error: string;
+  /** Start of the offending line, for display */
   content?: string;
+  /** The complete offending line, for rejects files */
+  raw?: string;
+  /** Individual "path: message" issues, for grouping in reports */
+  issues?: string[];
 }
 
 export interface ParseResult<T> {
@@ -80,15 +35,27 @@ export interface ParseResult<T> {
 }
 
 /**
- * Parse JSONL file and validate each line using streaming
+ * One record read from an input file: a valid item or the reason it was
+ * rejected
  */
-export async function parseJsonl<T>(
-  filePath: string,
-  schema: z.ZodSchema<T>
-): Promise<ParseResult<T>> {
-  const items: T[] = [];
-  const errors: ParseError[] = [];
+export type ParsedRecord<T> = { item: T; error?: undefined } | { item?: undefined; error: ParseError };
+
+export interface ParseOptions {
+  /**
+   * Convert each parsed JSON line before validation (e.g. an ingest adapter).
+   * Throwing reports the line as a ParseError with the thrown message.
+   */
+  transform?: (json: unknown) => unknown;
+}
 
+/**
+ * Stream a JSONL file, validating each line as it is read
+ */
+export async function* streamJsonl<T>(
+  filePath: string,
+  schema: z.ZodSchema<T>,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedRecord<T>> {
   const fileStream = createReadStream(filePath, { encoding: "utf-8" });
   const rl = createInterface({
     input: fileStream,
@@ -96,13 +63,14 @@ export async function parseJsonl<T>(
   });
 
   let lineNumber = 0;
+  let readError: ParseError | undefined;
 
   // Handle stream errors
   fileStream.on("error", (e) => {
-    errors.push({
+    readError = {
       line: lineNumber,
       error: `Read error: ${e.message}`,
-    });
+    };
   });
 
   try {
@@ -119,28 +87,53 @@ export async function parseJsonl<T>(
       const normalized =
         lineNumber === 1 ? trimmed.replace(UTF8_BOM_REGEX, "") : trimmed;
 
+      let json: unknown;
       try {
-        const json = JSON.parse(normalized) as unknown;
-        const result = schema.safeParse(json);
+        json = JSON.parse(normalized);
+      } catch (err) {
+        yield {
+          error: {
+            line: lineNumber,
+            error: err instanceof Error ? err.message : "Invalid JSON",
+            content: normalized.substring(0, MAX_ERROR_CONTENT_LENGTH),
+            raw: line,
+            // Parser messages vary by position; group them under one issue
+            issues: [INVALID_JSON_ISSUE],
+          },
+        };
+        continue;
+      }
+
+      let record: ParsedRecord<T>;
+      try {
+        const result = schema.safeParse(options.transform ? options.transform(json) : json);
 
         if (result.success) {
-          items.push(result.data);
+          record = { item: result.data };
         } else {
-          errors.push({
-            line: lineNumber,
-            error: result.error.issues
-              .map((e) => `${e.path.join(".") || ROOT_ERROR_PATH}: ${e.message}`)
-              .join("; "),
-            content: normalized.substring(0, MAX_ERROR_CONTENT_LENGTH),
-          });
+          const issues = issueMessages(result.error.issues);
+          record = {
+            error: {
+              line: lineNumber,
+              error: issues.join("; "),
+              content: normalized.substring(0, MAX_ERROR_CONTENT_LENGTH),
+              raw: line,
+              issues,
+            },
+          };
         }
       } catch (err) {
-        errors.push({
-          line: lineNumber,
-          error: err instanceof Error ? err.message : "Invalid JSON",
-          content: normalized.substring(0, MAX_ERROR_CONTENT_LENGTH),
-        });
+        // Thrown by the transform
+        record = {
+          error: {
+            line: lineNumber,
+            error: err instanceof Error ? err.message : String(err),
+            content: normalized.substring(0, MAX_ERROR_CONTENT_LENGTH),
+            raw: line,
+          },
+        };
       }
+      yield record;
     }
   } finally {
     // Ensure cleanup
@@ -148,16 +141,50 @@ export async function parseJsonl<T>(
     fileStream.destroy();
   }
 
+  if (readError) {
+    yield { error: readError };
+  }
+}
+
+/**
+ * Collect a record stream into items and errors
+ */
+export async function collectParsed<T>(
+  records: AsyncIterable<ParsedRecord<T>>
+): Promise<ParseResult<T>> {
+  const items: T[] = [];
+  const errors: ParseError[] = [];
+
+  for await (const record of records) {
+    if (record.error) {
+      errors.push(record.error);
+    } else {
+      items.push(record.item);
+    }
+  }
+
   return { items, errors };
 }
 
+/**
+ * Parse JSONL file and validate each line using streaming
+ */
+export async function parseJsonl<T>(
+  filePath: string,
+  schema: z.ZodSchema<T>,
+  options: ParseOptions = {}
+): Promise<ParseResult<T>> {
+  return collectParsed(streamJsonl(filePath, schema, options));
+}
+
 /**
  * Parse interactions from JSONL file
  */
 export async function parseInteractions(
-  filePath: string
+  filePath: string,
+  options?: ParseOptions
 ): Promise<ParseResult<Interaction>> {
-  const result = await parseJsonl(filePath, InteractionSchema);
+  const result = await parseJsonl(filePath, InteractionSchema, options);
   return result as ParseResult<Interaction>;
 }
 
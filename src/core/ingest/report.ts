@@ -0,0 +1,143 @@
+import { createWriteStream } from "fs";
+import type { WriteStream } from "fs";
+import { once } from "events";
+import { dirname, resolve } from "path";
+import type { ParseError, ParseResult } from "./jsonl.js";
+import { ensureDir, writeJson, writeText } from "../../util/fs.js";
+
+// Example line numbers kept per issue in the report
+const MAX_EXAMPLE_LINES = 10;
+
+export interface IssueCount {
+  /** "path: message", e.g. "timestamp: Invalid ISO datetime" */
+  issue: string;
+  /** Number of invalid lines with this issue */
+  count: number;
+  /** First few line numbers with this issue */
+  lines: number[];
+}
+
+export interface ValidationReport {
+  file: string;
+  kind: string;
+  valid: number;
+  invalid: number;
+  /** Most frequent first */
+  issues: IssueCount[];
+}
+
+/**
+ * Issues a parse error counts towards. Errors that did not come from schema
+ * validation (e.g. adapter failures) count under their message.
+ */
+function errorIssues(error: ParseError): string[] {
+  return error.issues && error.issues.length > 0 ? [...new Set(error.issues)] : [error.error];
+}
+
+/**
+ * Builds a validation report one record at a time, for streamed input.
+ * Memory grows with the number of distinct issues, not with the file.
+ */
+export class ValidationReportBuilder {
+  private valid = 0;
+  private invalid = 0;
+  private byIssue = new Map<string, IssueCount>();
+
+  constructor(
+    private readonly kind: string,
+    private readonly filePath: string
+  ) {}
+
+  addValid(count = 1): void {
+    this.valid += count;
+  }
+
+  addError(error: ParseError): void {
+    this.invalid++;
+    for (const issue of errorIssues(error)) {
+      const entry = this.byIssue.get(issue) ?? { issue, count: 0, lines: [] };
+      entry.count++;
+      if (entry.lines.length < MAX_EXAMPLE_LINES) entry.lines.push(error.line);
+      this.byIssue.set(issue, entry);
+    }
+  }
+
+  build(): ValidationReport {
+    return {
+      file: resolve(this.filePath),
+      kind: this.kind,
+      valid: this.valid,
+      invalid: this.invalid,
+      issues: [...this.byIssue.values()].sort(
+        (a, b) => b.count - a.count || a.issue.localeCompare(b.issue)
+      ),
+    };
+  }
+}
+
+/**
+ * Summarize a parse result, counting invalid lines per issue
+ */
+export function buildValidationReport<T>(
+  kind: string,
+  filePath: string,
+  result: ParseResult<T>
+): ValidationReport {
+  const builder = new ValidationReportBuilder(kind, filePath);
+  builder.addValid(result.items.length);
+  for (const error of result.errors) {
+    builder.addError(error);
+  }
+  return builder.build();
+}
+
+export async function writeValidationReport(
+  path: string,
+  report: ValidationReport
+): Promise<void> {
+  await writeJson(path, report);
+}
+
+function formatReject(error: ParseError): string {
+  return JSON.stringify({
+    line: error.line,
+    error: error.error,
+    issues: error.issues,
+    raw: error.raw ?? error.content,
+  });
+}
+
+/**
+ * Write one JSON line per rejected input line: the parse error plus the
+ * complete raw line, so rejects can be fixed and re-ingested
+ */
+export async function writeRejects(path: string, errors: ParseError[]): Promise<void> {
+  const lines = errors.map(formatReject);
+  await writeText(path, lines.length > 0 ? lines.join("\n") + "\n" : "");
+}
+
+/**
+ * Appends rejects (as written by writeRejects) one at a time, for streamed
+ * input
+ */
+export class RejectsWriter {
+  written = 0;
+
+  private constructor(private readonly stream: WriteStream) {}
+
+  static async open(path: string): Promise<RejectsWriter> {
+    await ensureDir(dirname(path));
+    return new RejectsWriter(createWriteStream(path, { encoding: "utf-8" }));
+  }
+
+  async write(error: ParseError): Promise<void> {
+    this.written++;
+    if (!this.stream.write(formatReject(error) + "\n")) {
+      await once(this.stream, "drain");
+    }
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+  }
+}
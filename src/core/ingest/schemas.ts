@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+// Zod schemas for validation
+// Top-level schemas use looseObject for forward compatibility
+// Nested stable shapes use strict object to catch typos
+
+const RetrievalItemSchema = z.looseObject({
+  artifactId: z.string().optional(),
+  chunkId: z.string().optional(),
+  snippetText: z.string().optional(),
+  score: z.number().optional(),
+});
+
+const ChatMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  content: z.string(),
+  context: z.looseObject({
+    retrieval: z.object({
+      items: z.array(RetrievalItemSchema),
+    }).optional(),
+  }).optional(),
+});
+
+/**
+ * Multi-turn records may omit `input`; it defaults to the last user turn
+ * so that single-turn consumers (dedupe, templates) keep working.
+ */
+function deriveInputFromMessages(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  if (record.input !== undefined || !Array.isArray(record.messages)) {
+    return value;
+  }
+
+  const messages = record.messages as Array<{ role?: unknown; content?: unknown }>;
+  const lastUser = [...messages].reverse().find((m) => m?.role === "user");
+  if (!lastUser || typeof lastUser.content !== "string") {
+    return value;
+  }
+  return { ...record, input: { text: lastUser.content } };
+}
+
+export const InteractionSchema = z.preprocess(deriveInputFromMessages, z.looseObject({
+  interactionId: z.string(),
+  timestamp: z.iso.datetime(),
+  input: z.object({
+    text: z.string(),
+  }),
+  output: z.object({
+    text: z.string(),
+  }).optional(),
+  messages: z.array(ChatMessageSchema).optional(),
+  context: z.looseObject({
+    retrieval: z.object({
+      items: z.array(RetrievalItemSchema),
+    }).optional(),
+  }).optional(),
+  dimensions: z.record(z.string(), z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  source: z.string().optional(),
+}));
+
+export const ArtifactSchema = z.looseObject({
+  artifactId: z.string(),
+  type: z.string(),
+  title: z.string().optional(),
+  uri: z.string().optional(),
+  updatedAt: z.iso.datetime().optional(),
+  meta: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+export const LabelSchema = z.looseObject({
+  interactionId: z.string(),
+  reviewedAt: z.iso.datetime(),
+  reviewer: z.string(),
+  verdict: z.enum(["pass", "fail", "needs_clarification"]),
+  notes: z.string().optional(),
+  expected: z
+    .object({
+      expectedAnswer: z.string().optional(),
+      mustInclude: z.array(z.string()).optional(),
+      mustNotInclude: z.array(z.string()).optional(),
+      allowedArtifactIds: z.array(z.string()).optional(),
+      blockedArtifactIds: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+// Label for root-level validation errors
+const ROOT_ERROR_PATH = "<root>";
+
+/**
+ * Format each Zod issue as a "path: message" pair
+ */
+export function issueMessages(issues: z.core.$ZodIssue[]): string[] {
+  return issues.map((e) => `${e.path.join(".") || ROOT_ERROR_PATH}: ${e.message}`);
+}
+
+/**
+ * Format Zod issues as "path: message" pairs joined by "; "
+ */
+export function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issueMessages(issues).join("; ");
+}
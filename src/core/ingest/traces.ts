@@ -0,0 +1,324 @@
+import { readFile } from "fs/promises";
+import type { Interaction, RetrievalItem } from "../types.js";
+import { InteractionSchema, issueMessages } from "./schemas.js";
+import { INVALID_JSON_ISSUE, MAX_ERROR_CONTENT_LENGTH } from "./jsonl.js";
+import type { ParseError, ParseResult } from "./jsonl.js";
+
+// OTLP/JSON span shapes (only the fields we read)
+interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string | number;
+  doubleValue?: number;
+  boolValue?: boolean;
+  arrayValue?: { values?: OtlpAnyValue[] };
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  attributes?: Array<{ key: string; value?: OtlpAnyValue }>;
+}
+
+interface OtlpExport {
+  resourceSpans?: Array<{
+    scopeSpans?: Array<{ spans?: OtlpSpan[] }>;
+  }>;
+}
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: bigint;
+  attributes: Record<string, unknown>;
+  line: number;
+}
+
+export interface TraceParseResult extends ParseResult<Interaction> {
+  traceCount: number;
+}
+
+interface ExportLine {
+  line: number;
+  data: OtlpExport;
+}
+
+// Attribute keys, in lookup order (OpenInference, then OTel GenAI conventions)
+const SPAN_KIND_KEY = "openinference.span.kind";
+const INPUT_KEYS = ["input.value", "gen_ai.prompt", "llm.prompt"];
+const OUTPUT_KEYS = ["output.value", "gen_ai.completion", "llm.completion"];
+const MODEL_KEYS = ["llm.model_name", "gen_ai.request.model", "gen_ai.response.model"];
+const DOCUMENTS_PREFIX = "retrieval.documents.";
+
+const TRACE_SOURCE = "traces";
+
+function anyValue(value: OtlpAnyValue | undefined): unknown {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(anyValue);
+  return undefined;
+}
+
+function invalidJson(line: number, err: unknown, raw: string): ParseError {
+  return {
+    line,
+    error: err instanceof Error ? err.message : "Invalid JSON",
+    content: raw.substring(0, MAX_ERROR_CONTENT_LENGTH),
+    raw,
+    issues: [INVALID_JSON_ISSUE],
+  };
+}
+
+/**
+ * Read OTLP JSON exports: either one JSON document, or one export per line
+ * as written by the collector file exporter. Lines that are not valid JSON
+ * are reported and skipped; when none is valid, the file is reported as one
+ * broken document.
+ */
+async function readExports(filePath: string): Promise<{ exports: ExportLine[]; errors: ParseError[] }> {
+  const text = (await readFile(filePath, "utf-8")).replace(/^\uFEFF/, "");
+
+  let documentError: unknown;
+  try {
+    return { exports: [{ line: 1, data: JSON.parse(text) as OtlpExport }], errors: [] };
+  } catch (err) {
+    // Fall through to JSONL
+    documentError = err;
+  }
+
+  const exports: ExportLine[] = [];
+  const errors: ParseError[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      exports.push({ line: i + 1, data: JSON.parse(line) as OtlpExport });
+    } catch (err) {
+      errors.push(invalidJson(i + 1, err, line));
+    }
+  });
+
+  if (exports.length === 0 && errors.length > 1) {
+    return { exports, errors: [invalidJson(1, documentError, text)] };
+  }
+  return { exports, errors };
+}
+
+// Latest time a Date can hold, in nanoseconds either side of the epoch
+const MAX_START_TIME_NANO = 8_640_000_000_000_000n * 1_000_000n;
+
+// A span's start time, or undefined when it is not an integer or no Date
+// can hold it
+function startTime(value: string | number | undefined): bigint | undefined {
+  let nanos: bigint;
+  try {
+    nanos = BigInt(value ?? 0);
+  } catch {
+    return undefined;
+  }
+  return nanos >= -MAX_START_TIME_NANO && nanos <= MAX_START_TIME_NANO ? nanos : undefined;
+}
+
+/**
+ * Flatten exports into spans. A span whose start time is not an integer,
+ * or is out of range, is reported on its line, and its trace is listed as
+ * incomplete.
+ */
+function collectSpans(exports: ExportLine[]): {
+  spans: Span[];
+  errors: ParseError[];
+  incomplete: Set<string>;
+} {
+  const spans: Span[] = [];
+  const errors: ParseError[] = [];
+  const incomplete = new Set<string>();
+
+  for (const { line, data } of exports) {
+    for (const resource of data.resourceSpans ?? []) {
+      for (const scope of resource.scopeSpans ?? []) {
+        for (const span of scope.spans ?? []) {
+          if (!span.traceId || !span.spanId) continue;
+
+          const startTimeUnixNano = startTime(span.startTimeUnixNano);
+          if (startTimeUnixNano === undefined) {
+            const issue = `startTimeUnixNano: Invalid start time ${JSON.stringify(span.startTimeUnixNano)}`;
+            const raw = JSON.stringify(span);
+            errors.push({
+              line,
+              error: `span ${span.spanId} of trace ${span.traceId}: ${issue}`,
+              content: raw.substring(0, MAX_ERROR_CONTENT_LENGTH),
+              raw,
+              issues: [issue],
+            });
+            incomplete.add(span.traceId);
+            continue;
+          }
+
+          const attributes: Record<string, unknown> = {};
+          for (const attr of span.attributes ?? []) {
+            attributes[attr.key] = anyValue(attr.value);
+          }
+
+          spans.push({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || undefined,
+            name: span.name ?? "",
+            startTimeUnixNano,
+            attributes,
+            line,
+          });
+        }
+      }
+    }
+  }
+
+  return { spans, errors, incomplete };
+}
+
+function firstString(spans: Span[], keys: string[]): string | undefined {
+  for (const span of spans) {
+    for (const key of keys) {
+      const value = span.attributes[key];
+      if (typeof value === "string" && value.length > 0) return value;
+    }
+  }
+  return undefined;
+}
+
+function isLlmSpan(span: Span): boolean {
+  return (
+    span.attributes[SPAN_KIND_KEY] === "LLM" ||
+    MODEL_KEYS.some((key) => span.attributes[key] !== undefined)
+  );
+}
+
+function isRetrievalSpan(span: Span): boolean {
+  return (
+    span.attributes[SPAN_KIND_KEY] === "RETRIEVER" ||
+    Object.keys(span.attributes).some((key) => key.startsWith(DOCUMENTS_PREFIX))
+  );
+}
+
+/**
+ * Extract retrieval items from flattened OpenInference document attributes
+ * (retrieval.documents.<i>.document.{id,chunk_id,content,score})
+ */
+function retrievalItems(span: Span): RetrievalItem[] {
+  const byIndex = new Map<number, RetrievalItem>();
+
+  for (const [key, value] of Object.entries(span.attributes)) {
+    const match = /^retrieval\.documents\.(\d+)\.document\.(id|chunk_id|content|score)$/.exec(key);
+    if (!match) continue;
+
+    const index = Number(match[1]);
+    const item = byIndex.get(index) ?? {};
+    switch (match[2]) {
+      case "id":
+        item.artifactId = String(value);
+        break;
+      case "chunk_id":
+        item.chunkId = String(value);
+        break;
+      case "content":
+        item.snippetText = String(value);
+        break;
+      case "score":
+        item.score = Number(value);
+        break;
+    }
+    byIndex.set(index, item);
+  }
+
+  return [...byIndex.entries()].sort((a, b) => a[0] - b[0]).map(([, item]) => item);
+}
+
+/**
+ * Reassemble one trace into an interaction-shaped object
+ */
+function assembleTrace(traceId: string, spans: Span[]): Record<string, unknown> {
+  const ordered = [...spans].sort((a, b) =>
+    a.startTimeUnixNano < b.startTimeUnixNano ? -1 : a.startTimeUnixNano > b.startTimeUnixNano ? 1 : 0
+  );
+  const ids = new Set(ordered.map((s) => s.spanId));
+  const root = ordered.find((s) => !s.parentSpanId || !ids.has(s.parentSpanId)) ?? ordered[0];
+  const llm = isLlmSpan(root) ? root : ordered.find(isLlmSpan);
+
+  // Prefer the LLM span's attributes, then the root span's
+  const sources = llm && llm !== root ? [llm, root] : [root];
+
+  const items = ordered.filter(isRetrievalSpan).flatMap(retrievalItems);
+  const output = firstString(sources, OUTPUT_KEYS);
+  const model = firstString(sources, MODEL_KEYS);
+
+  const record: Record<string, unknown> = {
+    interactionId: `trace:${traceId}`,
+    timestamp: new Date(Number(root.startTimeUnixNano / 1_000_000n)).toISOString(),
+    input: { text: firstString(sources, INPUT_KEYS) },
+    source: TRACE_SOURCE,
+  };
+  if (output !== undefined) record.output = { text: output };
+  if (items.length > 0) record.context = { retrieval: { items } };
+  if (model !== undefined) record.dimensions = { model };
+
+  return record;
+}
+
+/**
+ * Parse OpenTelemetry span exports into one interaction per trace.
+ * Errors are reported per trace, on the first line holding one of its
+ * spans; lines that are not JSON and spans that cannot be read are
+ * reported on their own line, and a trace missing a span is skipped
+ * rather than stored incomplete.
+ */
+export async function parseTraces(filePath: string): Promise<TraceParseResult> {
+  const items: Interaction[] = [];
+  let read: { exports: ExportLine[]; errors: ParseError[] };
+  try {
+    read = await readExports(filePath);
+  } catch (err) {
+    const error = `Read error: ${err instanceof Error ? err.message : String(err)}`;
+    return { items, errors: [{ line: 0, error }], traceCount: 0 };
+  }
+
+  const { spans, errors: spanErrors, incomplete } = collectSpans(read.exports);
+  const errors = [...read.errors, ...spanErrors];
+
+  const traces = new Map<string, Span[]>();
+  for (const span of spans) {
+    const group = traces.get(span.traceId);
+    if (group) group.push(span);
+    else traces.set(span.traceId, [span]);
+  }
+
+  for (const [traceId, traceSpans] of traces) {
+    if (incomplete.has(traceId)) continue;
+    const record = assembleTrace(traceId, traceSpans);
+    const line = Math.min(...traceSpans.map((s) => s.line));
+    const result = InteractionSchema.safeParse(record);
+
+    if (!result.success) {
+      const issues = issueMessages(result.error.issues);
+      const raw = JSON.stringify(record);
+      errors.push({
+        line,
+        error: `trace ${traceId}: ${issues.join("; ")}`,
+        content: raw.substring(0, MAX_ERROR_CONTENT_LENGTH),
+        raw,
+        issues,
+      });
+      continue;
+    }
+
+    items.push(result.data as Interaction);
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { items, errors, traceCount: new Set([...traces.keys(), ...incomplete]).size };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { computeAgreement, formatAgreement, ratingsFromLabels } from "../agreement.js";
+import type { Rating } from "../agreement.js";
+import type { Label } from "../../types.js";
+
+function ratings(rater: string, verdicts: Label["verdict"][], offset = 0): Rating[] {
+  return verdicts.map((verdict, i) => ({ interactionId: String(i + offset), rater, verdict }));
+}
+
+describe("label agreement", () => {
+  it("computes Cohen's kappa and the confusion matrix for a pair", () => {
+    // 20 both pass, 5 alice pass/bob fail, 10 alice fail/bob pass, 15 both fail
+    const alice: Label["verdict"][] = [
+      ...Array<Label["verdict"]>(25).fill("pass"),
+      ...Array<Label["verdict"]>(25).fill("fail"),
+    ];
+    const bob: Label["verdict"][] = [
+      ...Array<Label["verdict"]>(20).fill("pass"),
+      ...Array<Label["verdict"]>(5).fill("fail"),
+      ...Array<Label["verdict"]>(10).fill("pass"),
+      ...Array<Label["verdict"]>(15).fill("fail"),
+    ];
+
+    const report = computeAgreement([...ratings("alice", alice), ...ratings("bob", bob)]);
+    const [pair] = report.pairs;
+
+    expect(pair.raters).toEqual(["alice", "bob"]);
+    expect(pair.items).toBe(50);
+    expect(pair.percentAgreement).toBeCloseTo(0.7);
+    expect(pair.kappa).toBeCloseTo(0.4);
+    expect(pair.confusion.pass).toEqual({ pass: 20, fail: 5, needs_clarification: 0 });
+    expect(pair.confusion.fail).toEqual({ pass: 10, fail: 15, needs_clarification: 0 });
+  });
+
+  it("computes Fleiss' kappa and lists the most disputed interactions", () => {
+    const report = computeAgreement(
+      [
+        ...ratings("alice", ["pass", "pass", "fail", "pass"]),
+        ...ratings("bob", ["pass", "pass", "fail", "fail"]),
+        ...ratings("carol", ["pass", "fail", "fail", "needs_clarification"]),
+      ],
+      { top: 5 }
+    );
+
+    expect(report.raters).toEqual(["alice", "bob", "carol"]);
+    expect(report.pairs).toHaveLength(3);
+    expect(report.overall.items).toBe(4);
+    expect(report.overall.percentAgreement).toBeCloseTo(0.5);
+    expect(report.overall.kappa).toBeCloseTo(11 / 41);
+    expect(report.disagreements.map((d) => d.interactionId)).toEqual(["3", "1"]);
+    expect(report.disagreements[0].verdicts).toEqual({
+      alice: "pass",
+      bob: "fail",
+      carol: "needs_clarification",
+    });
+  });
+
+  it("only counts interactions rated by two or more raters", () => {
+    const report = computeAgreement([
+      ...ratings("alice", ["pass", "fail", "pass"]),
+      ...ratings("bob", ["pass"], 2),
+    ]);
+
+    expect(report.pairs[0].items).toBe(1);
+    expect(report.overall.items).toBe(1);
+    // Everyone gave the one same verdict: kappa is undefined
+    expect(report.overall.kappa).toBeNull();
+    expect(report.disagreements).toEqual([]);
+  });
+
+  it("breaks agreement down by dimension", () => {
+    const interactions = [
+      { interactionId: "0", dimensions: { intent: "refund" } },
+      { interactionId: "1", dimensions: { intent: "refund" } },
+      { interactionId: "2", dimensions: { intent: "billing" } },
+    ];
+
+    const report = computeAgreement(
+      [
+        ...ratings("alice", ["pass", "fail", "pass", "fail"]),
+        ...ratings("bob", ["pass", "pass", "pass", "pass"]),
+      ],
+      { by: "intent", interactions }
+    );
+
+    expect(report.byDimension?.groups.map((g) => [g.value, g.items, g.percentAgreement])).toEqual([
+      ["refund", 2, 0.5],
+      ["(none)", 1, 0],
+      ["billing", 1, 1],
+    ]);
+    expect(formatAgreement(report)).toContain("By intent:");
+  });
+
+  it("rates with each reviewer's most recent label", () => {
+    const labels: Label[] = [
+      { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-01T00:00:00Z", verdict: "fail" },
+      { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-02T00:00:00Z", verdict: "pass" },
+      { interactionId: "1", reviewer: "bob", reviewedAt: "2026-01-01T00:00:00Z", verdict: "pass" },
+    ];
+
+    expect(ratingsFromLabels(labels)).toEqual([
+      { interactionId: "1", rater: "alice", verdict: "pass" },
+      { interactionId: "1", rater: "bob", verdict: "pass" },
+    ]);
+  });
+
+  it("leaves template placeholders out of the ratings", () => {
+    const labels: Label[] = [
+      { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-01T00:00:00Z", verdict: "fail" },
+      // A half-filled template: bob has not reviewed 1, nobody has reviewed 2
+      { interactionId: "1", reviewer: "bob", reviewedAt: "2026-01-02T00:00:00Z", verdict: "needs_clarification", notes: "" },
+      { interactionId: "2", reviewer: "anonymous", reviewedAt: "2026-01-02T00:00:00Z", verdict: "needs_clarification", notes: "" },
+      // bob's own needs_clarification is a verdict
+      { interactionId: "3", reviewer: "bob", reviewedAt: "2026-01-02T00:00:00Z", verdict: "needs_clarification" },
+    ];
+
+    expect(ratingsFromLabels(labels)).toEqual([
+      { interactionId: "1", rater: "alice", verdict: "fail" },
+      { interactionId: "3", rater: "bob", verdict: "needs_clarification" },
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { assignReviewers, assignmentStatus, formatAssignmentStatus } from "../assign.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import type { Assignment, Interaction, Label } from "../../types.js";
+
+// 40 refund, 20 account and 10 shipping interactions
+const sample: Interaction[] = [
+  ...Array.from({ length: 40 }, (_, i) => ["refund", i] as const),
+  ...Array.from({ length: 20 }, (_, i) => ["account", i] as const),
+  ...Array.from({ length: 10 }, (_, i) => ["shipping", i] as const),
+].map(([intent, i]) => ({
+  interactionId: `${intent}-${i}`,
+  timestamp: "2026-01-05T10:00:00Z",
+  input: { text: `question ${i}` },
+  dimensions: { intent },
+}));
+
+function intents(interactions: Interaction[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const i of interactions) counts[i.dimensions!.intent] = (counts[i.dimensions!.intent] ?? 0) + 1;
+  return counts;
+}
+
+describe("reviewer assignment", () => {
+  it("balances each stratum across reviewers", () => {
+    const plan = assignReviewers(sample, { reviewers: ["alice", "bob", "carol", "dave"], by: ["intent"], seed: 7 });
+
+    expect(plan.overlapIds.size).toBe(0);
+    for (const interactions of plan.byReviewer.values()) {
+      expect(interactions.length).toBeGreaterThanOrEqual(17);
+      expect(interactions.length).toBeLessThanOrEqual(18);
+      const counts = intents(interactions);
+      expect(counts.refund).toBe(10);
+      expect(counts.account).toBe(5);
+      expect(counts.shipping).toBeGreaterThanOrEqual(2);
+      expect(counts.shipping).toBeLessThanOrEqual(3);
+    }
+
+    const all = [...plan.byReviewer.values()].flat().map((i) => i.interactionId);
+    expect(new Set(all).size).toBe(sample.length);
+    expect(all).toHaveLength(sample.length);
+  });
+
+  it("gives a stratified overlap share to two different reviewers", () => {
+    const options = { reviewers: ["alice", "bob", "carol"], overlap: 0.2, by: ["intent"], seed: 7 };
+    const plan = assignReviewers(sample, options);
+
+    expect(plan.overlapIds.size).toBe(14);
+    expect(intents(sample.filter((i) => plan.overlapIds.has(i.interactionId)))).toEqual({
+      refund: 8,
+      account: 4,
+      shipping: 2,
+    });
+    for (const id of plan.overlapIds) {
+      const holders = [...plan.byReviewer].filter(([, list]) => list.some((i) => i.interactionId === id));
+      expect(holders).toHaveLength(2);
+    }
+    const loads = [...plan.byReviewer.values()].map((list) => list.length);
+    expect(Math.max(...loads) - Math.min(...loads)).toBeLessThanOrEqual(1);
+
+    // Same seed, same split
+    const again = assignReviewers(sample, options);
+    expect([...again.byReviewer.get("bob")!].map((i) => i.interactionId)).toEqual(
+      plan.byReviewer.get("bob")!.map((i) => i.interactionId)
+    );
+
+    expect(() => assignReviewers(sample, { reviewers: ["alice"], overlap: 0.1 })).toThrow(
+      "Overlap needs at least two reviewers"
+    );
+    expect(() => assignReviewers(sample, { reviewers: ["alice", "bob"], overlap: 1.5 })).toThrow("Invalid overlap");
+  });
+
+  it("reports progress and outstanding interactions from stored assignments", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "goldenset-assign-test-"));
+    try {
+      const store = new SQLiteStore(join(tempDir, "db.sqlite"));
+      const assignedAt = "2026-02-01T00:00:00.000Z";
+      const assignment = (interactionId: string, reviewer: string, overlap = false): Assignment => ({
+        name: "sample",
+        interactionId,
+        reviewer,
+        assignedAt,
+        overlap,
+      });
+      store.replaceAssignments("old", [
+        { ...assignment("x", "alice"), name: "old", assignedAt: "2026-01-01T00:00:00Z" },
+      ]);
+      store.replaceAssignments("sample", [assignment("1", "alice"), assignment("3", "alice")]);
+      store.replaceAssignments("sample", [
+        assignment("1", "alice"),
+        assignment("2", "alice", true),
+        assignment("2", "bob", true),
+        assignment("3", "bob"),
+      ]);
+
+      expect(store.getLatestAssignmentName()).toBe("sample");
+      const assignments = store.getAssignments("sample");
+      store.close();
+      expect(assignments).toHaveLength(4);
+
+      const labels: Label[] = [
+        { interactionId: "1", reviewer: "alice", reviewedAt: "2026-02-02T00:00:00Z", verdict: "needs_clarification" },
+        { interactionId: "1", reviewer: "alice", reviewedAt: "2026-02-03T00:00:00Z", verdict: "pass" },
+        { interactionId: "2", reviewer: "alice", reviewedAt: "2026-02-03T00:00:00Z", verdict: "needs_clarification" },
+        { interactionId: "3", reviewer: "alice", reviewedAt: "2026-02-03T00:00:00Z", verdict: "fail" },
+      ];
+      const status = assignmentStatus(assignments, labels);
+
+      expect(status).toMatchObject({ name: "sample", assignedAt, interactions: 3, overlap: 1 });
+      expect(status.reviewers).toEqual([
+        { reviewer: "alice", assigned: 2, done: 1, needsClarification: 1, outstanding: [] },
+        { reviewer: "bob", assigned: 2, done: 0, needsClarification: 0, outstanding: ["2", "3"] },
+      ]);
+
+      const text = formatAssignmentStatus(status, 1);
+      expect(text).toContain("  Total             4      1        1            2     25.0%");
+      expect(text).toContain("  bob: 2 ... and 1 more");
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("leaves interactions with only a placeholder or an earlier label outstanding", () => {
+    const assignedAt = "2026-02-01T00:00:00.000Z";
+    const assignments: Assignment[] = ["1", "2", "3"].map((interactionId) => ({
+      name: "sample",
+      interactionId,
+      reviewer: "alice",
+      assignedAt,
+      overlap: false,
+    }));
+    const labels: Label[] = [
+      // An assignment template ingested unedited
+      { interactionId: "1", reviewer: "alice", reviewedAt: assignedAt, verdict: "needs_clarification", notes: "" },
+      // Reviewed before this round
+      { interactionId: "2", reviewer: "alice", reviewedAt: "2026-01-15T00:00:00Z", verdict: "pass" },
+      { interactionId: "3", reviewer: "alice", reviewedAt: "2026-01-15T00:00:00Z", verdict: "pass" },
+      { interactionId: "3", reviewer: "alice", reviewedAt: "2026-02-02T00:00:00Z", verdict: "needs_clarification" },
+    ];
+
+    expect(assignmentStatus(assignments, labels).reviewers).toEqual([
+      { reviewer: "alice", assigned: 3, done: 0, needsClarification: 1, outstanding: ["1", "2"] },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { checkLabel, checkLabels, formatCheckReport } from "../check.js";
+import type { Interaction, Label } from "../../types.js";
+
+const interactions: Interaction[] = [
+  {
+    interactionId: "1",
+    timestamp: "2026-01-05T10:00:00Z",
+    input: { text: "How do refunds work?" },
+    output: { text: "Refunds are issued within 30\n  DAYS, and shipping is Non-Refundable." },
+    context: { retrieval: { items: [{ artifactId: "kb-1" }, { artifactId: "kb-old" }, { artifactId: "kb-3" }] } },
+    dimensions: { intent: "refund" },
+  },
+  {
+    interactionId: "2",
+    timestamp: "2026-01-06T10:00:00Z",
+    input: { text: "Reset my password" },
+    messages: [
+      { role: "user", content: "Reset my password" },
+      {
+        role: "assistant",
+        content: "Use the reset link on the sign-in page.",
+        context: { retrieval: { items: [{ artifactId: "kb-2" }] } },
+      },
+    ],
+    dimensions: { intent: "account" },
+  },
+];
+
+function label(interactionId: string, reviewer: string, verdict: Label["verdict"], expected?: Label["expected"]): Label {
+  return { interactionId, reviewer, reviewedAt: "2026-01-07T00:00:00Z", verdict, ...(expected ? { expected } : {}) };
+}
+
+describe("label check", () => {
+  it("checks phrases ignoring case and whitespace, and retrieved artifacts", () => {
+    const result = checkLabel(
+      label("1", "alice", "pass", {
+        mustInclude: ["within 30 days", "store credit"],
+        mustNotInclude: ["non-refundable"],
+        allowedArtifactIds: ["kb-1"],
+        blockedArtifactIds: ["kb-old"],
+      }),
+      interactions[0]
+    );
+
+    expect(result.violations).toEqual([
+      { kind: "missing-phrase", values: ["store credit"] },
+      { kind: "forbidden-phrase", values: ["non-refundable"] },
+      { kind: "blocked-artifact", values: ["kb-old"] },
+      { kind: "unlisted-artifact", values: ["kb-3"] },
+    ]);
+    expect(result.contradiction).toBe(true);
+
+    // Conversations are checked against the assistant turns
+    const chat = checkLabel(
+      label("2", "alice", "pass", { mustInclude: ["reset link"], allowedArtifactIds: ["kb-2"] }),
+      interactions[1]
+    );
+    expect(chat.violations).toEqual([]);
+  });
+
+  it("flags only pass verdicts as contradictions and groups by dimension", () => {
+    const labels = [
+      label("1", "alice", "pass", { mustNotInclude: ["non-refundable"] }),
+      label("1", "bob", "fail", { mustNotInclude: ["non-refundable"] }),
+      label("1", "carol", "pass", { expectedAnswer: "30 days" }),
+      label("2", "alice", "pass", { mustInclude: ["reset link"] }),
+      label("3", "alice", "pass", { mustInclude: ["anything"] }),
+    ];
+
+    const report = checkLabels(labels, interactions, "intent");
+    expect(report).toMatchObject({ checked: 3, violations: 2, contradictions: 1, unconstrained: 1 });
+    expect(report.missingInteractions).toEqual(["3"]);
+    expect(report.groups.map((g) => [g.value, g.checked, g.violations, g.contradictions])).toEqual([
+      ["refund", 2, 2, 1],
+      ["account", 1, 0, 0],
+    ]);
+    expect(report.groups[0].flagged.map((f) => [f.label, f.contradiction])).toEqual([
+      ["1 (alice, 2026-01-07T00:00:00Z)", true],
+      ["1 (bob, 2026-01-07T00:00:00Z)", false],
+    ]);
+  });
+
+  it("formats the report", () => {
+    const report = checkLabels([label("1", "alice", "pass", { blockedArtifactIds: ["kb-old"] })], interactions, "intent");
+    const text = formatCheckReport(report);
+
+    expect(text).toContain("Contradictions (pass despite violations): 1");
+    expect(text).toContain("intent=refund:");
+    expect(text).toContain("  ! 1 (alice, 2026-01-07T00:00:00Z) pass: retrieved blocked kb-old");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { formatLintReport, lintLabels, parseRuleSeverity } from "../lint.js";
+import { LintConfigSchema } from "../config.js";
+import type { Interaction, Label } from "../../types.js";
+
+const interactions = new Map<string, Interaction>([
+  ["1", { interactionId: "1", timestamp: "2026-01-05T10:00:00Z", input: { text: "How do refunds work?" } }],
+  ["2", { interactionId: "2", timestamp: "2026-01-06T10:00:00Z", input: { text: "Reset my password" } }],
+]);
+
+const labels: Label[] = [
+  { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-07T00:00:00Z", verdict: "needs_clarification" },
+  { interactionId: "1", reviewer: "bob", reviewedAt: "2026-01-07T00:00:00Z", verdict: "fail", notes: " " },
+  {
+    interactionId: "2",
+    reviewer: "alice",
+    reviewedAt: "2026-01-06T09:00:00Z",
+    verdict: "pass",
+    expected: { allowedArtifactIds: ["kb-1", "kb-2"], blockedArtifactIds: ["kb-2", "kb-9"] },
+  },
+  { interactionId: "2", reviewer: "alice", reviewedAt: "2026-01-08T00:00:00Z", verdict: "pass" },
+];
+
+describe("label lint", () => {
+  it("reports each rule with its default severity", () => {
+    const report = lintLabels(labels, { interactions, knownArtifactIds: new Set(["kb-1", "kb-2"]) });
+
+    expect(report.problems.map((p) => [p.rule, p.severity, p.label])).toEqual([
+      ["needs-clarification", "warning", "1 (alice, 2026-01-07T00:00:00Z)"],
+      ["fail-without-notes", "error", "1 (bob, 2026-01-07T00:00:00Z)"],
+      ["duplicate-label", "error", "2 (alice, 2026-01-06T09:00:00Z)"],
+      ["reviewed-before-interaction", "error", "2 (alice, 2026-01-06T09:00:00Z)"],
+      ["allowed-blocked-overlap", "error", "2 (alice, 2026-01-06T09:00:00Z)"],
+      ["unknown-artifact", "warning", "2 (alice, 2026-01-06T09:00:00Z)"],
+      ["duplicate-label", "error", "2 (alice, 2026-01-08T00:00:00Z)"],
+    ]);
+    expect(report.problems[4].message).toBe("artifacts both allowed and blocked: kb-2");
+    expect(report.problems[5].message).toBe("unknown artifacts: kb-9");
+    expect(report.errors).toBe(5);
+    expect(report.warnings).toBe(2);
+    expect(report.skipped).toEqual([]);
+  });
+
+  it("applies severity overrides and turns rules off", () => {
+    const report = lintLabels(labels, { interactions }, {
+      "needs-clarification": "error",
+      "duplicate-label": "off",
+      "fail-without-notes": "warning",
+    });
+
+    expect(report.problems.map((p) => [p.rule, p.severity])).toEqual([
+      ["needs-clarification", "error"],
+      ["fail-without-notes", "warning"],
+      ["reviewed-before-interaction", "error"],
+      ["allowed-blocked-overlap", "error"],
+    ]);
+  });
+
+  it("skips rules that lack the interactions or the store", () => {
+    const report = lintLabels(labels.slice(0, 1));
+    expect(report.skipped).toEqual(["reviewed-before-interaction", "unknown-artifact"]);
+    expect(formatLintReport(report, "labels.jsonl")).toBe(
+      [
+        "  warning needs-clarification          1 (alice, 2026-01-07T00:00:00Z): verdict is still needs_clarification",
+        "  skipped reviewed-before-interaction: needs --sample or the project store",
+        "  skipped unknown-artifact: needs the project store",
+        "labels.jsonl: 0 errors, 1 warnings",
+      ].join("\n")
+    );
+
+    const quiet = lintLabels([], {}, { "reviewed-before-interaction": "off", "unknown-artifact": "off" });
+    expect(formatLintReport(quiet, "labels.jsonl")).toBe("labels.jsonl: no problems");
+  });
+
+  it("parses rule severities from --rule and labels.json", () => {
+    expect(parseRuleSeverity("needs-clarification=error")).toEqual(["needs-clarification", "error"]);
+    expect(() => parseRuleSeverity("no-such-rule=error")).toThrow("Unknown lint rule: no-such-rule");
+    expect(() => parseRuleSeverity("duplicate-label=fatal")).toThrow("Invalid severity for duplicate-label: fatal");
+
+    expect(LintConfigSchema.safeParse({ rules: { "unknown-artifact": "off" } }).success).toBe(true);
+    expect(LintConfigSchema.safeParse({ rules: { "unknown-artifact": "fatal" } }).success).toBe(false);
+  });
+});
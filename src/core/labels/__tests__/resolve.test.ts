@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { latestPerReviewer, resolveLabel, resolveLabels } from "../resolve.js";
+import { ResolutionSchema } from "../config.js";
+import type { Label } from "../../types.js";
+
+function label(reviewer: string, day: number, verdict: Label["verdict"], interactionId = "1"): Label {
+  return { interactionId, reviewer, reviewedAt: `2026-01-0${day}T00:00:00Z`, verdict };
+}
+
+describe("label resolution", () => {
+  // alice changed her mind; bob and carol disagree
+  const labels = [
+    label("alice", 1, "fail"),
+    label("bob", 2, "pass"),
+    label("carol", 3, "fail"),
+    label("alice", 4, "pass"),
+  ];
+
+  it("only counts each reviewer's most recent label", () => {
+    expect(latestPerReviewer(labels).map((l) => `${l.reviewer}:${l.verdict}`)).toEqual([
+      "alice:pass",
+      "carol:fail",
+      "bob:pass",
+    ]);
+  });
+
+  it("applies each policy", () => {
+    expect(resolveLabel(labels, { policy: "latest" })).toEqual(label("alice", 4, "pass"));
+    expect(resolveLabel(labels, { policy: "majority" })).toEqual(label("alice", 4, "pass"));
+    expect(resolveLabel(labels, { policy: "strictest" })).toEqual(label("carol", 3, "fail"));
+    expect(resolveLabel(labels, { policy: "reviewer-priority", reviewers: ["dave", "bob"] })).toEqual(
+      label("bob", 2, "pass")
+    );
+    // Nobody listed reviewed it
+    expect(resolveLabel(labels, { policy: "reviewer-priority", reviewers: ["dave"] })).toEqual(
+      label("alice", 4, "pass")
+    );
+  });
+
+  it("breaks majority ties by recency", () => {
+    const tied = [label("bob", 2, "pass"), label("carol", 3, "fail")];
+    expect(resolveLabel(tied, { policy: "majority" })?.reviewer).toBe("carol");
+  });
+
+  it("resolves one label per interaction", () => {
+    const resolved = resolveLabels([...labels, label("bob", 1, "fail", "2")], { policy: "strictest" });
+    expect(resolved.map((l) => [l.interactionId, l.reviewer])).toEqual([
+      ["1", "carol"],
+      ["2", "bob"],
+    ]);
+    expect(resolveLabels([])).toEqual([]);
+  });
+
+  it("requires reviewers for reviewer-priority", () => {
+    expect(ResolutionSchema.safeParse({ policy: "reviewer-priority" }).success).toBe(false);
+    expect(ResolutionSchema.safeParse({ policy: "majority" }).success).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyReviewAction,
+  reviewedLabels,
+  setExpected,
+  startReview,
+  summarizeReview,
+} from "../review.js";
+import { TEMPLATE_REVIEWER, buildLabelTemplate } from "../template.js";
+import type { ReviewAction, ReviewState } from "../review.js";
+import type { Interaction, Label } from "../../types.js";
+
+const interactions: Interaction[] = ["1", "2", "3"].map((interactionId) => ({
+  interactionId,
+  timestamp: "2026-01-01T00:00:00Z",
+  input: { text: `question ${interactionId}` },
+}));
+
+const now = new Date("2026-02-01T00:00:00Z");
+
+function run(state: ReviewState, actions: ReviewAction[]): ReviewState {
+  return actions.reduce((s, action) => applyReviewAction(s, action, now), state);
+}
+
+describe("review session", () => {
+  it("labels with the draft's notes and expected fields and moves on", () => {
+    const state = run(startReview(interactions, [], "alice"), [
+      { type: "notes", notes: "cites the wrong policy" },
+      { type: "expected", field: "mustInclude", value: "30 days, receipt" },
+      { type: "verdict", verdict: "fail" },
+    ]);
+
+    expect(state.index).toBe(1);
+    expect(state.draft).toEqual({});
+    expect(state.labels.get("1")).toEqual({
+      interactionId: "1",
+      reviewedAt: now.toISOString(),
+      reviewer: "alice",
+      verdict: "fail",
+      notes: "cites the wrong policy",
+      expected: { mustInclude: ["30 days", "receipt"] },
+    });
+  });
+
+  it("skips and goes back", () => {
+    const state = run(startReview(interactions, [], "alice"), [
+      { type: "verdict", verdict: "pass" },
+      { type: "skip" },
+      { type: "back" },
+      { type: "back" },
+      { type: "back" },
+    ]);
+
+    expect(state.index).toBe(0);
+    // Back on a labeled interaction, its notes are the draft again
+    expect(state.draft).toEqual({ notes: undefined, expected: undefined });
+    expect(summarizeReview(state)).toMatchObject({ reviewed: 1, labeledNow: 1, skipped: 1, remaining: 2 });
+
+    // Labeling a skipped interaction takes it off the skipped list
+    const relabeled = run(state, [{ type: "skip" }, { type: "verdict", verdict: "fail" }]);
+    expect(relabeled.skipped.size).toBe(0);
+  });
+
+  it("finishes after the last interaction or on quit", () => {
+    const finished = run(startReview(interactions.slice(0, 1), [], "alice"), [
+      { type: "verdict", verdict: "pass" },
+    ]);
+    expect(finished.done).toBe(true);
+
+    const quit = run(startReview(interactions, [], "alice"), [{ type: "quit" }]);
+    expect(quit.done).toBe(true);
+    expect(applyReviewAction(quit, { type: "verdict", verdict: "pass" }, now)).toBe(quit);
+  });
+
+  it("resumes at the first interaction the reviewer has not labeled", () => {
+    const existing: Label[] = [
+      { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-02T00:00:00Z", verdict: "pass" },
+      { interactionId: "2", reviewer: "bob", reviewedAt: "2026-01-02T00:00:00Z", verdict: "pass" },
+    ];
+
+    const state = startReview(interactions, existing, "alice");
+    expect(state.index).toBe(1);
+    expect(summarizeReview(state)).toMatchObject({ reviewed: 1, labeledNow: 0, remaining: 2 });
+  });
+
+  it("replaces the reviewer's earlier labels and template placeholders in place", () => {
+    const existing: Label[] = [
+      { interactionId: "1", reviewer: TEMPLATE_REVIEWER, reviewedAt: "2026-01-01T00:00:00Z", verdict: "needs_clarification", notes: "" },
+      { interactionId: "1", reviewer: "bob", reviewedAt: "2026-01-01T00:00:00Z", verdict: "pass" },
+      { interactionId: "2", reviewer: "alice", reviewedAt: "2026-01-01T00:00:00Z", verdict: "pass" },
+      { interactionId: "3", reviewer: TEMPLATE_REVIEWER, reviewedAt: "2026-01-01T00:00:00Z", verdict: "needs_clarification", notes: "" },
+    ];
+
+    const state = run(startReview(interactions, existing, "alice"), [
+      { type: "verdict", verdict: "fail" },
+      { type: "skip" },
+      { type: "verdict", verdict: "fail" },
+    ]);
+
+    expect(reviewedLabels(state, existing).map((l) => [l.interactionId, l.reviewer, l.verdict])).toEqual([
+      ["1", "alice", "fail"],
+      ["1", "bob", "pass"],
+      ["2", "alice", "pass"],
+      ["3", "alice", "fail"],
+    ]);
+  });
+
+  it("starts drafts from an anonymous template's expected fields and keeps them when saved", () => {
+    const existing: Label[] = [
+      {
+        interactionId: "1",
+        reviewer: TEMPLATE_REVIEWER,
+        reviewedAt: "2026-01-01T00:00:00Z",
+        verdict: "needs_clarification",
+        notes: "",
+        expected: { allowedArtifactIds: ["kb-1"] },
+      },
+      { interactionId: "2", reviewer: TEMPLATE_REVIEWER, reviewedAt: "2026-01-01T00:00:00Z", verdict: "needs_clarification", notes: "" },
+    ];
+
+    const fresh = startReview(interactions, existing, "alice");
+    expect(fresh.index).toBe(0);
+    expect(fresh.draft).toEqual({ notes: "", expected: { allowedArtifactIds: ["kb-1"] } });
+
+    const state = run(fresh, [
+      { type: "verdict", verdict: "pass" },
+      { type: "expected", field: "mustInclude", value: "receipt" },
+      { type: "verdict", verdict: "fail" },
+    ]);
+    expect(reviewedLabels(state, existing)).toEqual([
+      {
+        interactionId: "1",
+        reviewedAt: now.toISOString(),
+        reviewer: "alice",
+        verdict: "pass",
+        expected: { allowedArtifactIds: ["kb-1"] },
+      },
+      {
+        interactionId: "2",
+        reviewedAt: now.toISOString(),
+        reviewer: "alice",
+        verdict: "fail",
+        expected: { mustInclude: ["receipt"] },
+      },
+    ]);
+  });
+
+  it("treats an assignment template's placeholders as pending and keeps to its interactions", () => {
+    const withRetrieval = interactions.map((i) => ({
+      ...i,
+      context: { retrieval: { items: [{ artifactId: `kb-${i.interactionId}` }] } },
+    }));
+    const template: Label[] = [
+      ...buildLabelTemplate(withRetrieval.slice(0, 2), { reviewer: "alice", assignment: "round-1", now }),
+      ...buildLabelTemplate(withRetrieval.slice(2), { reviewer: "bob", assignment: "round-1", now }),
+    ];
+
+    const fresh = startReview(withRetrieval, template, "alice");
+    expect(fresh.interactions.map((i) => i.interactionId)).toEqual(["1", "2"]);
+    expect(fresh.index).toBe(0);
+    expect(fresh.draft).toEqual({ notes: "", expected: { allowedArtifactIds: ["kb-1"] } });
+    expect(summarizeReview(fresh)).toMatchObject({ reviewed: 0, remaining: 2 });
+
+    const state = run(fresh, [{ type: "verdict", verdict: "needs_clarification" }]);
+    const saved = reviewedLabels(state, template);
+    expect(saved[0]).toEqual({
+      interactionId: "1",
+      reviewedAt: now.toISOString(),
+      reviewer: "alice",
+      verdict: "needs_clarification",
+      expected: { allowedArtifactIds: ["kb-1"] },
+      _assignment: "round-1",
+    });
+
+    // Resuming, the reviewer's own needs_clarification counts as reviewed
+    const resumed = startReview(withRetrieval, saved, "alice");
+    expect(resumed.interactions).toHaveLength(2);
+    expect(resumed.index).toBe(1);
+    expect(startReview(withRetrieval, saved, "bob").interactions.map((i) => i.interactionId)).toEqual(["3"]);
+  });
+
+  it("parses and clears expected fields", () => {
+    let expected = setExpected(undefined, "expectedAnswer", " Within 30 days ");
+    expected = setExpected(expected, "mustNotInclude", "guarantee, , always");
+    expect(expected).toEqual({ expectedAnswer: "Within 30 days", mustNotInclude: ["guarantee", "always"] });
+
+    expected = setExpected(expected, "expectedAnswer", "");
+    expected = setExpected(expected, "mustNotInclude", " ");
+    expect(expected).toBeUndefined();
+  });
+});
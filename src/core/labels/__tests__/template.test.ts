@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  buildLabelTemplate,
+  formatTemplateHtml,
+  formatTemplateMarkdown,
+  parseContextFields,
+} from "../template.js";
+import { parseLabels } from "../../ingest/jsonl.js";
+import { ingestLabels } from "../../ingest/apply.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import type { Artifact, Interaction, Label } from "../../types.js";
+
+const now = new Date("2026-02-01T00:00:00Z");
+
+const interactions: Interaction[] = [
+  {
+    interactionId: "1",
+    timestamp: "2026-01-05T10:00:00Z",
+    input: { text: "How do refunds work?" },
+    output: { text: "Within <30> days." },
+    context: {
+      retrieval: {
+        items: [
+          { artifactId: "kb-1", snippetText: "Refunds are issued within 30 days.", score: 0.9 },
+          { artifactId: "kb-2" },
+          { artifactId: "kb-1", chunkId: "c2" },
+        ],
+      },
+    },
+    dimensions: { intent: "refund" },
+  },
+  {
+    interactionId: "2",
+    timestamp: "2026-01-06T10:00:00Z",
+    input: { text: "Reset my password" },
+  },
+];
+
+const artifacts = new Map<string, Artifact>([
+  ["kb-1", { artifactId: "kb-1", type: "doc", title: "Refund policy", uri: "https://kb.example.com/refunds" }],
+]);
+
+describe("label templates", () => {
+  it("writes stubs with allowedArtifactIds from the retrieved artifacts", () => {
+    expect(buildLabelTemplate(interactions, { now })).toEqual([
+      {
+        interactionId: "1",
+        reviewedAt: "2026-02-01T00:00:00.000Z",
+        reviewer: "anonymous",
+        verdict: "needs_clarification",
+        notes: "",
+        expected: { allowedArtifactIds: ["kb-1", "kb-2"] },
+      },
+      {
+        interactionId: "2",
+        reviewedAt: "2026-02-01T00:00:00.000Z",
+        reviewer: "anonymous",
+        verdict: "needs_clarification",
+        notes: "",
+      },
+    ]);
+  });
+
+  it("embeds the requested context under _context", () => {
+    const [label] = buildLabelTemplate(interactions, {
+      include: parseContextFields("input, retrieval,dimensions"),
+      artifacts,
+      now,
+    });
+
+    expect(label._context).toEqual({
+      input: "How do refunds work?",
+      retrieval: [
+        {
+          artifactId: "kb-1",
+          snippetText: "Refunds are issued within 30 days.",
+          score: 0.9,
+          title: "Refund policy",
+          uri: "https://kb.example.com/refunds",
+        },
+        { artifactId: "kb-2" },
+        { artifactId: "kb-1", chunkId: "c2", title: "Refund policy", uri: "https://kb.example.com/refunds" },
+      ],
+      dimensions: { intent: "refund" },
+    });
+    expect(parseContextFields("all")).toContain("messages");
+    expect(() => parseContextFields("input,snippets")).toThrow("Unknown context field: snippets");
+  });
+
+  it("starts from the reviewer's most recent stored label", () => {
+    const existing: Label[] = [
+      { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-01T00:00:00Z", verdict: "pass" },
+      {
+        interactionId: "1",
+        reviewer: "alice",
+        reviewedAt: "2026-01-03T00:00:00Z",
+        verdict: "fail",
+        notes: "cites the wrong policy",
+        expected: { mustInclude: ["30 days"], allowedArtifactIds: ["kb-1"] },
+      },
+      { interactionId: "2", reviewer: "bob", reviewedAt: "2026-01-03T00:00:00Z", verdict: "pass" },
+    ];
+
+    const labels = buildLabelTemplate(interactions, { reviewer: "alice", existing, now });
+    // Same key as the stored label, so ingesting it unedited adds nothing
+    expect(labels[0]).toEqual({
+      interactionId: "1",
+      reviewedAt: "2026-01-03T00:00:00Z",
+      reviewer: "alice",
+      verdict: "fail",
+      notes: "cites the wrong policy",
+      expected: { mustInclude: ["30 days"], allowedArtifactIds: ["kb-1"] },
+    });
+    // Other reviewers' labels are not a starting point
+    expect(labels[1].verdict).toBe("needs_clarification");
+  });
+
+  it("keeps _context out of the store", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "goldenset-template-test-"));
+    try {
+      const path = join(tempDir, "labels.jsonl");
+      const labels = buildLabelTemplate(interactions, { include: parseContextFields("all"), now });
+      await writeFile(path, labels.map((l) => JSON.stringify(l)).join("\n"));
+
+      const parsed = await parseLabels(path);
+      expect(parsed.errors).toEqual([]);
+
+      const store = new SQLiteStore(join(tempDir, "db.sqlite"));
+      store.upsertInteractions(interactions);
+      store.upsertLabels(parsed.items);
+      const stored = store.getLabels(["1", "2"]);
+      store.close();
+
+      expect(stored).toHaveLength(2);
+      for (const label of stored) expect(label).not.toHaveProperty("_context");
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("adds no label when a prefilled template is ingested unedited", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "goldenset-template-test-"));
+    try {
+      const store = new SQLiteStore(join(tempDir, "db.sqlite"));
+      store.upsertInteractions(interactions);
+      store.upsertLabels([
+        { interactionId: "1", reviewer: "alice", reviewedAt: "2026-01-03T00:00:00Z", verdict: "pass" },
+      ]);
+
+      const labels = buildLabelTemplate(interactions, { reviewer: "alice", existing: store.getLabels(["1"]), now });
+      const summary = ingestLabels(store, labels);
+      const stored = store.getLabels(["1", "2"]);
+      store.close();
+
+      expect(summary).toMatchObject({ inserted: 1, unchanged: 1, conflicts: [] });
+      expect(stored.map((l) => [l.interactionId, l.reviewedAt])).toEqual([
+        ["1", "2026-01-03T00:00:00Z"],
+        ["2", "2026-02-01T00:00:00.000Z"],
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("formats Markdown and HTML review packets", () => {
+    const labels = buildLabelTemplate(interactions, { include: parseContextFields("all"), artifacts, now });
+
+    const markdown = formatTemplateMarkdown(labels);
+    expect(markdown).toContain("## 1. 1");
+    expect(markdown).toContain("```\nWithin <30> days.\n```");
+    expect(markdown).toContain("1. [Refund policy](https://kb.example.com/refunds) (score 0.9)");
+    expect(markdown).toContain("- allowedArtifactIds: kb-1, kb-2");
+
+    const html = formatTemplateHtml(labels);
+    expect(html).toContain("<pre>Within &lt;30&gt; days.</pre>");
+    expect(html).toContain('<a href="https://kb.example.com/refunds">Refund policy</a>');
+    expect(html).toContain("2 interactions");
+  });
+});
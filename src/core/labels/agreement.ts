@@ -0,0 +1,319 @@
+import type { Interaction, Label } from "../types.js";
+import { groupByInteraction, latestPerReviewer } from "./resolve.js";
+import { isPlaceholderLabel } from "./template.js";
+
+export const VERDICTS: Label["verdict"][] = ["pass", "fail", "needs_clarification"];
+
+type Verdict = Label["verdict"];
+
+/**
+ * One rater's verdict on one interaction
+ */
+export interface Rating {
+  interactionId: string;
+  rater: string;
+  verdict: Verdict;
+}
+
+export type ConfusionMatrix = Record<Verdict, Record<Verdict, number>>;
+
+export interface PairAgreement {
+  raters: [string, string];
+  /** Interactions both raters rated */
+  items: number;
+  percentAgreement: number;
+  /** Cohen's kappa; null when undefined (both raters always gave one same verdict) */
+  kappa: number | null;
+  /** Rows are the first rater's verdicts, columns the second's */
+  confusion: ConfusionMatrix;
+}
+
+export interface GroupAgreement {
+  /** Interactions rated by at least two raters */
+  items: number;
+  /** Share of those items where every rater gave the same verdict */
+  percentAgreement: number;
+  /** Fleiss' kappa; null when undefined */
+  kappa: number | null;
+}
+
+export interface Disagreement {
+  interactionId: string;
+  /** Verdict by rater */
+  verdicts: Record<string, Verdict>;
+  /** Share of rater pairs that agree on this interaction */
+  agreement: number;
+}
+
+export interface AgreementReport {
+  raters: string[];
+  overall: GroupAgreement;
+  pairs: PairAgreement[];
+  byDimension?: {
+    key: string;
+    groups: Array<GroupAgreement & { value: string }>;
+  };
+  /** Interactions with the least agreement, worst first */
+  disagreements: Disagreement[];
+}
+
+export interface AgreementOptions {
+  /** Dimension key to break agreement down by */
+  by?: string;
+  /** Interactions, to look up `by` values */
+  interactions?: Array<Pick<Interaction, "interactionId" | "dimensions">>;
+  /** Number of disagreements to list (default: 10) */
+  top?: number;
+}
+
+// Dimension value for interactions without the `by` dimension
+const NO_VALUE = "(none)";
+
+/**
+ * Ratings from labels: each reviewer's most recent label of each
+ * interaction, with the reviewer as rater. Template placeholders are not
+ * verdicts, so they are left out.
+ */
+export function ratingsFromLabels(labels: Label[]): Rating[] {
+  const ratings: Rating[] = [];
+  const reviewed = labels.filter((label) => !isPlaceholderLabel(label));
+  for (const group of groupByInteraction(reviewed).values()) {
+    for (const label of latestPerReviewer(group)) {
+      ratings.push({ interactionId: label.interactionId, rater: label.reviewer, verdict: label.verdict });
+    }
+  }
+  return ratings;
+}
+
+function emptyConfusion(): ConfusionMatrix {
+  const row = () => ({ pass: 0, fail: 0, needs_clarification: 0 });
+  return { pass: row(), fail: row(), needs_clarification: row() };
+}
+
+function kappa(observed: number, expected: number): number | null {
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+}
+
+/**
+ * Cohen's kappa and percent agreement for two raters over the
+ * interactions both rated
+ */
+export function pairAgreement(
+  a: string,
+  b: string,
+  items: Map<string, Map<string, Verdict>>
+): PairAgreement {
+  const confusion = emptyConfusion();
+  let shared = 0;
+  let agreed = 0;
+
+  for (const verdicts of items.values()) {
+    const va = verdicts.get(a);
+    const vb = verdicts.get(b);
+    if (!va || !vb) continue;
+    shared++;
+    confusion[va][vb]++;
+    if (va === vb) agreed++;
+  }
+
+  if (shared === 0) {
+    return { raters: [a, b], items: 0, percentAgreement: 0, kappa: null, confusion };
+  }
+
+  // Chance agreement from each rater's own verdict distribution
+  let expected = 0;
+  for (const verdict of VERDICTS) {
+    const rowTotal = VERDICTS.reduce((sum, v) => sum + confusion[verdict][v], 0);
+    const columnTotal = VERDICTS.reduce((sum, v) => sum + confusion[v][verdict], 0);
+    expected += (rowTotal / shared) * (columnTotal / shared);
+  }
+
+  const observed = agreed / shared;
+  return { raters: [a, b], items: shared, percentAgreement: observed, kappa: kappa(observed, expected), confusion };
+}
+
+// Share of rater pairs agreeing on one interaction
+function itemAgreement(verdicts: Iterable<Verdict>): number {
+  const counts = new Map<Verdict, number>();
+  let n = 0;
+  for (const verdict of verdicts) {
+    counts.set(verdict, (counts.get(verdict) ?? 0) + 1);
+    n++;
+  }
+  let agreeingPairs = 0;
+  for (const count of counts.values()) agreeingPairs += count * (count - 1);
+  return agreeingPairs / (n * (n - 1));
+}
+
+/**
+ * Fleiss' kappa over interactions rated by at least two raters. Raters
+ * may rate different subsets, so each interaction's agreement is taken
+ * over the raters it has.
+ */
+export function groupAgreement(items: Map<string, Map<string, Verdict>>): GroupAgreement {
+  const rated = [...items.values()].filter((verdicts) => verdicts.size >= 2);
+  if (rated.length === 0) {
+    return { items: 0, percentAgreement: 0, kappa: null };
+  }
+
+  const totals = new Map<Verdict, number>();
+  let ratings = 0;
+  let observedSum = 0;
+  let unanimous = 0;
+
+  for (const verdicts of rated) {
+    observedSum += itemAgreement(verdicts.values());
+    if (new Set(verdicts.values()).size === 1) unanimous++;
+    for (const verdict of verdicts.values()) {
+      totals.set(verdict, (totals.get(verdict) ?? 0) + 1);
+      ratings++;
+    }
+  }
+
+  const observed = observedSum / rated.length;
+  let expected = 0;
+  for (const total of totals.values()) expected += (total / ratings) ** 2;
+
+  return {
+    items: rated.length,
+    percentAgreement: unanimous / rated.length,
+    kappa: kappa(observed, expected),
+  };
+}
+
+/**
+ * Agreement between raters: Cohen's kappa for every pair, Fleiss' kappa
+ * for the group, optionally by dimension, and the interactions they
+ * disagree on most
+ */
+export function computeAgreement(ratings: Rating[], options: AgreementOptions = {}): AgreementReport {
+  // interactionId -> rater -> verdict
+  const items = new Map<string, Map<string, Verdict>>();
+  for (const rating of ratings) {
+    let verdicts = items.get(rating.interactionId);
+    if (!verdicts) {
+      verdicts = new Map();
+      items.set(rating.interactionId, verdicts);
+    }
+    verdicts.set(rating.rater, rating.verdict);
+  }
+
+  const raters = [...new Set(ratings.map((r) => r.rater))].sort();
+  const pairs: PairAgreement[] = [];
+  for (let i = 0; i < raters.length; i++) {
+    for (let j = i + 1; j < raters.length; j++) {
+      pairs.push(pairAgreement(raters[i], raters[j], items));
+    }
+  }
+
+  const report: AgreementReport = {
+    raters,
+    overall: groupAgreement(items),
+    pairs,
+    disagreements: disagreements(items, options.top ?? 10),
+  };
+
+  if (options.by) {
+    const key = options.by;
+    const values = new Map(
+      (options.interactions ?? []).map((i) => [i.interactionId, i.dimensions?.[key] ?? NO_VALUE])
+    );
+    const groups = new Map<string, Map<string, Map<string, Verdict>>>();
+    for (const [id, verdicts] of items) {
+      const value = values.get(id) ?? NO_VALUE;
+      if (!groups.has(value)) groups.set(value, new Map());
+      groups.get(value)!.set(id, verdicts);
+    }
+    report.byDimension = {
+      key,
+      groups: [...groups]
+        .map(([value, group]) => ({ value, ...groupAgreement(group) }))
+        .filter((g) => g.items > 0)
+        .sort((a, b) => b.items - a.items || a.value.localeCompare(b.value)),
+    };
+  }
+
+  return report;
+}
+
+function disagreements(items: Map<string, Map<string, Verdict>>, top: number): Disagreement[] {
+  const found: Disagreement[] = [];
+  for (const [interactionId, verdicts] of items) {
+    if (verdicts.size < 2 || new Set(verdicts.values()).size === 1) continue;
+    found.push({
+      interactionId,
+      verdicts: Object.fromEntries([...verdicts].sort(([a], [b]) => a.localeCompare(b))),
+      agreement: itemAgreement(verdicts.values()),
+    });
+  }
+  // Least agreement first; among equals, those more raters looked at
+  return found
+    .sort(
+      (a, b) =>
+        a.agreement - b.agreement ||
+        Object.keys(b.verdicts).length - Object.keys(a.verdicts).length ||
+        a.interactionId.localeCompare(b.interactionId)
+    )
+    .slice(0, top);
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatKappa(value: number | null): string {
+  return value === null ? "n/a" : value.toFixed(3);
+}
+
+/**
+ * Format an agreement report for text output
+ */
+export function formatAgreement(report: AgreementReport): string {
+  const lines: string[] = [];
+
+  lines.push(`Raters: ${report.raters.join(", ")}`);
+  lines.push(`Interactions rated by 2+ raters: ${report.overall.items}`);
+  lines.push(`Percent agreement (unanimous): ${percent(report.overall.percentAgreement)}`);
+  lines.push(`Fleiss' kappa: ${formatKappa(report.overall.kappa)}`);
+  lines.push("");
+
+  for (const pair of report.pairs) {
+    const [a, b] = pair.raters;
+    lines.push(`${a} vs ${b}: ${pair.items} shared, ${percent(pair.percentAgreement)} agreement, Cohen's kappa ${formatKappa(pair.kappa)}`);
+    if (pair.items === 0) continue;
+
+    const corner = `${a} \\ ${b}`;
+    const width = Math.max(...VERDICTS.map((v) => v.length)) + 2;
+    const rowWidth = Math.max(width, corner.length + 2);
+    lines.push(`  ${corner.padEnd(rowWidth)}${VERDICTS.map((v) => v.padStart(width)).join("")}`);
+    for (const row of VERDICTS) {
+      const cells = VERDICTS.map((column) => String(pair.confusion[row][column]).padStart(width));
+      lines.push(`  ${row.padEnd(rowWidth)}${cells.join("")}`);
+    }
+    lines.push("");
+  }
+
+  if (report.byDimension) {
+    lines.push(`By ${report.byDimension.key}:`);
+    for (const group of report.byDimension.groups) {
+      lines.push(
+        `  ${group.value.padEnd(20)} ${String(group.items).padStart(4)} items  ${percent(group.percentAgreement).padStart(6)}  kappa ${formatKappa(group.kappa)}`
+      );
+    }
+    lines.push("");
+  }
+
+  if (report.disagreements.length > 0) {
+    lines.push("Most disagreement:");
+    for (const item of report.disagreements) {
+      const verdicts = Object.entries(item.verdicts)
+        .map(([rater, verdict]) => `${rater}=${verdict}`)
+        .join(", ");
+      lines.push(`  ${item.interactionId}  ${verdicts}`);
+    }
+  } else {
+    lines.push("No disagreements.");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,214 @@
+import type { Assignment, Interaction, Label } from "../types.js";
+import { buildCompositeKey, mulberry32, stratifiedSample } from "../analytics/sample.js";
+import { groupByInteraction, latestPerReviewer } from "./resolve.js";
+import { isPlaceholderLabel } from "./template.js";
+
+export interface AssignOptions {
+  reviewers: string[];
+  /** Share of interactions given to a second reviewer (0 to 1) */
+  overlap?: number;
+  /** Dimension keys of the strata to balance across */
+  by?: string[];
+  seed?: number;
+}
+
+export interface AssignmentPlan {
+  /** Interactions per reviewer, in sample order */
+  byReviewer: Map<string, Interaction[]>;
+  /** Interactions given to two reviewers */
+  overlapIds: Set<string>;
+}
+
+export interface ReviewerProgress {
+  reviewer: string;
+  assigned: number;
+  /** Most recent label is pass or fail */
+  done: number;
+  /** Most recent label is needs_clarification */
+  needsClarification: number;
+  /** Assigned interactions the reviewer has not labeled since they were assigned */
+  outstanding: string[];
+}
+
+export interface AssignmentStatus {
+  name: string;
+  assignedAt: string;
+  /** Interactions in the round, and how many are given to two reviewers */
+  interactions: number;
+  overlap: number;
+  reviewers: ReviewerProgress[];
+}
+
+/**
+ * Split a sample between reviewers. Each stratum (combination of `by`
+ * values) is dealt round-robin so every reviewer gets a like share of it,
+ * and a stratified `overlap` share goes to a second reviewer as well,
+ * whoever has the least work once the rest is dealt.
+ */
+export function assignReviewers(interactions: Interaction[], options: AssignOptions): AssignmentPlan {
+  const { reviewers, overlap = 0, by = [], seed } = options;
+  if (reviewers.length === 0) {
+    throw new Error("At least one reviewer is required");
+  }
+  if (new Set(reviewers).size !== reviewers.length) {
+    throw new Error(`Reviewers must be distinct: ${reviewers.join(", ")}`);
+  }
+  if (!(overlap >= 0 && overlap <= 1)) {
+    throw new Error(`Invalid overlap ${overlap}: must be between 0 and 1`);
+  }
+  if (overlap > 0 && reviewers.length < 2) {
+    throw new Error("Overlap needs at least two reviewers");
+  }
+
+  // Strata in a stable order, each shuffled
+  const rng = seed !== undefined ? mulberry32(seed) : Math.random;
+  const strata = new Map<string, Interaction[]>();
+  for (const interaction of interactions) {
+    const key = buildCompositeKey(interaction, by);
+    if (!strata.has(key)) strata.set(key, []);
+    strata.get(key)!.push(interaction);
+  }
+  const strataKeys = [...strata.keys()].sort();
+  for (const key of strataKeys) {
+    const group = strata.get(key)!.sort((a, b) => a.interactionId.localeCompare(b.interactionId));
+    for (let i = group.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [group[i], group[j]] = [group[j], group[i]];
+    }
+  }
+
+  const overlapIds = new Set(
+    overlap > 0
+      ? stratifiedSample(interactions, {
+        n: Math.round(overlap * interactions.length),
+        by,
+        seed,
+        minPerGroup: 0,
+      }).map((i) => i.interactionId)
+      : []
+  );
+
+  const assigned = new Map<string, string[]>(reviewers.map((r) => [r, []]));
+  const load = (reviewer: string): number => assigned.get(reviewer)!.length;
+
+  // The turn carries over between strata, so totals stay within one
+  const dealt = strataKeys.flatMap((key) => strata.get(key)!);
+  const firsts = dealt.map((_, turn) => reviewers[turn % reviewers.length]);
+  dealt.forEach((interaction, i) => assigned.get(firsts[i])!.push(interaction.interactionId));
+
+  // Second reviews go to whoever has the least work once everything is dealt
+  dealt.forEach((interaction, i) => {
+    if (!overlapIds.has(interaction.interactionId)) return;
+    const second = reviewers
+      .filter((r) => r !== firsts[i])
+      .reduce((best, r) => (load(r) < load(best) ? r : best));
+    assigned.get(second)!.push(interaction.interactionId);
+  });
+
+  const byReviewer = new Map<string, Interaction[]>();
+  for (const reviewer of reviewers) {
+    const ids = new Set(assigned.get(reviewer));
+    byReviewer.set(reviewer, interactions.filter((i) => ids.has(i.interactionId)));
+  }
+  return { byReviewer, overlapIds };
+}
+
+/**
+ * Each reviewer's progress on a round, from their most recent label of
+ * each assigned interaction. Template placeholders, and labels from
+ * before the interaction was assigned, leave it outstanding.
+ */
+export function assignmentStatus(assignments: Assignment[], labels: Label[]): AssignmentStatus {
+  const latest = new Map<string, Label>();
+  const reviewed = labels.filter((label) => !isPlaceholderLabel(label));
+  for (const group of groupByInteraction(reviewed).values()) {
+    for (const label of latestPerReviewer(group)) {
+      latest.set(JSON.stringify([label.interactionId, label.reviewer]), label);
+    }
+  }
+
+  const progress = new Map<string, ReviewerProgress>();
+  for (const assignment of assignments) {
+    let entry = progress.get(assignment.reviewer);
+    if (!entry) {
+      entry = { reviewer: assignment.reviewer, assigned: 0, done: 0, needsClarification: 0, outstanding: [] };
+      progress.set(assignment.reviewer, entry);
+    }
+
+    entry.assigned++;
+    const label = latest.get(JSON.stringify([assignment.interactionId, assignment.reviewer]));
+    if (!label || Date.parse(label.reviewedAt) < Date.parse(assignment.assignedAt)) {
+      entry.outstanding.push(assignment.interactionId);
+    } else if (label.verdict === "needs_clarification") {
+      entry.needsClarification++;
+    } else {
+      entry.done++;
+    }
+  }
+
+  return {
+    name: assignments[0]?.name ?? "",
+    assignedAt: assignments[0]?.assignedAt ?? "",
+    interactions: new Set(assignments.map((a) => a.interactionId)).size,
+    overlap: new Set(assignments.filter((a) => a.overlap).map((a) => a.interactionId)).size,
+    reviewers: [...progress.values()].sort((a, b) => a.reviewer.localeCompare(b.reviewer)),
+  };
+}
+
+function percent(part: number, whole: number): string {
+  return whole === 0 ? "-" : `${((part / whole) * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format an assignment status for text output, listing up to `limit`
+ * outstanding interactions per reviewer
+ */
+export function formatAssignmentStatus(status: AssignmentStatus, limit = 10): string {
+  const lines: string[] = [];
+  lines.push(`Assignment: ${status.name} (assigned ${status.assignedAt})`);
+  lines.push(`Interactions: ${status.interactions}, ${status.overlap} with two reviewers`);
+  lines.push("");
+
+  const width = Math.max(8, ...status.reviewers.map((r) => r.reviewer.length)) + 2;
+  const row = (cells: Array<string | number>): string =>
+    `  ${String(cells[0]).padEnd(width)}${cells
+      .slice(1)
+      .map((cell, i) => String(cell).padStart([9, 7, 9, 13, 10][i]))
+      .join("")}`;
+
+  lines.push(row(["Reviewer", "Assigned", "Done", "Clarify", "Outstanding", "Progress"]));
+  const total = { assigned: 0, done: 0, needsClarification: 0, outstanding: 0 };
+  for (const r of status.reviewers) {
+    lines.push(
+      row([r.reviewer, r.assigned, r.done, r.needsClarification, r.outstanding.length, percent(r.done, r.assigned)])
+    );
+    total.assigned += r.assigned;
+    total.done += r.done;
+    total.needsClarification += r.needsClarification;
+    total.outstanding += r.outstanding.length;
+  }
+  lines.push(
+    row([
+      "Total",
+      total.assigned,
+      total.done,
+      total.needsClarification,
+      total.outstanding,
+      percent(total.done, total.assigned),
+    ])
+  );
+
+  const pending = status.reviewers.filter((r) => r.outstanding.length > 0);
+  if (pending.length > 0) {
+    lines.push("", "Outstanding:");
+    for (const r of pending) {
+      const shown = r.outstanding.slice(0, limit).join(", ");
+      const more = r.outstanding.length > limit ? ` ... and ${r.outstanding.length - limit} more` : "";
+      lines.push(`  ${r.reviewer}: ${shown}${more}`);
+    }
+  } else {
+    lines.push("", "Nothing outstanding.");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,245 @@
+import type { Interaction, Label } from "../types.js";
+import { describeLabel } from "./keys.js";
+import { groupByInteraction, latestPerReviewer } from "./resolve.js";
+
+/**
+ * Ways an interaction can fail a label's `expected` constraints:
+ * - missing-phrase: a mustInclude phrase is not in the output
+ * - forbidden-phrase: a mustNotInclude phrase is in the output
+ * - blocked-artifact: it retrieved an artifact in blockedArtifactIds
+ * - unlisted-artifact: it retrieved an artifact not in allowedArtifactIds
+ */
+export const VIOLATION_KINDS = [
+  "missing-phrase",
+  "forbidden-phrase",
+  "blocked-artifact",
+  "unlisted-artifact",
+] as const;
+
+export type ViolationKind = (typeof VIOLATION_KINDS)[number];
+
+export interface Violation {
+  kind: ViolationKind;
+  /** The phrases or artifact ids concerned */
+  values: string[];
+}
+
+export interface LabelCheck {
+  /** The label, as "<interactionId> (<reviewer>, <reviewedAt>)" */
+  label: string;
+  interactionId: string;
+  verdict: Label["verdict"];
+  violations: Violation[];
+  /** A pass verdict although the interaction violates the expected constraints */
+  contradiction: boolean;
+}
+
+export interface CheckGroup {
+  /** Dimension value, or "all" without a `by` key */
+  value: string;
+  /** Labels with expected constraints that were checked */
+  checked: number;
+  /** Checked labels with at least one violation */
+  violations: number;
+  contradictions: number;
+  /** Labels with violations, contradictions first */
+  flagged: LabelCheck[];
+}
+
+export interface CheckReport {
+  /** Labels checked (each reviewer's most recent label per interaction) */
+  checked: number;
+  violations: number;
+  contradictions: number;
+  /** Labels without phrase or artifact constraints, which have nothing to check */
+  unconstrained: number;
+  /** Interactions labeled but not found, whose labels were not checked */
+  missingInteractions: string[];
+  by?: string;
+  groups: CheckGroup[];
+}
+
+// Dimension value for interactions without the `by` dimension
+const NO_VALUE = "(none)";
+
+/**
+ * Lowercase with runs of whitespace collapsed, so phrase checks ignore
+ * case and line wrapping
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The text the phrase constraints apply to: the output, or for a
+ * conversation without one, every assistant turn
+ */
+function outputText(interaction: Interaction): string {
+  if (interaction.output) return interaction.output.text;
+  return (interaction.messages ?? [])
+    .filter((m) => m.role === "assistant")
+    .map((m) => m.content)
+    .join("\n");
+}
+
+function retrievedArtifactIds(interaction: Interaction): string[] {
+  const items = [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+  return [...new Set(items.flatMap((i) => (i.artifactId ? [i.artifactId] : [])))];
+}
+
+// expectedAnswer is for judging, not a mechanical check
+function hasConstraints(label: Label): boolean {
+  const expected = label.expected ?? {};
+  return [
+    expected.mustInclude,
+    expected.mustNotInclude,
+    expected.allowedArtifactIds,
+    expected.blockedArtifactIds,
+  ].some((list) => list !== undefined);
+}
+
+/**
+ * Compare a label's expected constraints with its interaction
+ */
+export function checkLabel(label: Label, interaction: Interaction): LabelCheck {
+  const expected = label.expected ?? {};
+  const output = normalize(outputText(interaction));
+  const retrieved = retrievedArtifactIds(interaction);
+  const violations: Violation[] = [];
+
+  const add = (kind: ViolationKind, values: string[]): void => {
+    if (values.length > 0) violations.push({ kind, values });
+  };
+
+  add("missing-phrase", (expected.mustInclude ?? []).filter((p) => !output.includes(normalize(p))));
+  add("forbidden-phrase", (expected.mustNotInclude ?? []).filter((p) => output.includes(normalize(p))));
+
+  const blocked = new Set(expected.blockedArtifactIds ?? []);
+  add("blocked-artifact", retrieved.filter((id) => blocked.has(id)));
+  if (expected.allowedArtifactIds) {
+    const allowed = new Set(expected.allowedArtifactIds);
+    add("unlisted-artifact", retrieved.filter((id) => !allowed.has(id) && !blocked.has(id)));
+  }
+
+  return {
+    label: describeLabel(label),
+    interactionId: label.interactionId,
+    verdict: label.verdict,
+    violations,
+    contradiction: label.verdict === "pass" && violations.length > 0,
+  };
+}
+
+/**
+ * Check each reviewer's most recent label of each interaction against the
+ * interaction, grouped by the `by` dimension if given
+ */
+export function checkLabels(labels: Label[], interactions: Interaction[], by?: string): CheckReport {
+  const byId = new Map(interactions.map((i) => [i.interactionId, i]));
+  const groups = new Map<string, CheckGroup>();
+  const missing: string[] = [];
+  let unconstrained = 0;
+
+  for (const [interactionId, group] of groupByInteraction(labels)) {
+    const interaction = byId.get(interactionId);
+    if (!interaction) {
+      missing.push(interactionId);
+      continue;
+    }
+    const value = by ? interaction.dimensions?.[by] ?? NO_VALUE : "all";
+
+    for (const label of latestPerReviewer(group)) {
+      if (!hasConstraints(label)) {
+        unconstrained++;
+        continue;
+      }
+
+      let checkGroup = groups.get(value);
+      if (!checkGroup) {
+        checkGroup = { value, checked: 0, violations: 0, contradictions: 0, flagged: [] };
+        groups.set(value, checkGroup);
+      }
+
+      const result = checkLabel(label, interaction);
+      checkGroup.checked++;
+      if (result.violations.length > 0) {
+        checkGroup.violations++;
+        checkGroup.flagged.push(result);
+      }
+      if (result.contradiction) checkGroup.contradictions++;
+    }
+  }
+
+  const sorted = [...groups.values()].sort(
+    (a, b) => b.contradictions - a.contradictions || b.checked - a.checked || a.value.localeCompare(b.value)
+  );
+  for (const group of sorted) {
+    group.flagged.sort(
+      (a, b) => Number(b.contradiction) - Number(a.contradiction) || a.label.localeCompare(b.label)
+    );
+  }
+
+  return {
+    checked: sorted.reduce((sum, g) => sum + g.checked, 0),
+    violations: sorted.reduce((sum, g) => sum + g.violations, 0),
+    contradictions: sorted.reduce((sum, g) => sum + g.contradictions, 0),
+    unconstrained,
+    missingInteractions: missing.sort(),
+    ...(by ? { by } : {}),
+    groups: sorted,
+  };
+}
+
+function quoted(values: string[]): string {
+  return values.map((v) => JSON.stringify(v)).join(", ");
+}
+
+function describeViolation(violation: Violation): string {
+  switch (violation.kind) {
+    case "missing-phrase":
+      return `output lacks ${quoted(violation.values)}`;
+    case "forbidden-phrase":
+      return `output contains ${quoted(violation.values)}`;
+    case "blocked-artifact":
+      return `retrieved blocked ${violation.values.join(", ")}`;
+    case "unlisted-artifact":
+      return `retrieved ${violation.values.join(", ")}, not in allowedArtifactIds`;
+  }
+}
+
+/**
+ * Format a check report for text output
+ */
+export function formatCheckReport(report: CheckReport): string {
+  const lines: string[] = [];
+
+  lines.push(`Labels checked: ${report.checked} (${report.unconstrained} without constraints skipped)`);
+  if (report.missingInteractions.length > 0) {
+    lines.push(`Interactions not found: ${report.missingInteractions.length}`);
+  }
+  lines.push(`Labels with violations: ${report.violations}`);
+  lines.push(`Contradictions (pass despite violations): ${report.contradictions}`);
+
+  if (report.by) {
+    lines.push("", `By ${report.by}:`);
+    for (const group of report.groups) {
+      lines.push(
+        `  ${group.value.padEnd(20)} ${String(group.checked).padStart(4)} checked  ${String(group.violations).padStart(4)} with violations  ${String(group.contradictions).padStart(4)} contradictions`
+      );
+    }
+  }
+
+  for (const group of report.groups) {
+    if (group.flagged.length === 0) continue;
+    lines.push("", report.by ? `${report.by}=${group.value}:` : "Flagged labels:");
+    for (const result of group.flagged) {
+      const marker = result.contradiction ? "!" : " ";
+      lines.push(`  ${marker} ${result.label} ${result.verdict}: ${result.violations.map(describeViolation).join("; ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { join } from "path";
+import { fileExists, getGoldensetDir, readJson } from "../../util/fs.js";
+import { formatIssues } from "../ingest/schemas.js";
+
+// Project label config, inside .goldenset/
+export const LABELS_CONFIG_FILE = "labels.json";
+
+export const RESOLUTION_POLICIES = ["latest", "majority", "strictest", "reviewer-priority"] as const;
+
+/**
+ * How the effective label of an interaction is chosen when it has several.
+ * Only each reviewer's most recent label takes part.
+ * - latest: the most recent label
+ * - majority: the most recent label with the most common verdict
+ * - strictest: the most recent label with the strictest verdict
+ *   (fail, then needs_clarification, then pass)
+ * - reviewer-priority: the label of the first reviewer in `reviewers` who
+ *   reviewed the interaction, else the most recent label
+ */
+export type ResolutionPolicy = (typeof RESOLUTION_POLICIES)[number];
+
+export const ResolutionSchema = z
+  .object({
+    policy: z.enum(RESOLUTION_POLICIES),
+    reviewers: z.array(z.string().min(1)).optional(),
+  })
+  .refine((r) => r.policy !== "reviewer-priority" || (r.reviewers?.length ?? 0) > 0, {
+    message: "reviewer-priority needs a non-empty reviewers list",
+    path: ["reviewers"],
+  });
+
+export type Resolution = z.infer<typeof ResolutionSchema>;
+
+/**
+ * Label file checks:
+ * - needs-clarification: verdict still needs_clarification
+ * - fail-without-notes: fail verdict with empty notes
+ * - duplicate-label: more than one label from the same reviewer for an
+ *   interaction (only the most recent counts)
+ * - reviewed-before-interaction: reviewedAt earlier than the interaction's
+ *   timestamp
+ * - allowed-blocked-overlap: an artifact both allowed and blocked
+ * - unknown-artifact: an allowed or blocked artifact id not in the store
+ */
+export const LINT_RULES = [
+  "needs-clarification",
+  "fail-without-notes",
+  "duplicate-label",
+  "reviewed-before-interaction",
+  "allowed-blocked-overlap",
+  "unknown-artifact",
+] as const;
+
+export type LintRule = (typeof LINT_RULES)[number];
+
+export const LINT_SEVERITIES = ["error", "warning", "off"] as const;
+
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/**
+ * Rule severities in .goldenset/labels.json, e.g.
+ * { "lint": { "rules": { "needs-clarification": "error" } } }
+ */
+export const LintConfigSchema = z.object({
+  rules: z.partialRecord(z.enum(LINT_RULES), z.enum(LINT_SEVERITIES)).optional(),
+});
+
+export type LintConfig = z.infer<typeof LintConfigSchema>;
+
+export const LabelsConfigSchema = z.object({
+  resolution: ResolutionSchema.optional(),
+  lint: LintConfigSchema.optional(),
+});
+
+export type LabelsConfig = z.infer<typeof LabelsConfigSchema>;
+
+export function getLabelsConfigPath(projectRoot?: string): string {
+  return join(getGoldensetDir(projectRoot), LABELS_CONFIG_FILE);
+}
+
+/**
+ * Load and validate a label config file
+ */
+export async function loadLabelsConfig(path: string): Promise<LabelsConfig> {
+  const result = LabelsConfigSchema.safeParse(await readJson<unknown>(path));
+  if (!result.success) {
+    throw new Error(`Invalid label config ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the project's label config, or null when there is none
+ */
+export async function loadProjectLabelsConfig(projectRoot?: string): Promise<LabelsConfig | null> {
+  const path = getLabelsConfigPath(projectRoot);
+  return fileExists(path) ? loadLabelsConfig(path) : null;
+}
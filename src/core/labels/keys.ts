@@ -0,0 +1,41 @@
+import type { Label } from "../types.js";
+
+/**
+ * What identifies a label: one reviewer's review of an interaction at a
+ * point in time. A reviewer reviewing again adds a label rather than
+ * replacing their earlier one.
+ */
+export type LabelKey = Pick<Label, "interactionId" | "reviewer" | "reviewedAt">;
+
+/**
+ * A label's key as a single string (a JSON array), e.g. for ingest batch
+ * rows. Matches SQLite's json_array() of the same three values.
+ */
+export function labelKey(label: LabelKey): string {
+  return JSON.stringify([label.interactionId, label.reviewer, label.reviewedAt]);
+}
+
+/**
+ * Inverse of labelKey. Returns null for anything else, such as the bare
+ * interaction ids that ingest batches recorded before labels had keys.
+ */
+export function parseLabelKey(key: string): LabelKey | null {
+  if (!key.startsWith("[")) return null;
+  try {
+    const parts: unknown = JSON.parse(key);
+    if (Array.isArray(parts) && parts.length === 3 && parts.every((p) => typeof p === "string")) {
+      const [interactionId, reviewer, reviewedAt] = parts;
+      return { interactionId, reviewer, reviewedAt };
+    }
+  } catch {
+    // Not a key
+  }
+  return null;
+}
+
+/**
+ * A label's key for people: "<interactionId> (<reviewer>, <reviewedAt>)"
+ */
+export function describeLabel(label: LabelKey): string {
+  return `${label.interactionId} (${label.reviewer}, ${label.reviewedAt})`;
+}
@@ -0,0 +1,156 @@
+import type { Interaction, Label } from "../types.js";
+import { describeLabel } from "./keys.js";
+import { LINT_RULES, LINT_SEVERITIES } from "./config.js";
+import type { LintRule, LintSeverity } from "./config.js";
+
+export const DEFAULT_LINT_SEVERITIES: Record<LintRule, LintSeverity> = {
+  "needs-clarification": "warning",
+  "fail-without-notes": "error",
+  "duplicate-label": "error",
+  "reviewed-before-interaction": "error",
+  "allowed-blocked-overlap": "error",
+  "unknown-artifact": "warning",
+};
+
+export interface LintProblem {
+  rule: LintRule;
+  severity: Exclude<LintSeverity, "off">;
+  /** The label, as "<interactionId> (<reviewer>, <reviewedAt>)" */
+  label: string;
+  message: string;
+}
+
+export interface LintContext {
+  /** Interactions the labels refer to, for their timestamps */
+  interactions?: Map<string, Interaction>;
+  /** Artifact ids in the store; unknown-artifact is skipped without them */
+  knownArtifactIds?: Set<string>;
+}
+
+export interface LintReport {
+  problems: LintProblem[];
+  errors: number;
+  warnings: number;
+  /** Rules that could not run for lack of data */
+  skipped: LintRule[];
+}
+
+/**
+ * Parse a `rule=severity` override, as given to --rule
+ */
+export function parseRuleSeverity(value: string): [LintRule, LintSeverity] {
+  const [rule, severity] = value.split("=").map((s) => s.trim());
+  if (!(LINT_RULES as readonly string[]).includes(rule)) {
+    throw new Error(`Unknown lint rule: ${rule} (expected one of ${LINT_RULES.join(", ")})`);
+  }
+  if (!(LINT_SEVERITIES as readonly string[]).includes(severity)) {
+    throw new Error(`Invalid severity for ${rule}: ${severity} (expected ${LINT_SEVERITIES.join(", ")})`);
+  }
+  return [rule as LintRule, severity as LintSeverity];
+}
+
+/**
+ * Check labels against the lint rules, in label order
+ */
+export function lintLabels(
+  labels: Label[],
+  context: LintContext = {},
+  severities: Partial<Record<LintRule, LintSeverity>> = {}
+): LintReport {
+  const levels = { ...DEFAULT_LINT_SEVERITIES, ...severities };
+  const problems: LintProblem[] = [];
+
+  const report = (rule: LintRule, label: Label, message: string): void => {
+    const severity = levels[rule];
+    if (severity === "off") return;
+    problems.push({ rule, severity, label: describeLabel(label), message });
+  };
+
+  // Labels per interaction and reviewer, to find duplicates
+  const counts = new Map<string, number>();
+  for (const label of labels) {
+    const key = JSON.stringify([label.interactionId, label.reviewer]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  for (const label of labels) {
+    if (label.verdict === "needs_clarification") {
+      report("needs-clarification", label, "verdict is still needs_clarification");
+    }
+
+    if (label.verdict === "fail" && !label.notes?.trim()) {
+      report("fail-without-notes", label, "fail verdict without notes");
+    }
+
+    const count = counts.get(JSON.stringify([label.interactionId, label.reviewer])) ?? 0;
+    if (count > 1) {
+      report("duplicate-label", label, `${count} labels from ${label.reviewer} for this interaction`);
+    }
+
+    const interaction = context.interactions?.get(label.interactionId);
+    if (interaction && Date.parse(label.reviewedAt) < Date.parse(interaction.timestamp)) {
+      report(
+        "reviewed-before-interaction",
+        label,
+        `reviewedAt is before the interaction's timestamp ${interaction.timestamp}`
+      );
+    }
+
+    const allowed = label.expected?.allowedArtifactIds ?? [];
+    const blocked = new Set(label.expected?.blockedArtifactIds ?? []);
+    const overlap = allowed.filter((id) => blocked.has(id));
+    if (overlap.length > 0) {
+      report("allowed-blocked-overlap", label, `artifacts both allowed and blocked: ${overlap.join(", ")}`);
+    }
+
+    if (context.knownArtifactIds) {
+      const known = context.knownArtifactIds;
+      const unknown = [...new Set([...allowed, ...blocked])].filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        report("unknown-artifact", label, `unknown artifacts: ${unknown.join(", ")}`);
+      }
+    }
+  }
+
+  const skipped: LintRule[] = [];
+  if (!context.interactions && levels["reviewed-before-interaction"] !== "off") {
+    skipped.push("reviewed-before-interaction");
+  }
+  if (!context.knownArtifactIds && levels["unknown-artifact"] !== "off") {
+    skipped.push("unknown-artifact");
+  }
+
+  return {
+    problems,
+    errors: problems.filter((p) => p.severity === "error").length,
+    warnings: problems.filter((p) => p.severity === "warning").length,
+    skipped,
+  };
+}
+
+// Why a rule could not run
+const SKIP_REASONS: Partial<Record<LintRule, string>> = {
+  "reviewed-before-interaction": "needs --sample or the project store",
+  "unknown-artifact": "needs the project store",
+};
+
+/**
+ * Format a lint report for text output
+ */
+export function formatLintReport(report: LintReport, file: string): string {
+  const lines: string[] = [];
+  for (const problem of report.problems) {
+    lines.push(
+      `  ${problem.severity.padEnd(8)}${problem.rule.padEnd(29)}${problem.label}: ${problem.message}`
+    );
+  }
+  for (const rule of report.skipped) {
+    lines.push(`  skipped ${rule}: ${SKIP_REASONS[rule]}`);
+  }
+
+  const summary =
+    report.errors + report.warnings === 0
+      ? `${file}: no problems`
+      : `${file}: ${report.errors} errors, ${report.warnings} warnings`;
+  return [...lines, summary].join("\n");
+}
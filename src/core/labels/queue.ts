@@ -0,0 +1,32 @@
+import type { Interaction, Label } from "../types.js";
+import { DEFAULT_RESOLUTION, groupByInteraction, resolveLabel } from "./resolve.js";
+import type { Resolution } from "./config.js";
+
+/**
+ * An interaction waiting for review, with its effective label if any
+ */
+export interface QueueItem {
+  interaction: Interaction;
+  label: Label | null;
+}
+
+/**
+ * The interactions that still need a review: those without a label and
+ * those whose effective label is needs_clarification. Keeps the order of
+ * `interactions`.
+ */
+export function reviewQueue(
+  interactions: Interaction[],
+  labels: Label[],
+  resolution: Resolution = DEFAULT_RESOLUTION
+): QueueItem[] {
+  const byInteraction = groupByInteraction(labels);
+  const queue: QueueItem[] = [];
+  for (const interaction of interactions) {
+    const label = resolveLabel(byInteraction.get(interaction.interactionId) ?? [], resolution);
+    if (!label || label.verdict === "needs_clarification") {
+      queue.push({ interaction, label });
+    }
+  }
+  return queue;
+}
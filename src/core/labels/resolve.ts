@@ -0,0 +1,91 @@
+import type { Label } from "../types.js";
+import type { Resolution } from "./config.js";
+
+export const DEFAULT_RESOLUTION: Resolution = { policy: "latest" };
+
+// Lower is stricter
+const VERDICT_STRICTNESS: Record<Label["verdict"], number> = {
+  fail: 0,
+  needs_clarification: 1,
+  pass: 2,
+};
+
+// Most recent first; ties broken by reviewer so the order is stable
+function byRecency(a: Label, b: Label): number {
+  const diff = Date.parse(b.reviewedAt) - Date.parse(a.reviewedAt);
+  return diff !== 0 ? diff : a.reviewer.localeCompare(b.reviewer);
+}
+
+/**
+ * Each reviewer's most recent label among `labels` (of one interaction),
+ * most recent first
+ */
+export function latestPerReviewer(labels: Label[]): Label[] {
+  const latest = new Map<string, Label>();
+  for (const label of [...labels].sort(byRecency)) {
+    if (!latest.has(label.reviewer)) latest.set(label.reviewer, label);
+  }
+  return [...latest.values()];
+}
+
+/**
+ * The effective label among the labels of one interaction, or null if
+ * there are none
+ */
+export function resolveLabel(labels: Label[], resolution: Resolution = DEFAULT_RESOLUTION): Label | null {
+  const candidates = latestPerReviewer(labels);
+  if (candidates.length === 0) return null;
+
+  switch (resolution.policy) {
+    case "latest":
+      return candidates[0];
+
+    case "majority": {
+      const counts = new Map<string, number>();
+      for (const label of candidates) {
+        counts.set(label.verdict, (counts.get(label.verdict) ?? 0) + 1);
+      }
+      const top = Math.max(...counts.values());
+      // On a tie, the most recent label among the tied verdicts
+      return candidates.find((label) => counts.get(label.verdict) === top) ?? null;
+    }
+
+    case "strictest": {
+      const strictest = Math.min(...candidates.map((l) => VERDICT_STRICTNESS[l.verdict]));
+      return candidates.find((label) => VERDICT_STRICTNESS[label.verdict] === strictest) ?? null;
+    }
+
+    case "reviewer-priority":
+      for (const reviewer of resolution.reviewers ?? []) {
+        const label = candidates.find((l) => l.reviewer === reviewer);
+        if (label) return label;
+      }
+      return candidates[0];
+  }
+}
+
+/**
+ * Labels grouped by interaction id, in the order interactions first appear
+ */
+export function groupByInteraction(labels: Label[]): Map<string, Label[]> {
+  const groups = new Map<string, Label[]>();
+  for (const label of labels) {
+    const group = groups.get(label.interactionId);
+    if (group) group.push(label);
+    else groups.set(label.interactionId, [label]);
+  }
+  return groups;
+}
+
+/**
+ * The effective label of each interaction among `labels`, in the order
+ * interactions first appear
+ */
+export function resolveLabels(labels: Label[], resolution: Resolution = DEFAULT_RESOLUTION): Label[] {
+  const resolved: Label[] = [];
+  for (const group of groupByInteraction(labels).values()) {
+    const label = resolveLabel(group, resolution);
+    if (label) resolved.push(label);
+  }
+  return resolved;
+}
@@ -0,0 +1,332 @@
+import type { Interaction, Label, RetrievalItem } from "../types.js";
+import { LABEL_ASSIGNMENT_KEY, LABEL_CONTEXT_KEY, TEMPLATE_REVIEWER, isPlaceholderLabel } from "./template.js";
+import type { TemplateLabel } from "./template.js";
+
+export const EXPECTED_FIELDS = [
+  "expectedAnswer",
+  "mustInclude",
+  "mustNotInclude",
+  "allowedArtifactIds",
+  "blockedArtifactIds",
+] as const;
+
+export type ExpectedField = (typeof EXPECTED_FIELDS)[number];
+
+type Expected = NonNullable<Label["expected"]>;
+
+/**
+ * What a reviewer can do on an interaction
+ */
+export type ReviewAction =
+  | { type: "verdict"; verdict: Label["verdict"] }
+  | { type: "notes"; notes: string }
+  | { type: "expected"; field: ExpectedField; value: string }
+  | { type: "skip" }
+  | { type: "back" }
+  | { type: "quit" };
+
+/**
+ * An interactive review of a sample by one reviewer
+ */
+export interface ReviewState {
+  reviewer: string;
+  interactions: Interaction[];
+  /** Position in `interactions`; equal to its length once past the last */
+  index: number;
+  /** The reviewer's label of each interaction, from the labels file or this session */
+  labels: Map<string, Label>;
+  /** Unreviewed template labels, whose notes and expected fields start the draft */
+  placeholders: Map<string, Label>;
+  /** Interactions labeled in this session */
+  changed: Set<string>;
+  /** Interactions skipped and not labeled since */
+  skipped: Set<string>;
+  /** Notes and expected fields for the current interaction, saved with its verdict */
+  draft: Pick<Label, "notes" | "expected">;
+  done: boolean;
+}
+
+export interface ReviewSummary {
+  total: number;
+  /** Interactions the reviewer has labeled, in this session or before */
+  reviewed: number;
+  /** Labeled in this session */
+  labeledNow: number;
+  byVerdict: Record<Label["verdict"], number>;
+  skipped: number;
+  remaining: number;
+}
+
+function draftOf(label: Label | undefined): ReviewState["draft"] {
+  return label ? { notes: label.notes, expected: label.expected } : {};
+}
+
+function moveTo(state: ReviewState, index: number): ReviewState {
+  const id = state.interactions[index]?.interactionId;
+  return {
+    ...state,
+    index,
+    draft: draftOf(id === undefined ? undefined : (state.labels.get(id) ?? state.placeholders.get(id))),
+    done: index >= state.interactions.length,
+  };
+}
+
+/**
+ * Start (or resume) a review: the reviewer's existing labels among
+ * `labels` count as done, except template placeholders, and the review
+ * starts at the first interaction without one. Placeholders, the
+ * reviewer's own or else those of an anonymous template, start the draft.
+ * When `labels` is the reviewer's assignment template, the review covers
+ * only the interactions it lists.
+ */
+export function startReview(interactions: Interaction[], labels: Label[], reviewer: string): ReviewState {
+  const own = labels.filter((l) => l.reviewer === reviewer) as TemplateLabel[];
+  const assigned = new Set(
+    own.filter((l) => l[LABEL_ASSIGNMENT_KEY] !== undefined).map((l) => l.interactionId)
+  );
+  if (assigned.size > 0) {
+    interactions = interactions.filter((i) => assigned.has(i.interactionId));
+  }
+
+  const ids = new Set(interactions.map((i) => i.interactionId));
+  // The reviewer's most recent label of each interaction
+  const latest = new Map<string, Label>();
+  for (const label of own) {
+    if (!ids.has(label.interactionId)) continue;
+    const current = latest.get(label.interactionId);
+    if (!current || Date.parse(label.reviewedAt) >= Date.parse(current.reviewedAt)) {
+      latest.set(label.interactionId, label);
+    }
+  }
+  const placeholders = new Map<string, Label>();
+  for (const [id, label] of latest) {
+    if (!isPlaceholderLabel(label)) continue;
+    placeholders.set(id, label);
+    latest.delete(id);
+  }
+  for (const label of labels) {
+    const id = label.interactionId;
+    if (!ids.has(id) || latest.has(id) || placeholders.has(id) || !isTemplateLabel(label)) continue;
+    placeholders.set(id, label);
+  }
+
+  const first = interactions.findIndex((i) => !latest.has(i.interactionId));
+  return moveTo(
+    {
+      reviewer,
+      interactions,
+      index: 0,
+      labels: latest,
+      placeholders,
+      changed: new Set(),
+      skipped: new Set(),
+      draft: {},
+      done: false,
+    },
+    first === -1 ? interactions.length : first
+  );
+}
+
+/**
+ * The value of an expected field as typed: comma-separated for the list
+ * fields. An empty value clears the field.
+ */
+export function setExpected(expected: Label["expected"], field: ExpectedField, value: string): Label["expected"] {
+  const next: Expected = { ...expected };
+  const text = value.trim();
+
+  if (field === "expectedAnswer") {
+    if (text) next.expectedAnswer = text;
+    else delete next.expectedAnswer;
+  } else {
+    const items = text.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+    if (items.length > 0) next[field] = items;
+    else delete next[field];
+  }
+
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+/**
+ * The state after `action`. A verdict labels the current interaction with
+ * the draft's notes and expected fields and moves to the next one.
+ */
+export function applyReviewAction(state: ReviewState, action: ReviewAction, now: Date = new Date()): ReviewState {
+  if (state.done) return state;
+  const current = state.interactions[state.index];
+
+  switch (action.type) {
+    case "verdict": {
+      const label: Label = {
+        interactionId: current.interactionId,
+        reviewedAt: now.toISOString(),
+        reviewer: state.reviewer,
+        verdict: action.verdict,
+        ...(state.draft.notes ? { notes: state.draft.notes } : {}),
+        ...(state.draft.expected ? { expected: state.draft.expected } : {}),
+      };
+      const labels = new Map(state.labels).set(current.interactionId, label);
+      const changed = new Set(state.changed).add(current.interactionId);
+      const skipped = new Set(state.skipped);
+      skipped.delete(current.interactionId);
+      return moveTo({ ...state, labels, changed, skipped }, state.index + 1);
+    }
+
+    case "notes":
+      return { ...state, draft: { ...state.draft, notes: action.notes.trim() || undefined } };
+
+    case "expected":
+      return {
+        ...state,
+        draft: { ...state.draft, expected: setExpected(state.draft.expected, action.field, action.value) },
+      };
+
+    case "skip": {
+      const skipped = new Set(state.skipped);
+      if (!state.labels.has(current.interactionId)) skipped.add(current.interactionId);
+      return moveTo({ ...state, skipped }, state.index + 1);
+    }
+
+    case "back":
+      return moveTo(state, Math.max(0, state.index - 1));
+
+    case "quit":
+      return { ...state, done: true };
+  }
+}
+
+/**
+ * The labels file after a review: labels from this session replace the
+ * reviewer's earlier labels of the same interactions, and any template
+ * placeholders for them, in place, keeping their embedded context and
+ * assignment; the rest stay as they were
+ */
+export function reviewedLabels(state: ReviewState, existing: Label[]): Label[] {
+  const result: Label[] = [];
+  const written = new Set<string>();
+
+  for (const label of existing) {
+    const id = label.interactionId;
+    const replaced =
+      state.changed.has(id) && (label.reviewer === state.reviewer || isTemplateLabel(label));
+    if (!replaced) {
+      result.push(label);
+    } else if (!written.has(id)) {
+      result.push(withTemplateKeys(state.labels.get(id)!, label));
+      written.add(id);
+    }
+  }
+
+  for (const interaction of state.interactions) {
+    const id = interaction.interactionId;
+    if (state.changed.has(id) && !written.has(id)) {
+      result.push(state.labels.get(id)!);
+    }
+  }
+
+  return result;
+}
+
+// A label as `label template` writes it, not yet reviewed (its expected
+// fields may be prefilled)
+function isTemplateLabel(label: Label): boolean {
+  return label.reviewer === TEMPLATE_REVIEWER && label.verdict === "needs_clarification" && !label.notes;
+}
+
+// The reviewed label, with the template keys of the label it replaces
+function withTemplateKeys(label: Label, replaced: TemplateLabel): TemplateLabel {
+  const result: TemplateLabel = { ...label };
+  if (replaced[LABEL_CONTEXT_KEY]) result[LABEL_CONTEXT_KEY] = replaced[LABEL_CONTEXT_KEY];
+  if (replaced[LABEL_ASSIGNMENT_KEY] !== undefined) result[LABEL_ASSIGNMENT_KEY] = replaced[LABEL_ASSIGNMENT_KEY];
+  return result;
+}
+
+export function summarizeReview(state: ReviewState): ReviewSummary {
+  const byVerdict: ReviewSummary["byVerdict"] = { pass: 0, fail: 0, needs_clarification: 0 };
+  let reviewed = 0;
+  for (const interaction of state.interactions) {
+    const label = state.labels.get(interaction.interactionId);
+    if (!label) continue;
+    reviewed++;
+    byVerdict[label.verdict]++;
+  }
+
+  return {
+    total: state.interactions.length,
+    reviewed,
+    labeledNow: state.changed.size,
+    byVerdict,
+    skipped: state.skipped.size,
+    remaining: state.interactions.length - reviewed,
+  };
+}
+
+export function formatReviewSummary(summary: ReviewSummary): string {
+  const lines: string[] = [];
+  lines.push(`Labeled this session: ${summary.labeledNow}`);
+  lines.push(`Reviewed: ${summary.reviewed} of ${summary.total}`);
+  lines.push(`  pass: ${summary.byVerdict.pass}`);
+  lines.push(`  fail: ${summary.byVerdict.fail}`);
+  lines.push(`  needs_clarification: ${summary.byVerdict.needs_clarification}`);
+  if (summary.skipped > 0) {
+    lines.push(`Skipped: ${summary.skipped}`);
+  }
+  lines.push(`Remaining: ${summary.remaining}`);
+  return lines.join("\n");
+}
+
+function formatSnippet(item: RetrievalItem, index: number): string {
+  const source = [item.artifactId, item.chunkId].filter((s) => !!s).join("#");
+  const score = item.score !== undefined ? ` (score ${item.score})` : "";
+  const header = `  [${index + 1}] ${source || "(unknown source)"}${score}`;
+  return item.snippetText ? `${header}\n      ${item.snippetText.replace(/\n/g, "\n      ")}` : header;
+}
+
+/**
+ * An interaction as shown to the reviewer: input and output (or the
+ * conversation), retrieved snippets, and the reviewer's current label
+ */
+export function formatReviewItem(state: ReviewState): string {
+  const interaction = state.interactions[state.index];
+  const lines: string[] = [];
+
+  lines.push(`[${state.index + 1}/${state.interactions.length}] ${interaction.interactionId}`);
+  const dimensions = Object.entries(interaction.dimensions ?? {});
+  if (dimensions.length > 0) {
+    lines.push(dimensions.map(([key, value]) => `${key}=${value}`).join("  "));
+  }
+  lines.push("");
+
+  if (interaction.messages && interaction.messages.length > 0) {
+    for (const message of interaction.messages) {
+      lines.push(`${message.role}: ${message.content}`);
+    }
+  } else {
+    lines.push(`Input: ${interaction.input.text}`);
+    lines.push(`Output: ${interaction.output?.text ?? "(none)"}`);
+  }
+
+  const items: RetrievalItem[] = [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+  if (items.length > 0) {
+    lines.push("");
+    lines.push("Retrieved:");
+    items.forEach((item, i) => lines.push(formatSnippet(item, i)));
+  }
+
+  const label = state.labels.get(interaction.interactionId);
+  if (label) {
+    lines.push("");
+    lines.push(`Current label: ${label.verdict} (${label.reviewedAt})`);
+  }
+  if (state.draft.notes) {
+    lines.push(`Notes: ${state.draft.notes}`);
+  }
+  for (const [field, value] of Object.entries(state.draft.expected ?? {})) {
+    lines.push(`${field}: ${Array.isArray(value) ? value.join(", ") : value}`);
+  }
+
+  return lines.join("\n");
+}
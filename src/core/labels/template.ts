@@ -0,0 +1,283 @@
+import type { Artifact, Interaction, Label, RetrievalItem } from "../types.js";
+import { escapeHtml, safeHref } from "../ui/html.js";
+import { groupByInteraction, latestPerReviewer } from "./resolve.js";
+
+/**
+ * Reviewer of the placeholder labels `label template` writes without
+ * --reviewer
+ */
+export const TEMPLATE_REVIEWER = "anonymous";
+
+/**
+ * Key of the read-only interaction context embedded in template labels.
+ * Only the label fields are stored, so ingest and publish ignore it.
+ */
+export const LABEL_CONTEXT_KEY = "_context";
+
+/**
+ * Key naming the assignment round on the labels of a `label assign`
+ * template, so `label review` keeps to the interactions it lists
+ */
+export const LABEL_ASSIGNMENT_KEY = "_assignment";
+
+export const TEMPLATE_CONTEXT_FIELDS = ["input", "output", "messages", "retrieval", "dimensions"] as const;
+
+export type TemplateContextField = (typeof TEMPLATE_CONTEXT_FIELDS)[number];
+
+export const TEMPLATE_FORMATS = ["jsonl", "markdown", "html"] as const;
+
+export type TemplateFormat = (typeof TEMPLATE_FORMATS)[number];
+
+export interface LabelContext {
+  input?: string;
+  output?: string;
+  messages?: Array<{ role: string; content: string }>;
+  retrieval?: Array<RetrievalItem & Pick<Artifact, "title" | "uri">>;
+  dimensions?: Record<string, string>;
+}
+
+export type TemplateLabel = Label & {
+  [LABEL_CONTEXT_KEY]?: LabelContext;
+  [LABEL_ASSIGNMENT_KEY]?: string;
+};
+
+export interface TemplateOptions {
+  /** Reviewer on the labels (default: anonymous) */
+  reviewer?: string;
+  /** Context to embed under _context */
+  include?: TemplateContextField[];
+  /** Stored labels of the interactions; the reviewer's most recent one is the starting point */
+  existing?: Label[];
+  /** Artifacts, to give retrieved snippets a title and link */
+  artifacts?: Map<string, Artifact>;
+  /** Assignment round to record under _assignment */
+  assignment?: string;
+  now?: Date;
+}
+
+/**
+ * Parse an --include list: comma-separated context fields, or "all"
+ */
+export function parseContextFields(value: string): TemplateContextField[] {
+  const names = value.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+  if (names.includes("all")) return [...TEMPLATE_CONTEXT_FIELDS];
+
+  for (const name of names) {
+    if (!(TEMPLATE_CONTEXT_FIELDS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown context field: ${name} (expected ${TEMPLATE_CONTEXT_FIELDS.join(", ")} or all)`);
+    }
+  }
+  return names as TemplateContextField[];
+}
+
+function retrievalItems(interaction: Interaction): RetrievalItem[] {
+  return [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+}
+
+function labelContext(
+  interaction: Interaction,
+  include: TemplateContextField[],
+  artifacts: Map<string, Artifact>
+): LabelContext | undefined {
+  const context: LabelContext = {};
+
+  for (const field of include) {
+    switch (field) {
+      case "input":
+        context.input = interaction.input.text;
+        break;
+      case "output":
+        if (interaction.output) context.output = interaction.output.text;
+        break;
+      case "messages":
+        if (interaction.messages?.length) {
+          context.messages = interaction.messages.map((m) => ({ role: m.role, content: m.content }));
+        }
+        break;
+      case "retrieval": {
+        const items = retrievalItems(interaction);
+        if (items.length > 0) {
+          context.retrieval = items.map((item) => {
+            const artifact = item.artifactId ? artifacts.get(item.artifactId) : undefined;
+            return {
+              ...item,
+              ...(artifact?.title ? { title: artifact.title } : {}),
+              ...(artifact?.uri ? { uri: artifact.uri } : {}),
+            };
+          });
+        }
+        break;
+      }
+      case "dimensions":
+        if (interaction.dimensions && Object.keys(interaction.dimensions).length > 0) {
+          context.dimensions = interaction.dimensions;
+        }
+        break;
+    }
+  }
+
+  return Object.keys(context).length > 0 ? context : undefined;
+}
+
+/**
+ * One label to fill in per interaction. A label starts as a copy of the
+ * reviewer's most recent stored label of the interaction, if any, keeping
+ * its reviewedAt so that ingesting it unchanged adds no second label.
+ * Otherwise expected.allowedArtifactIds defaults to the artifacts it
+ * retrieved.
+ */
+export function buildLabelTemplate(interactions: Interaction[], options: TemplateOptions = {}): TemplateLabel[] {
+  const reviewer = options.reviewer ?? TEMPLATE_REVIEWER;
+  const reviewedAt = (options.now ?? new Date()).toISOString();
+  const existing = groupByInteraction(options.existing ?? []);
+
+  return interactions.map((interaction) => {
+    const previous = latestPerReviewer(existing.get(interaction.interactionId) ?? []).find(
+      (l) => l.reviewer === reviewer
+    );
+
+    const expected = { ...previous?.expected };
+    if (!previous) {
+      const ids = [...new Set(retrievalItems(interaction).flatMap((i) => (i.artifactId ? [i.artifactId] : [])))];
+      if (ids.length > 0) expected.allowedArtifactIds = ids;
+    }
+
+    const label: TemplateLabel = {
+      interactionId: interaction.interactionId,
+      reviewedAt: previous?.reviewedAt ?? reviewedAt,
+      reviewer,
+      verdict: previous?.verdict ?? "needs_clarification",
+      notes: previous?.notes ?? "",
+      ...(Object.keys(expected).length > 0 ? { expected } : {}),
+    };
+
+    const context = labelContext(interaction, options.include ?? [], options.artifacts ?? new Map<string, Artifact>());
+    if (context) label[LABEL_CONTEXT_KEY] = context;
+    if (options.assignment !== undefined) label[LABEL_ASSIGNMENT_KEY] = options.assignment;
+    return label;
+  });
+}
+
+/**
+ * Whether a label is a template placeholder nobody has reviewed yet:
+ * needs_clarification with the empty notes the template writes. Labels
+ * saved by `label review` leave empty notes out, so a reviewer's own
+ * needs_clarification is never taken for one.
+ */
+export function isPlaceholderLabel(label: Label): boolean {
+  return label.verdict === "needs_clarification" && label.notes === "";
+}
+
+function markdownBlock(text: string): string {
+  const fence = text.includes("```") ? "~~~" : "```";
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function expectedLines(expected: Label["expected"]): string[] {
+  return Object.entries(expected ?? {}).map(
+    ([field, value]) => `${field}: ${Array.isArray(value) ? value.join(", ") : value}`
+  );
+}
+
+/**
+ * A Markdown review packet: each interaction's context followed by its
+ * label to fill in
+ */
+export function formatTemplateMarkdown(labels: TemplateLabel[]): string {
+  const sections = labels.map((label, index) => {
+    const context = label[LABEL_CONTEXT_KEY] ?? {};
+    const lines: string[] = [`## ${index + 1}. ${label.interactionId}`, ""];
+
+    if (context.dimensions) {
+      lines.push(Object.entries(context.dimensions).map(([k, v]) => `\`${k}=${v}\``).join(" "), "");
+    }
+    if (context.messages) {
+      for (const message of context.messages) {
+        lines.push(`**${message.role}**`, "", markdownBlock(message.content), "");
+      }
+    }
+    if (context.input !== undefined) lines.push("**Input**", "", markdownBlock(context.input), "");
+    if (context.output !== undefined) lines.push("**Output**", "", markdownBlock(context.output), "");
+    if (context.retrieval) {
+      lines.push("**Retrieved**", "");
+      context.retrieval.forEach((item, i) => {
+        const name = item.title ?? item.artifactId ?? "(unknown source)";
+        const href = safeHref(item.uri);
+        const score = item.score !== undefined ? ` (score ${item.score})` : "";
+        lines.push(`${i + 1}. ${href ? `[${name}](${href})` : name}${score}`);
+        if (item.snippetText) lines.push(`   > ${item.snippetText.replace(/\n/g, "\n   > ")}`);
+      });
+      lines.push("");
+    }
+
+    lines.push(`**Label** (${label.reviewer})`, "");
+    lines.push(`- verdict: ${label.verdict}  (pass / fail / needs_clarification)`);
+    lines.push(`- notes: ${label.notes ?? ""}`);
+    for (const line of expectedLines(label.expected)) lines.push(`- ${line}`);
+    return lines.join("\n");
+  });
+
+  return `# Review packet\n\n${labels.length} interactions\n\n${sections.join("\n\n---\n\n")}\n`;
+}
+
+/**
+ * An HTML review packet: a standalone page with each interaction's context
+ * followed by its label to fill in
+ */
+export function formatTemplateHtml(labels: TemplateLabel[]): string {
+  const sections = labels.map((label, index) => {
+    const context = label[LABEL_CONTEXT_KEY] ?? {};
+    const parts: string[] = [`<section><h2>${index + 1}. ${escapeHtml(label.interactionId)}</h2>`];
+
+    if (context.dimensions) {
+      const dims = Object.entries(context.dimensions).map(([k, v]) => `${k}=${v}`).join("  ");
+      parts.push(`<p class="muted">${escapeHtml(dims)}</p>`);
+    }
+    for (const message of context.messages ?? []) {
+      parts.push(`<h3>${escapeHtml(message.role)}</h3><pre>${escapeHtml(message.content)}</pre>`);
+    }
+    if (context.input !== undefined) parts.push(`<h3>Input</h3><pre>${escapeHtml(context.input)}</pre>`);
+    if (context.output !== undefined) parts.push(`<h3>Output</h3><pre>${escapeHtml(context.output)}</pre>`);
+    if (context.retrieval) {
+      parts.push("<h3>Retrieved</h3><ol>");
+      for (const item of context.retrieval) {
+        const name = escapeHtml(item.title ?? item.artifactId ?? "(unknown source)");
+        const href = safeHref(item.uri);
+        const score = item.score !== undefined ? ` <span class="muted">score ${item.score}</span>` : "";
+        const text = item.snippetText ? `<pre>${escapeHtml(item.snippetText)}</pre>` : "";
+        parts.push(`<li>${href ? `<a href="${escapeHtml(href)}">${name}</a>` : name}${score}${text}</li>`);
+      }
+      parts.push("</ol>");
+    }
+
+    parts.push(`<h3>Label (${escapeHtml(label.reviewer)})</h3><ul>`);
+    parts.push(`<li>verdict: ${escapeHtml(label.verdict)} <span class="muted">(pass / fail / needs_clarification)</span></li>`);
+    parts.push(`<li>notes: ${escapeHtml(label.notes ?? "")}</li>`);
+    for (const line of expectedLines(label.expected)) parts.push(`<li>${escapeHtml(line)}</li>`);
+    parts.push("</ul></section>");
+    return parts.join("\n");
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Review packet</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem 2rem; color: #222; }
+  section { border-top: 1px solid #ddd; padding-top: 0.5rem; }
+  pre { white-space: pre-wrap; background: #f6f6f6; padding: 0.75rem; border-radius: 4px; }
+  .muted { color: #777; }
+</style>
+</head>
+<body>
+<h1>Review packet</h1>
+<p>${labels.length} interactions</p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { isIP } from "net";
+import { join } from "path";
+import type { Interaction, RetrievalItem } from "../types.js";
+import { fileExists, getGoldensetDir, readJson } from "../../util/fs.js";
+import { hashString } from "../../util/hash.js";
+import { formatIssues } from "../ingest/schemas.js";
+
+export const BUILTIN_DETECTORS = ["jwt", "api-key", "email", "credit-card", "ip", "phone"] as const;
+
+export const REDACTION_ACTIONS = ["mask", "hash", "drop-line"] as const;
+
+/**
+ * What to do with a match:
+ * - mask: replace it with [REDACTED:<detector>]
+ * - hash: replace it with [<detector>:<hash>], so equal values stay equal
+ * - drop-line: do not ingest the interaction at all
+ */
+export type RedactionAction = (typeof REDACTION_ACTIONS)[number];
+
+// Tag added to every interaction that had text replaced
+export const REDACTED_TAG = "pii:redacted";
+
+// Project redaction config, inside .goldenset/
+export const REDACTION_FILE = "redact.json";
+
+// Hex characters of the sha256 kept by the hash action
+const HASH_LENGTH = 12;
+
+const ActionSchema = z.enum(REDACTION_ACTIONS);
+
+const CustomDetectorSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.string().min(1),
+  flags: z.string().optional(),
+  action: ActionSchema.optional(),
+});
+
+// Built-in detectors are all on (with `mask`) unless set to false or
+// given another action
+export const RedactionConfigSchema = z.object({
+  detectors: z
+    .partialRecord(z.enum(BUILTIN_DETECTORS), z.union([ActionSchema, z.literal(false)]))
+    .optional(),
+  custom: z.array(CustomDetectorSchema).optional(),
+});
+
+export type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+
+export interface Detector {
+  name: string;
+  pattern: RegExp;
+  action: RedactionAction;
+  /** Rejects false positives among the pattern's matches */
+  validate?: (match: string) => boolean;
+}
+
+export interface RedactionSummary {
+  /** Interactions that had text masked or hashed */
+  redacted: number;
+  /** Interactions dropped by a drop-line detector */
+  dropped: number;
+  /** Matches per detector, including those in dropped interactions */
+  counts: Record<string, number>;
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function phoneDigits(match: string): boolean {
+  const count = match.replace(/\D/g, "").length;
+  return count >= 10 && count <= 15;
+}
+
+// Order matters: earlier detectors replace their matches before later
+// ones run, so e.g. a JWT is never half-matched as something else
+const BUILTIN_PATTERNS: Record<
+  (typeof BUILTIN_DETECTORS)[number],
+  Pick<Detector, "pattern" | "validate">
+> = {
+  jwt: { pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  "api-key": {
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g,
+  },
+  email: { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  "credit-card": { pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, validate: luhn },
+  ip: {
+    // IPv4, or IPv6 candidates confirmed by net.isIP
+    pattern: /(?<![\w.:])(?:\d{1,3}(?:\.\d{1,3}){3}|(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4})(?![\w:]|\.\d)/g,
+    validate: (match) => isIP(match) !== 0,
+  },
+  phone: {
+    // Not part of a longer run of digit groups, e.g. an order number
+    pattern:
+      /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?!\w|[\s.-]\d)/g,
+    validate: phoneDigits,
+  },
+};
+
+export function getRedactionConfigPath(projectRoot?: string): string {
+  return join(getGoldensetDir(projectRoot), REDACTION_FILE);
+}
+
+/**
+ * Load and validate a redaction config file
+ */
+export async function loadRedactionConfig(path: string): Promise<RedactionConfig> {
+  const result = RedactionConfigSchema.safeParse(await readJson<unknown>(path));
+  if (!result.success) {
+    throw new Error(`Invalid redaction config ${path}: ${formatIssues(result.error.issues)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the project's redaction config, or null when there is none
+ */
+export async function loadProjectRedactionConfig(
+  projectRoot?: string
+): Promise<RedactionConfig | null> {
+  const path = getRedactionConfigPath(projectRoot);
+  return fileExists(path) ? loadRedactionConfig(path) : null;
+}
+
+/**
+ * Build the detectors a config enables: built-ins first, then custom ones
+ */
+export function buildDetectors(config: RedactionConfig = {}): Detector[] {
+  const detectors: Detector[] = [];
+
+  for (const name of BUILTIN_DETECTORS) {
+    const action = config.detectors?.[name] ?? "mask";
+    if (action === false) continue;
+    detectors.push({ name, action, ...BUILTIN_PATTERNS[name] });
+  }
+
+  for (const custom of config.custom ?? []) {
+    let pattern: RegExp;
+    try {
+      // Always global, since every match is replaced
+      pattern = new RegExp(custom.pattern, [...new Set(`${custom.flags ?? ""}g`)].join(""));
+    } catch (err) {
+      throw new Error(
+        `Invalid pattern for detector ${custom.name}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    detectors.push({ name: custom.name, pattern, action: custom.action ?? "mask" });
+  }
+
+  return detectors;
+}
+
+export interface RedactedText {
+  text: string;
+  /** Matches per detector */
+  counts: Record<string, number>;
+  /** Whether a drop-line detector matched */
+  drop: boolean;
+}
+
+/**
+ * Run every detector over a piece of text
+ */
+export function redactText(text: string, detectors: Detector[]): RedactedText {
+  const counts: Record<string, number> = {};
+  let drop = false;
+
+  for (const detector of detectors) {
+    text = text.replace(detector.pattern, (match) => {
+      if (detector.validate && !detector.validate(match)) return match;
+
+      counts[detector.name] = (counts[detector.name] ?? 0) + 1;
+      if (detector.action === "hash") {
+        return `[${detector.name}:${hashString(match).slice(0, HASH_LENGTH)}]`;
+      }
+      // drop-line text is discarded, but masking keeps later detectors
+      // from matching inside it
+      drop ||= detector.action === "drop-line";
+      return `[REDACTED:${detector.name}]`;
+    });
+  }
+
+  return { text, counts, drop };
+}
+
+/**
+ * Redact the free-text fields of one interaction: input, output, message
+ * contents and retrieval snippets. Ids, dimensions and tags are left alone.
+ */
+function redactInteraction(
+  interaction: Interaction,
+  detectors: Detector[]
+): Omit<RedactedText, "text"> & { interaction: Interaction } {
+  const counts: Record<string, number> = {};
+  let drop = false;
+
+  const redact = (text: string): string => {
+    const result = redactText(text, detectors);
+    for (const [name, count] of Object.entries(result.counts)) {
+      counts[name] = (counts[name] ?? 0) + count;
+    }
+    drop ||= result.drop;
+    return result.text;
+  };
+
+  const redactItems = (items: RetrievalItem[]): RetrievalItem[] =>
+    items.map((item) =>
+      item.snippetText === undefined ? item : { ...item, snippetText: redact(item.snippetText) }
+    );
+
+  const redacted: Interaction = { ...interaction, input: { text: redact(interaction.input.text) } };
+  if (interaction.output) {
+    redacted.output = { text: redact(interaction.output.text) };
+  }
+  if (interaction.messages) {
+    redacted.messages = interaction.messages.map((message) => {
+      const items = message.context?.retrieval?.items;
+      return {
+        ...message,
+        content: redact(message.content),
+        ...(items && { context: { ...message.context, retrieval: { items: redactItems(items) } } }),
+      };
+    });
+  }
+  const items = interaction.context?.retrieval?.items;
+  if (items) {
+    redacted.context = { ...interaction.context, retrieval: { items: redactItems(items) } };
+  }
+
+  return { interaction: redacted, counts, drop };
+}
+
+/**
+ * Redact PII from parsed interactions before they are stored. Interactions
+ * with replaced text get the pii:redacted tag; those matched by a drop-line
+ * detector are left out.
+ */
+export function redactInteractions(
+  interactions: Interaction[],
+  detectors: Detector[]
+): { items: Interaction[]; summary: RedactionSummary } {
+  const items: Interaction[] = [];
+  const summary: RedactionSummary = { redacted: 0, dropped: 0, counts: {} };
+
+  for (const original of interactions) {
+    const { interaction, counts, drop } = redactInteraction(original, detectors);
+
+    for (const [name, count] of Object.entries(counts)) {
+      summary.counts[name] = (summary.counts[name] ?? 0) + count;
+    }
+
+    if (drop) {
+      summary.dropped++;
+      continue;
+    }
+
+    if (Object.keys(counts).length > 0) {
+      const tags = interaction.tags ?? [];
+      interaction.tags = tags.includes(REDACTED_TAG) ? tags : [...tags, REDACTED_TAG];
+      summary.redacted++;
+    }
+    items.push(interaction);
+  }
+
+  return { items, summary };
+}
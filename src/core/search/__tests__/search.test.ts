@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { toFtsQuery } from "../query.js";
+import { parseFilter } from "../../filter/parse.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import { MIGRATIONS, migrate } from "../../store/migrations.js";
+import type { Interaction } from "../../types.js";
+
+describe("toFtsQuery", () => {
+  it("quotes terms and keeps phrases, prefixes, OR and column scopes", () => {
+    expect(toFtsQuery("refund policy")).toBe('"refund" "policy"');
+    expect(toFtsQuery('"reset my password" onboard*')).toBe('"reset my password" "onboard"*');
+    expect(toFtsQuery('vpn OR "remote access"')).toBe('"vpn" OR "remote access"');
+    expect(toFtsQuery("output:escalat* what's")).toBe('output : "escalat"* "what\'s"');
+    expect(toFtsQuery('OR say "hi" OR')).toBe('"OR" "say" "hi" "OR"');
+    expect(toFtsQuery("NEAR(a b)")).toBe('"NEAR(a" "b)"');
+  });
+
+  it("rejects malformed queries", () => {
+    expect(() => toFtsQuery("   ")).toThrow("Invalid search query: empty query");
+    expect(() => toFtsQuery('"open phrase')).toThrow("unterminated quote");
+    expect(() => toFtsQuery("input:")).toThrow("expected a term after input:");
+  });
+});
+
+describe("SQLiteStore.searchInteractions", () => {
+  let tempDir: string;
+  let store: SQLiteStore;
+
+  const interactions: Interaction[] = [
+    {
+      interactionId: "1",
+      timestamp: "2026-01-05T10:00:00Z",
+      input: { text: "How do I reset my password?" },
+      output: { text: "Use the self-service portal." },
+      dimensions: { intent: "account" },
+    },
+    {
+      interactionId: "2",
+      timestamp: "2026-01-06T10:00:00Z",
+      input: { text: "VPN keeps disconnecting" },
+      context: {
+        retrieval: { items: [{ artifactId: "kb-1", snippetText: "Reset the VPN client password cache" }] },
+      },
+      dimensions: { intent: "network" },
+    },
+    {
+      interactionId: "3",
+      timestamp: "2026-01-07T10:00:00Z",
+      input: { text: "Onboarding checklist for new hires" },
+      dimensions: { intent: "onboarding" },
+    },
+  ];
+
+  const search = (query: string, options = {}) =>
+    store.searchInteractions(toFtsQuery(query), options).map((h) => h.interaction.interactionId);
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-search-test-"));
+    store = new SQLiteStore(join(tempDir, "db.sqlite"));
+    store.upsertInteractions(interactions);
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("matches words, phrases and prefixes across input, output and snippets", () => {
+    expect(search("password").sort()).toEqual(["1", "2"]);
+    expect(search('"reset my password"')).toEqual(["1"]);
+    expect(search("onboard*")).toEqual(["3"]);
+    expect(search("portal OR hires").sort()).toEqual(["1", "3"]);
+    expect(search("snippets:password")).toEqual(["2"]);
+    expect(search("password", { filter: parseFilter("intent=network") })).toEqual(["2"]);
+    expect(search("password", { limit: 1 })).toHaveLength(1);
+  });
+
+  it("highlights only the fields that matched", () => {
+    const [hit] = store.searchInteractions(toFtsQuery("vpn"), { highlight: { open: "<", close: ">" } });
+
+    expect(hit.interaction.interactionId).toBe("2");
+    expect(hit.highlights).toEqual({
+      input: "<VPN> keeps disconnecting",
+      snippets: "Reset the <VPN> client password cache",
+    });
+  });
+
+  it("keeps the index in sync with updates and deletes", () => {
+    store.upsertInteraction({ ...interactions[0], input: { text: "Printer is jammed" } });
+    store.deleteInteraction("2");
+
+    expect(search("password")).toEqual([]);
+    expect(search("printer")).toEqual(["1"]);
+  });
+
+  it("indexes interactions already in the database when migrating", () => {
+    const dbPath = join(tempDir, "old.sqlite");
+    const db = new Database(dbPath);
+    migrate(db, { migrations: MIGRATIONS.filter((m) => m.version < 4) });
+    db.prepare("INSERT INTO interactions (interactionId, timestamp, input) VALUES (?, ?, ?)").run(
+      "old",
+      "2025-01-01T00:00:00Z",
+      JSON.stringify({ text: "Legacy expense report question" })
+    );
+    db.close();
+
+    const migrated = new SQLiteStore(dbPath);
+    try {
+      expect(
+        migrated.searchInteractions(toFtsQuery("expense")).map((h) => h.interaction.interactionId)
+      ).toEqual(["old"]);
+    } finally {
+      migrated.close();
+    }
+  });
+});
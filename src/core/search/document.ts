@@ -0,0 +1,38 @@
+import type { Interaction, RetrievalItem } from "../types.js";
+
+/**
+ * Columns of the full-text index, in index order
+ */
+export const SEARCH_FIELDS = ["input", "output", "snippets"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export type SearchDocument = Record<SearchField, string | null>;
+
+/**
+ * The text of an interaction that the full-text index covers: input,
+ * output and the snippets it retrieved (on any turn)
+ */
+export function searchDocument(
+  interaction: Pick<Interaction, "input" | "output" | "messages" | "context">
+): SearchDocument {
+  const items: RetrievalItem[] = [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+  const snippets = items.map((item) => item.snippetText).filter((text) => !!text);
+
+  return {
+    input: interaction.input.text,
+    output: interaction.output?.text ?? null,
+    snippets: snippets.length > 0 ? snippets.join("\n") : null,
+  };
+}
+
+export interface SearchHit {
+  interaction: Interaction;
+  /** bm25 relevance; higher is better */
+  score: number;
+  /** Excerpts around the matched terms, for the fields that matched */
+  highlights: Partial<Record<SearchField, string>>;
+}
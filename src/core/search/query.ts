@@ -0,0 +1,111 @@
+import { SEARCH_FIELDS } from "./document.js";
+import type { SearchField } from "./document.js";
+
+/**
+ * Search queries, as taken by `goldenset search`:
+ *
+ *   refund policy            both words, anywhere
+ *   "reset my password"      the exact phrase
+ *   onboard*                 words starting with "onboard"
+ *   vpn OR "remote access"   either
+ *   output:escalate          only in the output (also input:, snippets:)
+ *
+ * Terms are quoted before they reach FTS5, so punctuation in a query is
+ * never read as FTS5 syntax.
+ */
+
+type Term = { field?: SearchField; text: string; prefix: boolean };
+
+function queryError(message: string): Error {
+  return new Error(`Invalid search query: ${message}`);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function isSearchField(name: string): name is SearchField {
+  return (SEARCH_FIELDS as readonly string[]).includes(name);
+}
+
+function renderTerm(term: Term): string {
+  const phrase = quote(term.text) + (term.prefix ? "*" : "");
+  return term.field ? `${term.field} : ${phrase}` : phrase;
+}
+
+function tokenize(input: string): Array<Term | "OR"> {
+  const tokens: Array<Term | "OR"> = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    // Optional column scope
+    let field: SearchField | undefined;
+    const scope = /^([a-z]+):/.exec(input.slice(i));
+    if (scope && isSearchField(scope[1])) {
+      field = scope[1];
+      i += scope[0].length;
+    }
+
+    let text: string;
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw queryError("unterminated quote");
+      text = input.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s"]/.test(input[i])) i++;
+      text = input.slice(start, i);
+    }
+
+    let prefix = false;
+    if (input[i] === "*") {
+      prefix = true;
+      i++;
+    } else if (text.endsWith("*")) {
+      prefix = true;
+      text = text.slice(0, -1);
+    }
+
+    if (!field && !prefix && text === "OR") {
+      tokens.push("OR");
+    } else if (text.trim() === "") {
+      throw queryError(field ? `expected a term after ${field}:` : "empty term");
+    } else {
+      tokens.push({ field, text, prefix });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Translate a search query into an FTS5 MATCH expression
+ */
+export function toFtsQuery(input: string): string {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw queryError("empty query");
+
+  const parts: string[] = [];
+  tokens.forEach((token, index) => {
+    if (token !== "OR") {
+      parts.push(renderTerm(token));
+      return;
+    }
+    // OR joins the terms either side of it; anywhere else it is just a word
+    const before = tokens[index - 1];
+    const after = tokens[index + 1];
+    if (before && before !== "OR" && after && after !== "OR") {
+      parts.push("OR");
+    } else {
+      parts.push(renderTerm({ text: "OR", prefix: false }));
+    }
+  });
+
+  return parts.join(" ");
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { MIGRATIONS, getMigrationStatus, getSchemaVersion, migrate } from "../migrations.js";
+import type { Migration } from "../migrations.js";
+import { SQLiteStore } from "../sqlite.js";
+import { rollbackBatch } from "../../ingest/batches.js";
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+describe("schema migrations", () => {
+  let tempDir: string;
+  let dbPath: string;
+  let backupDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-migrations-test-"));
+    dbPath = join(tempDir, "db.sqlite");
+    backupDir = join(tempDir, "backups");
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("brings a fresh database to the latest version without a backup", () => {
+    const db = new Database(dbPath);
+    const result = migrate(db, { backupDir });
+
+    expect(result).toMatchObject({ from: 0, to: LATEST });
+    expect(result.applied).toHaveLength(MIGRATIONS.length);
+    expect(result.backupPath).toBeUndefined();
+    expect(getMigrationStatus(db).pending).toEqual([]);
+
+    // Nothing left to do the second time
+    expect(migrate(db, { backupDir }).applied).toEqual([]);
+    db.close();
+  });
+
+  it("upgrades a pre-migration database in place, keeping its data", () => {
+    // Schema as created before messages and batches existed
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE interactions (
+        interactionId TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT,
+        context TEXT,
+        dimensions TEXT,
+        tags TEXT,
+        source TEXT
+      );
+    `);
+    legacy
+      .prepare("INSERT INTO interactions (interactionId, timestamp, input) VALUES (?, ?, ?)")
+      .run("1", "2026-01-01T00:00:00Z", JSON.stringify({ text: "q" }));
+    legacy.close();
+
+    const store = new SQLiteStore(dbPath, { migrate: false });
+    expect(store.getMigrationStatus()).toMatchObject({ current: 0, latest: LATEST });
+
+    const result = store.migrate();
+    expect(result.to).toBe(LATEST);
+    expect(result.backupPath).toBeDefined();
+    expect(existsSync(result.backupPath!)).toBe(true);
+    expect(store.getInteraction("1")?.input).toEqual({ text: "q" });
+
+    store.upsertInteraction({
+      interactionId: "2",
+      timestamp: "2026-01-02T00:00:00Z",
+      input: { text: "q2" },
+      messages: [{ role: "user", content: "q2" }],
+    });
+    expect(store.getInteraction("2")?.messages).toHaveLength(1);
+    store.close();
+
+    // The backup still has the old schema
+    const backup = new Database(result.backupPath);
+    expect(getSchemaVersion(backup)).toBe(0);
+    backup.close();
+  });
+
+  it("rekeys labels by reviewer and review time, keeping rollback working", () => {
+    const db = new Database(dbPath);
+    migrate(db, { migrations: MIGRATIONS.filter((m) => m.version < 5) });
+    db.pragma("foreign_keys = OFF");
+    const insertInteraction = db.prepare(
+      "INSERT INTO interactions (interactionId, timestamp, input) VALUES (?, '2026-01-01T00:00:00Z', '{\"text\":\"q\"}')"
+    );
+    insertInteraction.run("1");
+    const insertLabel = db.prepare(
+      "INSERT INTO labels (interactionId, reviewedAt, reviewer, verdict) VALUES (?, ?, ?, ?)"
+    );
+    insertLabel.run("1", "2026-01-02T00:00:00Z", "alice", "pass");
+    insertLabel.run("gone", "2026-01-02T00:00:00Z", "alice", "fail");
+    // A labels batch that inserted the label, named by interaction id
+    db.prepare(
+      "INSERT INTO ingest_batches (kind, sourcePath, sha256, createdAt) VALUES ('labels', 'l.jsonl', 'x', '2026-01-02T00:00:00Z')"
+    ).run();
+    db.prepare(
+      "INSERT INTO ingest_batch_rows (batchId, entity, entityId, action) VALUES (1, 'label', '1', 'insert')"
+    ).run();
+    db.close();
+
+    const store = new SQLiteStore(dbPath);
+    try {
+      store.upsertLabel({ interactionId: "1", reviewedAt: "2026-01-03T00:00:00Z", reviewer: "alice", verdict: "fail" });
+      expect(store.getLabels(["1"])).toHaveLength(2);
+      expect(store.getIngestBatchRows(1)[0].entityId).toBe('["1","alice","2026-01-02T00:00:00Z"]');
+      // The orphan is kept for doctor to report, and foreign keys are back on
+      expect(store.getOrphanLabelIds()).toEqual(["gone"]);
+      expect(store.getLabelHistory("gone").map((h) => h.action)).toEqual(["insert"]);
+      expect(store.foreignKeysEnforced()).toBe(true);
+
+      rollbackBatch(store, 1);
+      expect(store.getLabels(["1"]).map((l) => l.reviewedAt)).toEqual(["2026-01-03T00:00:00Z"]);
+    } finally {
+      store.close();
+    }
+  });
+
+  it("refuses a database from a newer version", () => {
+    const db = new Database(dbPath);
+    db.pragma(`user_version = ${LATEST + 1}`);
+
+    expect(() => migrate(db)).toThrow("newer than this version of goldenset");
+    db.close();
+  });
+
+  it("rolls back a failing migration and stops at the last good version", () => {
+    const db = new Database(dbPath);
+    const failing: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: LATEST + 1,
+        name: "broken",
+        up: (conn) => {
+          conn.exec("CREATE TABLE half_done (id TEXT)");
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    expect(() => migrate(db, { migrations: failing })).toThrow("boom");
+    expect(getSchemaVersion(db)).toBe(LATEST);
+    const table = db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get();
+    expect(table).toBeUndefined();
+    db.close();
+  });
+});
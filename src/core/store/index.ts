@@ -4,14 +4,19 @@ import { join } from "path";
 
 let storeInstance: SQLiteStore | null = null;
 
+/**
+ * Get the database file path
+ */
+export function getDbPath(projectRoot?: string): string {
+  return join(getGoldensetDir(projectRoot), "db.sqlite");
+}
+
 /**
  * Get or create the singleton store instance
  */
 export function getStore(projectRoot?: string): SQLiteStore {
   if (!storeInstance) {
-    const goldensetDir = getGoldensetDir(projectRoot);
-    const dbPath = join(goldensetDir, "db.sqlite");
-    storeInstance = new SQLiteStore(dbPath);
+    storeInstance = new SQLiteStore(getDbPath(projectRoot));
   }
   return storeInstance;
 }
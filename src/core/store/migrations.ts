@@ -0,0 +1,367 @@
+import type Database from "better-sqlite3";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import { searchDocument } from "../search/document.js";
+import type { Interaction } from "../types.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  /**
+   * Run with foreign keys off, for migrations that rebuild a table whose
+   * rows may not satisfy its key. The setting cannot change inside a
+   * transaction, so migrate switches it around the migration's.
+   */
+  foreignKeysOff?: boolean;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  current: number;
+  latest: number;
+  pending: Migration[];
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: Migration[];
+  /** Copy of the database taken before migrating, if any */
+  backupPath?: string;
+}
+
+function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  type: string
+): void {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+/**
+ * Schema migrations, in order. `PRAGMA user_version` holds the version of
+ * the last one applied.
+ *
+ * Databases created before migrations existed are at version 0 but may
+ * already have some of these tables, so every migration must be safe to
+ * run against a schema that already has its changes.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS artifacts (
+          artifactId TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          title TEXT,
+          uri TEXT,
+          updatedAt TEXT,
+          meta TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS interactions (
+          interactionId TEXT PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          input TEXT NOT NULL,
+          output TEXT,
+          context TEXT,
+          dimensions TEXT,
+          tags TEXT,
+          source TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS labels (
+          interactionId TEXT PRIMARY KEY,
+          reviewedAt TEXT NOT NULL,
+          reviewer TEXT NOT NULL,
+          verdict TEXT NOT NULL,
+          notes TEXT,
+          expected TEXT,
+          FOREIGN KEY (interactionId) REFERENCES interactions(interactionId)
+        );
+
+        CREATE TABLE IF NOT EXISTS dataset_versions (
+          name TEXT PRIMARY KEY,
+          createdAt TEXT NOT NULL,
+          description TEXT,
+          interactionIds TEXT NOT NULL,
+          stats TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_interactions_timestamp ON interactions(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_interactions_source ON interactions(source);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "multi-turn messages on interactions",
+    up: (db) => addColumnIfMissing(db, "interactions", "messages", "TEXT"),
+  },
+  {
+    version: 3,
+    name: "ingest batches",
+    up: (db) => {
+      // Ingest provenance: one row per ingest run, plus the rows it wrote
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ingest_batches (
+          batchId INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL,
+          sourcePath TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          inserted INTEGER NOT NULL DEFAULT 0,
+          updated INTEGER NOT NULL DEFAULT 0,
+          skipped INTEGER NOT NULL DEFAULT 0,
+          errors INTEGER NOT NULL DEFAULT 0,
+          rolledBackAt TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS ingest_batch_rows (
+          batchId INTEGER NOT NULL,
+          entity TEXT NOT NULL,
+          entityId TEXT NOT NULL,
+          action TEXT NOT NULL,
+          previous TEXT,
+          PRIMARY KEY (batchId, entity, entityId),
+          FOREIGN KEY (batchId) REFERENCES ingest_batches(batchId)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_batch_rows_entity ON ingest_batch_rows(entity, entityId);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "full-text search index",
+    up: (db) => {
+      // search_documents gives each interaction a stable integer rowid in
+      // search_index (interactions' own rowids may change on VACUUM)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS search_documents (
+          docId INTEGER PRIMARY KEY,
+          interactionId TEXT NOT NULL UNIQUE
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+          input,
+          output,
+          snippets,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+
+        DELETE FROM search_documents;
+        DELETE FROM search_index;
+      `);
+
+      const addDocument = db.prepare("INSERT INTO search_documents (interactionId) VALUES (?)");
+      const addText = db.prepare(
+        "INSERT INTO search_index (rowid, input, output, snippets) VALUES (?, ?, ?, ?)"
+      );
+      const rows = db
+        .prepare("SELECT interactionId, input, output, messages, context FROM interactions")
+        .all() as Array<{
+        interactionId: string;
+        input: string;
+        output: string | null;
+        messages: string | null;
+        context: string | null;
+      }>;
+
+      for (const row of rows) {
+        const doc = searchDocument({
+          input: JSON.parse(row.input) as Interaction["input"],
+          output: row.output ? (JSON.parse(row.output) as Interaction["output"]) : undefined,
+          messages: row.messages ? (JSON.parse(row.messages) as Interaction["messages"]) : undefined,
+          context: row.context ? (JSON.parse(row.context) as Interaction["context"]) : undefined,
+        });
+        const docId = addDocument.run(row.interactionId).lastInsertRowid;
+        addText.run(docId, doc.input, doc.output, doc.snippets);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: "multiple labels per interaction, with history",
+    foreignKeysOff: true,
+    up: (db) => {
+      // Every write to labels, kept by the triggers below so no writer can skip it
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS label_history (
+          historyId INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          recordedAt TEXT NOT NULL,
+          interactionId TEXT NOT NULL,
+          reviewer TEXT NOT NULL,
+          reviewedAt TEXT NOT NULL,
+          verdict TEXT NOT NULL,
+          notes TEXT,
+          expected TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_label_history_interaction ON label_history(interactionId);
+      `);
+
+      const keyColumns = (db.pragma("table_info(labels)") as Array<{ pk: number }>).filter(
+        (c) => c.pk > 0
+      );
+      if (keyColumns.length === 1) {
+        db.exec(`
+          -- Batch rows named labels by interaction id; name them by label key
+          -- instead, which is unambiguous while there is one label each
+          UPDATE ingest_batch_rows
+          SET entityId = (
+            SELECT json_array(l.interactionId, l.reviewer, l.reviewedAt)
+            FROM labels l WHERE l.interactionId = ingest_batch_rows.entityId
+          )
+          WHERE entity = 'label'
+            AND EXISTS (SELECT 1 FROM labels l WHERE l.interactionId = ingest_batch_rows.entityId);
+
+          -- Existing labels start the history
+          INSERT INTO label_history (action, recordedAt, interactionId, reviewer, reviewedAt, verdict, notes, expected)
+            SELECT 'insert', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), interactionId, reviewer, reviewedAt, verdict, notes, expected
+            FROM labels;
+
+          CREATE TABLE labels_new (
+            interactionId TEXT NOT NULL,
+            reviewer TEXT NOT NULL,
+            reviewedAt TEXT NOT NULL,
+            verdict TEXT NOT NULL,
+            notes TEXT,
+            expected TEXT,
+            PRIMARY KEY (interactionId, reviewer, reviewedAt),
+            FOREIGN KEY (interactionId) REFERENCES interactions(interactionId)
+          );
+          -- Every label is copied as-is, orphans included; doctor reports
+          -- those (the migration runs with foreign keys off)
+          INSERT INTO labels_new (interactionId, reviewer, reviewedAt, verdict, notes, expected)
+            SELECT interactionId, reviewer, reviewedAt, verdict, notes, expected
+            FROM labels;
+          DROP TABLE labels;
+          ALTER TABLE labels_new RENAME TO labels;
+        `);
+      }
+
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS labels_history_insert AFTER INSERT ON labels BEGIN
+          INSERT INTO label_history (action, recordedAt, interactionId, reviewer, reviewedAt, verdict, notes, expected)
+          VALUES ('insert', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), NEW.interactionId, NEW.reviewer, NEW.reviewedAt, NEW.verdict, NEW.notes, NEW.expected);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS labels_history_update AFTER UPDATE ON labels
+        WHEN OLD.verdict IS NOT NEW.verdict OR OLD.notes IS NOT NEW.notes OR OLD.expected IS NOT NEW.expected
+        BEGIN
+          INSERT INTO label_history (action, recordedAt, interactionId, reviewer, reviewedAt, verdict, notes, expected)
+          VALUES ('update', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), NEW.interactionId, NEW.reviewer, NEW.reviewedAt, NEW.verdict, NEW.notes, NEW.expected);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS labels_history_delete AFTER DELETE ON labels BEGIN
+          INSERT INTO label_history (action, recordedAt, interactionId, reviewer, reviewedAt, verdict, notes, expected)
+          VALUES ('delete', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), OLD.interactionId, OLD.reviewer, OLD.reviewedAt, OLD.verdict, OLD.notes, OLD.expected);
+        END;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "reviewer assignments",
+    up: (db) => {
+      // Not tied to interactions: a sample may be assigned before it is ingested
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS assignments (
+          name TEXT NOT NULL,
+          interactionId TEXT NOT NULL,
+          reviewer TEXT NOT NULL,
+          assignedAt TEXT NOT NULL,
+          overlap INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (name, interactionId, reviewer)
+        );
+      `);
+    },
+  },
+];
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): MigrationStatus {
+  const current = getSchemaVersion(db);
+  return {
+    current,
+    latest: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+    pending: migrations.filter((m) => m.version > current),
+  };
+}
+
+/**
+ * Copy the database to `backupDir` with VACUUM INTO; returns the path
+ */
+export function backupDatabase(db: Database.Database, backupDir: string, version: number): string {
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = join(backupDir, `db-v${version}-${stamp}.sqlite`);
+  db.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+}
+
+/**
+ * Apply pending migrations, each in its own transaction together with the
+ * user_version bump, so a failure leaves the database at the last version
+ * that fully applied. Non-empty databases are backed up to `backupDir`
+ * first.
+ */
+export function migrate(
+  db: Database.Database,
+  options: { backupDir?: string; migrations?: Migration[] } = {}
+): MigrationResult {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const status = getMigrationStatus(db, migrations);
+
+  if (status.current > status.latest) {
+    throw new Error(
+      `Database schema version ${status.current} is newer than this version of goldenset supports (${status.latest}). Upgrade goldenset.`
+    );
+  }
+
+  const result: MigrationResult = { from: status.current, to: status.current, applied: [] };
+  if (status.pending.length === 0) {
+    return result;
+  }
+
+  const tables = db
+    .prepare("SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table'")
+    .get() as { count: number };
+  if (options.backupDir && tables.count > 0) {
+    result.backupPath = backupDatabase(db, options.backupDir, status.current);
+  }
+
+  for (const migration of status.pending) {
+    const foreignKeys = db.pragma("foreign_keys", { simple: true }) as number;
+    if (migration.foreignKeysOff) db.pragma("foreign_keys = OFF");
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    } finally {
+      db.pragma(`foreign_keys = ${foreignKeys}`);
+    }
+    result.applied.push(migration);
+    result.to = migration.version;
+  }
+
+  return result;
+}
@@ -2,9 +2,45 @@ import Database from "better-sqlite3";
 import type {
   Interaction,
   Artifact,
+  Assignment,
   Label,
   DatasetVersion,
+  IngestBatch,
+  IngestBatchRow,
+  LabelHistoryEntry,
 } from "../types.js";
+import { dirname, join } from "path";
+import { migrate, getMigrationStatus } from "./migrations.js";
+import { inBatches } from "../../util/batch.js";
+import { planFilter } from "../filter/sql.js";
+import { matchesFilter, usesLabels } from "../filter/evaluate.js";
+import type { FilterExpr } from "../filter/parse.js";
+import { SEARCH_FIELDS, searchDocument } from "../search/document.js";
+import type { SearchHit } from "../search/document.js";
+import { groupByInteraction, latestPerReviewer, resolveLabel } from "../labels/resolve.js";
+import type { LabelKey } from "../labels/keys.js";
+import type { MigrationResult, MigrationStatus } from "./migrations.js";
+
+// Pre-migration backups, next to the database file
+export const BACKUP_DIR = "backups";
+
+// Rows written per transaction by the bulk write methods
+export const DEFAULT_BATCH_SIZE = 1000;
+
+export interface BulkWriteOptions {
+  batchSize?: number;
+}
+
+export interface SearchOptions {
+  /** Only interactions matching this filter */
+  filter?: FilterExpr;
+  limit?: number;
+  /** Strings put around matched terms in highlights */
+  highlight?: { open: string; close: string };
+}
+
+// Tokens of context either side of a match in highlights
+const HIGHLIGHT_TOKENS = 12;
 
 // Types for database row results
 type ArtifactRow = {
@@ -21,6 +57,7 @@ type InteractionRow = {
   timestamp: string;
   input: string;
   output: string | null;
+  messages: string | null;
   context: string | null;
   dimensions: string | null;
   tags: string | null;
@@ -36,6 +73,14 @@ type LabelRow = {
   expected: string | null;
 };
 
+type AssignmentRow = {
+  name: string;
+  interactionId: string;
+  reviewer: string;
+  assignedAt: string;
+  overlap: number;
+};
+
 type DatasetVersionRow = {
   name: string;
   createdAt: string;
@@ -44,76 +89,156 @@ type DatasetVersionRow = {
   stats: string;
 };
 
+type IngestBatchDbRow = {
+  batchId: number;
+  kind: string;
+  sourcePath: string;
+  sha256: string;
+  createdAt: string;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  rolledBackAt: string | null;
+};
+
+type IngestBatchRowDbRow = {
+  batchId: number;
+  entity: string;
+  entityId: string;
+  action: string;
+  previous: string | null;
+};
+
+function rowToInteraction(row: InteractionRow): Interaction {
+  return {
+    interactionId: row.interactionId,
+    timestamp: row.timestamp,
+    input: JSON.parse(row.input) as Interaction["input"],
+    output: row.output ? (JSON.parse(row.output) as Interaction["output"]) : undefined,
+    messages: row.messages ? (JSON.parse(row.messages) as Interaction["messages"]) : undefined,
+    context: row.context ? (JSON.parse(row.context) as Interaction["context"]) : undefined,
+    dimensions: row.dimensions ? (JSON.parse(row.dimensions) as Interaction["dimensions"]) : undefined,
+    tags: row.tags ? (JSON.parse(row.tags) as Interaction["tags"]) : undefined,
+    source: row.source || undefined,
+  };
+}
+
+function rowToLabel(row: LabelRow): Label {
+  return {
+    interactionId: row.interactionId,
+    reviewedAt: row.reviewedAt,
+    reviewer: row.reviewer,
+    verdict: row.verdict as Label["verdict"],
+    notes: row.notes || undefined,
+    expected: row.expected ? (JSON.parse(row.expected) as Label["expected"]) : undefined,
+  };
+}
+
+function rowToAssignment(row: AssignmentRow): Assignment {
+  return {
+    name: row.name,
+    interactionId: row.interactionId,
+    reviewer: row.reviewer,
+    assignedAt: row.assignedAt,
+    overlap: row.overlap === 1,
+  };
+}
+
+function rowToArtifact(row: ArtifactRow): Artifact {
+  return {
+    artifactId: row.artifactId,
+    type: row.type,
+    title: row.title || undefined,
+    uri: row.uri || undefined,
+    updatedAt: row.updatedAt || undefined,
+    meta: row.meta ? (JSON.parse(row.meta) as Record<string, string | number | boolean>) : undefined,
+  };
+}
+
+function rowToIngestBatch(row: IngestBatchDbRow): IngestBatch {
+  return {
+    batchId: row.batchId,
+    kind: row.kind as IngestBatch["kind"],
+    sourcePath: row.sourcePath,
+    sha256: row.sha256,
+    createdAt: row.createdAt,
+    inserted: row.inserted,
+    updated: row.updated,
+    skipped: row.skipped,
+    errors: row.errors,
+    rolledBackAt: row.rolledBackAt || undefined,
+  };
+}
+
 export class SQLiteStore {
   private db: Database.Database;
-
-  constructor(dbPath: string) {
+  // Prepared statements by SQL text, reused across calls
+  private statements = new Map<string, Database.Statement>();
+
+  /**
+   * Open (or create) a database. Pending schema migrations are applied
+   * unless `migrate` is false, backing the database up to a `backups/`
+   * folder next to it first.
+   */
+  constructor(private readonly dbPath: string, options: { migrate?: boolean } = {}) {
     this.db = new Database(dbPath);
     this.db.pragma("journal_mode = WAL");
-    this.initializeSchema();
-  }
-
-  private initializeSchema(): void {
-    // Artifacts table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS artifacts (
-        artifactId TEXT PRIMARY KEY,
-        type TEXT NOT NULL,
-        title TEXT,
-        uri TEXT,
-        updatedAt TEXT,
-        meta TEXT
-      )
-    `);
+    if (options.migrate !== false) {
+      this.migrate();
+    }
+  }
 
-    // Interactions table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS interactions (
-        interactionId TEXT PRIMARY KEY,
-        timestamp TEXT NOT NULL,
-        input TEXT NOT NULL,
-        output TEXT,
-        context TEXT,
-        dimensions TEXT,
-        tags TEXT,
-        source TEXT
-      )
-    `);
+  private prepare(sql: string): Database.Statement {
+    let stmt = this.statements.get(sql);
+    if (!stmt) {
+      stmt = this.db.prepare(sql);
+      this.statements.set(sql, stmt);
+    }
+    return stmt;
+  }
 
-    // Labels table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS labels (
-        interactionId TEXT PRIMARY KEY,
-        reviewedAt TEXT NOT NULL,
-        reviewer TEXT NOT NULL,
-        verdict TEXT NOT NULL,
-        notes TEXT,
-        expected TEXT,
-        FOREIGN KEY (interactionId) REFERENCES interactions(interactionId)
-      )
-    `);
+  /**
+   * Write `items` in transactions of `batchSize`. Returns the number written.
+   */
+  private writeInBatches<T>(
+    items: Iterable<T>,
+    write: (item: T) => void,
+    options: BulkWriteOptions
+  ): number {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const writeBatch = this.db.transaction((batch: T[]) => {
+      for (const item of batch) write(item);
+    });
 
-    // Dataset versions table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS dataset_versions (
-        name TEXT PRIMARY KEY,
-        createdAt TEXT NOT NULL,
-        description TEXT,
-        interactionIds TEXT NOT NULL,
-        stats TEXT NOT NULL
-      )
-    `);
+    let written = 0;
+    for (const batch of inBatches(items, batchSize)) {
+      writeBatch(batch);
+      written += batch.length;
+    }
+    return written;
+  }
 
-    // Indexes for performance
-    this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_interactions_timestamp ON interactions(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_interactions_source ON interactions(source);
-    `);
+  // Schema migrations
+  /**
+   * Whether this connection enforces foreign keys (PRAGMA foreign_keys).
+   * better-sqlite3 turns them on by default; other clients may not.
+   */
+  foreignKeysEnforced(): boolean {
+    return this.db.pragma("foreign_keys", { simple: true }) === 1;
+  }
+
+  getMigrationStatus(): MigrationStatus {
+    return getMigrationStatus(this.db);
+  }
+
+  migrate(): MigrationResult {
+    return migrate(this.db, { backupDir: join(dirname(this.dbPath), BACKUP_DIR) });
   }
 
   // Artifact operations
   upsertArtifact(artifact: Artifact): void {
-    const stmt = this.db.prepare(`
+    const stmt = this.prepare(`
       INSERT INTO artifacts (artifactId, type, title, uri, updatedAt, meta)
       VALUES (?, ?, ?, ?, ?, ?)
       ON CONFLICT(artifactId) DO UPDATE SET
@@ -134,32 +259,61 @@ export class SQLiteStore {
     );
   }
 
+  /**
+   * Insert an artifact only if its id is unknown; returns true if inserted.
+   * Used for stubs, which must never clobber a fully ingested artifact.
+   */
+  insertArtifactIfMissing(artifact: Artifact): boolean {
+    const result = this.prepare(`
+        INSERT INTO artifacts (artifactId, type, title, uri, updatedAt, meta)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(artifactId) DO NOTHING
+      `)
+      .run(
+        artifact.artifactId,
+        artifact.type,
+        artifact.title || null,
+        artifact.uri || null,
+        artifact.updatedAt || null,
+        artifact.meta ? JSON.stringify(artifact.meta) : null
+      );
+    return result.changes > 0;
+  }
+
   getArtifact(artifactId: string): Artifact | null {
-    const row = this.db
-      .prepare("SELECT * FROM artifacts WHERE artifactId = ?")
+    const row = this.prepare("SELECT * FROM artifacts WHERE artifactId = ?")
       .get(artifactId) as ArtifactRow | undefined;
 
     if (!row) return null;
 
-    return {
-      artifactId: row.artifactId,
-      type: row.type,
-      title: row.title || undefined,
-      uri: row.uri || undefined,
-      updatedAt: row.updatedAt || undefined,
-      meta: row.meta ? (JSON.parse(row.meta) as Record<string, string | number | boolean>) : undefined,
-    };
+    return rowToArtifact(row);
+  }
+
+  upsertArtifacts(artifacts: Iterable<Artifact>, options: BulkWriteOptions = {}): number {
+    return this.writeInBatches(artifacts, (a) => this.upsertArtifact(a), options);
+  }
+
+  getArtifacts(artifactIds: string[]): Artifact[] {
+    if (artifactIds.length === 0) return [];
+
+    const placeholders = artifactIds.map(() => "?").join(",");
+    const rows = this.db
+      .prepare(`SELECT * FROM artifacts WHERE artifactId IN (${placeholders})`)
+      .all(...artifactIds) as ArtifactRow[];
+
+    return rows.map(rowToArtifact);
   }
 
   // Interaction operations
   upsertInteraction(interaction: Interaction): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO interactions (interactionId, timestamp, input, output, context, dimensions, tags, source)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    const stmt = this.prepare(`
+      INSERT INTO interactions (interactionId, timestamp, input, output, messages, context, dimensions, tags, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(interactionId) DO UPDATE SET
         timestamp = excluded.timestamp,
         input = excluded.input,
         output = excluded.output,
+        messages = excluded.messages,
         context = excluded.context,
         dimensions = excluded.dimensions,
         tags = excluded.tags,
@@ -171,30 +325,40 @@ export class SQLiteStore {
       interaction.timestamp,
       JSON.stringify(interaction.input),
       interaction.output ? JSON.stringify(interaction.output) : null,
+      interaction.messages ? JSON.stringify(interaction.messages) : null,
       interaction.context ? JSON.stringify(interaction.context) : null,
       interaction.dimensions ? JSON.stringify(interaction.dimensions) : null,
       interaction.tags ? JSON.stringify(interaction.tags) : null,
       interaction.source || null
     );
+    this.indexInteraction(interaction);
+  }
+
+  // Keep the full-text index in step with the interactions table
+  private indexInteraction(interaction: Interaction): void {
+    this.prepare(
+      "INSERT INTO search_documents (interactionId) VALUES (?) ON CONFLICT(interactionId) DO NOTHING"
+    ).run(interaction.interactionId);
+    const { docId } = this.prepare("SELECT docId FROM search_documents WHERE interactionId = ?")
+      .get(interaction.interactionId) as { docId: number };
+
+    const doc = searchDocument(interaction);
+    this.prepare("DELETE FROM search_index WHERE rowid = ?").run(docId);
+    this.prepare("INSERT INTO search_index (rowid, input, output, snippets) VALUES (?, ?, ?, ?)")
+      .run(docId, doc.input, doc.output, doc.snippets);
+  }
+
+  upsertInteractions(interactions: Iterable<Interaction>, options: BulkWriteOptions = {}): number {
+    return this.writeInBatches(interactions, (i) => this.upsertInteraction(i), options);
   }
 
   getInteraction(interactionId: string): Interaction | null {
-    const row = this.db
-      .prepare("SELECT * FROM interactions WHERE interactionId = ?")
+    const row = this.prepare("SELECT * FROM interactions WHERE interactionId = ?")
       .get(interactionId) as InteractionRow | undefined;
 
     if (!row) return null;
 
-    return {
-      interactionId: row.interactionId,
-      timestamp: row.timestamp,
-      input: JSON.parse(row.input) as Interaction["input"],
-      output: row.output ? (JSON.parse(row.output) as Interaction["output"]) : undefined,
-      context: row.context ? (JSON.parse(row.context) as Interaction["context"]) : undefined,
-      dimensions: row.dimensions ? (JSON.parse(row.dimensions) as Interaction["dimensions"]) : undefined,
-      tags: row.tags ? (JSON.parse(row.tags) as Interaction["tags"]) : undefined,
-      source: row.source || undefined,
-    };
+    return rowToInteraction(row);
   }
 
   getInteractions(interactionIds: string[]): Interaction[] {
@@ -205,55 +369,137 @@ export class SQLiteStore {
       .prepare(`SELECT * FROM interactions WHERE interactionId IN (${placeholders})`)
       .all(...interactionIds) as InteractionRow[];
 
-    return rows.map((row) => ({
-      interactionId: row.interactionId,
-      timestamp: row.timestamp,
-      input: JSON.parse(row.input) as Interaction["input"],
-      output: row.output ? (JSON.parse(row.output) as Interaction["output"]) : undefined,
-      context: row.context ? (JSON.parse(row.context) as Interaction["context"]) : undefined,
-      dimensions: row.dimensions ? (JSON.parse(row.dimensions) as Interaction["dimensions"]) : undefined,
-      tags: row.tags ? (JSON.parse(row.tags) as Interaction["tags"]) : undefined,
-      source: row.source || undefined,
-    }));
+    return rows.map(rowToInteraction);
   }
 
-  getAllInteractions(where?: Record<string, string>): Interaction[] {
-    let query = "SELECT * FROM interactions";
-    const conditions: string[] = [];
-    const values: string[] = [];
+  /**
+   * The subset of `interactionIds` that exist in the store
+   */
+  getKnownInteractionIds(interactionIds: string[]): Set<string> {
+    if (interactionIds.length === 0) return new Set();
 
-    if (where) {
-      for (const [key, value] of Object.entries(where)) {
-        conditions.push(`json_extract(dimensions, '$.${key}') = ?`);
-        values.push(value);
-      }
-      if (conditions.length > 0) {
-        query += " WHERE " + conditions.join(" AND ");
-      }
+    const placeholders = interactionIds.map(() => "?").join(",");
+    const rows = this.db
+      .prepare(`SELECT interactionId FROM interactions WHERE interactionId IN (${placeholders})`)
+      .all(...interactionIds) as Array<{ interactionId: string }>;
+
+    return new Set(rows.map((r) => r.interactionId));
+  }
+
+  getAllInteractions(): Interaction[] {
+    return this.findInteractions();
+  }
+
+  /**
+   * Every dimension key in the store with its values, both sorted
+   */
+  getDimensionValues(): Record<string, string[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT DISTINCT d.key AS key, d.value AS value
+        FROM interactions, json_each(interactions.dimensions) d
+        ORDER BY d.key, d.value
+      `)
+      .all() as Array<{ key: string; value: string }>;
+
+    const values: Record<string, string[]> = {};
+    for (const row of rows) {
+      (values[row.key] ??= []).push(String(row.value));
     }
+    return values;
+  }
 
-    const rows = this.db.prepare(query).all(...values) as InteractionRow[];
+  /**
+   * Interactions matching a filter expression. SQLite evaluates what it
+   * can; the rest (regex matches) runs in memory on the rows it returns.
+   */
+  findInteractions(filter?: FilterExpr): Interaction[] {
+    const plan = filter ? planFilter(filter) : {};
+    const query = plan.sql
+      ? `SELECT * FROM interactions WHERE ${plan.sql.where}`
+      : "SELECT * FROM interactions";
 
-    return rows.map((row) => ({
-      interactionId: row.interactionId,
-      timestamp: row.timestamp,
-      input: JSON.parse(row.input) as Interaction["input"],
-      output: row.output ? (JSON.parse(row.output) as Interaction["output"]) : undefined,
-      context: row.context ? (JSON.parse(row.context) as Interaction["context"]) : undefined,
-      dimensions: row.dimensions ? (JSON.parse(row.dimensions) as Interaction["dimensions"]) : undefined,
-      tags: row.tags ? (JSON.parse(row.tags) as Interaction["tags"]) : undefined,
-      source: row.source || undefined,
-    }));
+    const rows = this.db.prepare(query).all(...(plan.sql?.params ?? [])) as InteractionRow[];
+    const interactions = rows.map(rowToInteraction);
+
+    const residual = plan.residual;
+    if (!residual) return interactions;
+
+    const labels = usesLabels(residual) ? this.getLabelsById(interactions) : new Map<string, Label[]>();
+    return interactions.filter((i) => matchesFilter(residual, i, labels.get(i.interactionId)));
+  }
+
+  private getLabelsById(interactions: Interaction[]): Map<string, Label[]> {
+    const labels: Label[] = [];
+    for (const batch of inBatches(interactions, DEFAULT_BATCH_SIZE)) {
+      labels.push(...this.getLabels(batch.map((i) => i.interactionId)));
+    }
+    return groupByInteraction(labels);
+  }
+
+  /**
+   * Full-text search over input, output and retrieved snippets, best
+   * matches first. `match` is an FTS5 query (see toFtsQuery).
+   */
+  searchInteractions(match: string, options: SearchOptions = {}): SearchHit[] {
+    const { open, close } = options.highlight ?? { open: "[", close: "]" };
+    const plan = options.filter ? planFilter(options.filter) : {};
+    // With a residual filter the limit can only be applied after it
+    const limit = plan.residual ? undefined : options.limit;
+
+    const highlights = SEARCH_FIELDS.map(
+      (field, column) =>
+        `snippet(search_index, ${column}, ?, ?, '…', ${HIGHLIGHT_TOKENS}) AS ${field}Highlight`
+    );
+    const query = `
+      SELECT interactions.*, -bm25(search_index) AS score, ${highlights.join(", ")}
+      FROM search_index
+      JOIN search_documents ON search_documents.docId = search_index.rowid
+      JOIN interactions ON interactions.interactionId = search_documents.interactionId
+      WHERE search_index MATCH ?${plan.sql ? ` AND ${plan.sql.where}` : ""}
+      ORDER BY score DESC, interactions.interactionId
+      ${limit !== undefined ? "LIMIT ?" : ""}
+    `;
+    const params: unknown[] = [
+      ...SEARCH_FIELDS.flatMap(() => [open, close]),
+      match,
+      ...(plan.sql?.params ?? []),
+      ...(limit !== undefined ? [limit] : []),
+    ];
+
+    const rows = this.db.prepare(query).all(...params) as Array<
+      InteractionRow & { score: number } & Record<string, string | null>
+    >;
+
+    let hits: SearchHit[] = rows.map((row) => {
+      const hit: SearchHit = { interaction: rowToInteraction(row), score: row.score, highlights: {} };
+      for (const field of SEARCH_FIELDS) {
+        // snippet() returns the start of an unmatched column too; skip those
+        const text = row[`${field}Highlight`];
+        if (text && text.includes(open)) hit.highlights[field] = text;
+      }
+      return hit;
+    });
+
+    const residual = plan.residual;
+    if (residual) {
+      const labels = usesLabels(residual)
+        ? this.getLabelsById(hits.map((h) => h.interaction))
+        : new Map<string, Label[]>();
+      hits = hits.filter((h) =>
+        matchesFilter(residual, h.interaction, labels.get(h.interaction.interactionId))
+      );
+      if (options.limit !== undefined) hits = hits.slice(0, options.limit);
+    }
+    return hits;
   }
 
   // Label operations
   upsertLabel(label: Label): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO labels (interactionId, reviewedAt, reviewer, verdict, notes, expected)
+    const stmt = this.prepare(`
+      INSERT INTO labels (interactionId, reviewer, reviewedAt, verdict, notes, expected)
       VALUES (?, ?, ?, ?, ?, ?)
-      ON CONFLICT(interactionId) DO UPDATE SET
-        reviewedAt = excluded.reviewedAt,
-        reviewer = excluded.reviewer,
+      ON CONFLICT(interactionId, reviewer, reviewedAt) DO UPDATE SET
         verdict = excluded.verdict,
         notes = excluded.notes,
         expected = excluded.expected
@@ -261,47 +507,121 @@ export class SQLiteStore {
 
     stmt.run(
       label.interactionId,
-      label.reviewedAt,
       label.reviewer,
+      label.reviewedAt,
       label.verdict,
       label.notes || null,
       label.expected ? JSON.stringify(label.expected) : null
     );
   }
 
-  getLabel(interactionId: string): Label | null {
-    const row = this.db
-      .prepare("SELECT * FROM labels WHERE interactionId = ?")
-      .get(interactionId) as LabelRow | undefined;
+  upsertLabels(labels: Iterable<Label>, options: BulkWriteOptions = {}): number {
+    return this.writeInBatches(labels, (l) => this.upsertLabel(l), options);
+  }
 
-    if (!row) return null;
+  /**
+   * The most recent label of an interaction
+   */
+  getLatestLabel(interactionId: string): Label | null {
+    return resolveLabel(this.getLabels([interactionId]), { policy: "latest" });
+  }
 
-    return {
-      interactionId: row.interactionId,
-      reviewedAt: row.reviewedAt,
-      reviewer: row.reviewer,
-      verdict: row.verdict as "pass" | "fail" | "needs_clarification",
-      notes: row.notes || undefined,
-      expected: row.expected ? (JSON.parse(row.expected) as Label["expected"]) : undefined,
-    };
+  /**
+   * Each reviewer's most recent label of an interaction, most recent first
+   */
+  getLabelsByReviewer(interactionId: string): Label[] {
+    return latestPerReviewer(this.getLabels([interactionId]));
+  }
+
+  /**
+   * Every write to an interaction's labels, oldest first, including
+   * labels since replaced or deleted
+   */
+  getLabelHistory(interactionId: string): LabelHistoryEntry[] {
+    const rows = this.prepare("SELECT * FROM label_history WHERE interactionId = ? ORDER BY historyId")
+      .all(interactionId) as Array<LabelRow & { historyId: number; action: string; recordedAt: string }>;
+
+    return rows.map((row) => ({
+      historyId: row.historyId,
+      action: row.action as LabelHistoryEntry["action"],
+      recordedAt: row.recordedAt,
+      label: rowToLabel(row),
+    }));
   }
 
+  /**
+   * Labels whose interaction is not in the store: written with foreign keys
+   * off (e.g. by another SQLite client), or kept from before the labels
+   * table had its key
+   */
+  getOrphanLabelIds(): string[] {
+    const rows = this.db
+      .prepare(`
+        SELECT DISTINCT l.interactionId FROM labels l
+        LEFT JOIN interactions i ON i.interactionId = l.interactionId
+        WHERE i.interactionId IS NULL
+        ORDER BY l.interactionId
+      `)
+      .all() as Array<{ interactionId: string }>;
+    return rows.map((r) => r.interactionId);
+  }
+
+  /**
+   * All labels of the given interactions, every review included
+   */
   getLabels(interactionIds: string[]): Label[] {
     if (interactionIds.length === 0) return [];
 
     const placeholders = interactionIds.map(() => "?").join(",");
     const rows = this.db
-      .prepare(`SELECT * FROM labels WHERE interactionId IN (${placeholders})`)
+      .prepare(
+        `SELECT * FROM labels WHERE interactionId IN (${placeholders}) ORDER BY interactionId, reviewedAt, reviewer`
+      )
       .all(...interactionIds) as LabelRow[];
 
-    return rows.map((row) => ({
-      interactionId: row.interactionId,
-      reviewedAt: row.reviewedAt,
-      reviewer: row.reviewer,
-      verdict: row.verdict as "pass" | "fail" | "needs_clarification",
-      notes: row.notes || undefined,
-      expected: row.expected ? (JSON.parse(row.expected) as Label["expected"]) : undefined,
-    }));
+    return rows.map(rowToLabel);
+  }
+
+  /**
+   * Every label in the store, every review included
+   */
+  getAllLabels(): Label[] {
+    const rows = this.db
+      .prepare("SELECT * FROM labels ORDER BY interactionId, reviewedAt, reviewer")
+      .all() as LabelRow[];
+    return rows.map(rowToLabel);
+  }
+
+  // Assignment operations
+
+  /**
+   * Replace the assignments of a round with the given ones
+   */
+  replaceAssignments(name: string, assignments: Assignment[]): void {
+    this.transaction(() => {
+      this.prepare("DELETE FROM assignments WHERE name = ?").run(name);
+      const insert = this.prepare(
+        "INSERT INTO assignments (name, interactionId, reviewer, assignedAt, overlap) VALUES (?, ?, ?, ?, ?)"
+      );
+      for (const a of assignments) {
+        insert.run(name, a.interactionId, a.reviewer, a.assignedAt, a.overlap ? 1 : 0);
+      }
+    });
+  }
+
+  getAssignments(name: string): Assignment[] {
+    const rows = this.prepare("SELECT * FROM assignments WHERE name = ? ORDER BY reviewer, interactionId")
+      .all(name) as AssignmentRow[];
+    return rows.map(rowToAssignment);
+  }
+
+  /**
+   * Name of the most recently assigned round, if any
+   */
+  getLatestAssignmentName(): string | null {
+    const row = this.prepare("SELECT name FROM assignments ORDER BY assignedAt DESC, name LIMIT 1")
+      .get() as { name: string } | undefined;
+    return row?.name ?? null;
   }
 
   // Dataset version operations
@@ -321,8 +641,7 @@ export class SQLiteStore {
   }
 
   getDatasetVersion(name: string): DatasetVersion | null {
-    const row = this.db
-      .prepare("SELECT * FROM dataset_versions WHERE name = ?")
+    const row = this.prepare("SELECT * FROM dataset_versions WHERE name = ?")
       .get(name) as DatasetVersionRow | undefined;
 
     if (!row) return null;
@@ -357,6 +676,142 @@ export class SQLiteStore {
     });
   }
 
+  // Ingest batch operations
+  createIngestBatch(batch: Omit<IngestBatch, "batchId">): number {
+    const result = this.db
+      .prepare(`
+        INSERT INTO ingest_batches (kind, sourcePath, sha256, createdAt, inserted, updated, skipped, errors, rolledBackAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        batch.kind,
+        batch.sourcePath,
+        batch.sha256,
+        batch.createdAt,
+        batch.inserted,
+        batch.updated,
+        batch.skipped,
+        batch.errors,
+        batch.rolledBackAt || null
+      );
+    return Number(result.lastInsertRowid);
+  }
+
+  updateIngestBatchCounts(
+    batchId: number,
+    counts: Pick<IngestBatch, "inserted" | "updated" | "skipped" | "errors">
+  ): void {
+    this.db
+      .prepare("UPDATE ingest_batches SET inserted = ?, updated = ?, skipped = ?, errors = ? WHERE batchId = ?")
+      .run(counts.inserted, counts.updated, counts.skipped, counts.errors, batchId);
+  }
+
+  markIngestBatchRolledBack(batchId: number, rolledBackAt: string): void {
+    this.db
+      .prepare("UPDATE ingest_batches SET rolledBackAt = ? WHERE batchId = ?")
+      .run(rolledBackAt, batchId);
+  }
+
+  getIngestBatch(batchId: number): IngestBatch | null {
+    const row = this.prepare("SELECT * FROM ingest_batches WHERE batchId = ?")
+      .get(batchId) as IngestBatchDbRow | undefined;
+
+    return row ? rowToIngestBatch(row) : null;
+  }
+
+  listIngestBatches(): IngestBatch[] {
+    const rows = this.db
+      .prepare("SELECT * FROM ingest_batches ORDER BY batchId DESC")
+      .all() as IngestBatchDbRow[];
+
+    return rows.map(rowToIngestBatch);
+  }
+
+  recordIngestBatchRow(row: IngestBatchRow): void {
+    // A record written twice by one batch keeps its first (oldest) previous state
+    this.prepare(`
+        INSERT INTO ingest_batch_rows (batchId, entity, entityId, action, previous)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(batchId, entity, entityId) DO NOTHING
+      `)
+      .run(
+        row.batchId,
+        row.entity,
+        row.entityId,
+        row.action,
+        row.previous ? JSON.stringify(row.previous) : null
+      );
+  }
+
+  recordIngestBatchRows(rows: Iterable<IngestBatchRow>, options: BulkWriteOptions = {}): number {
+    return this.writeInBatches(rows, (row) => this.recordIngestBatchRow(row), options);
+  }
+
+  getIngestBatchRows(batchId: number): IngestBatchRow[] {
+    const rows = this.db
+      .prepare("SELECT * FROM ingest_batch_rows WHERE batchId = ?")
+      .all(batchId) as IngestBatchRowDbRow[];
+
+    return rows.map((row) => ({
+      batchId: row.batchId,
+      entity: row.entity as IngestBatchRow["entity"],
+      entityId: row.entityId,
+      action: row.action as IngestBatchRow["action"],
+      previous: row.previous ? (JSON.parse(row.previous) as IngestBatchRow["previous"]) : undefined,
+    }));
+  }
+
+  /**
+   * Batches after `batchId` (not rolled back) that wrote any of the same rows
+   */
+  getLaterBatchesTouchingRows(batchId: number): number[] {
+    const rows = this.db
+      .prepare(`
+        SELECT DISTINCT later.batchId AS batchId
+        FROM ingest_batch_rows own
+        JOIN ingest_batch_rows later
+          ON later.entity = own.entity AND later.entityId = own.entityId AND later.batchId > own.batchId
+        JOIN ingest_batches b ON b.batchId = later.batchId
+        WHERE own.batchId = ? AND b.rolledBackAt IS NULL
+        ORDER BY later.batchId
+      `)
+      .all(batchId) as Array<{ batchId: number }>;
+
+    return rows.map((r) => r.batchId);
+  }
+
+  // Deletes (used by batch rollback)
+  deleteInteraction(interactionId: string): void {
+    this.prepare("DELETE FROM interactions WHERE interactionId = ?").run(interactionId);
+    this.prepare(
+      "DELETE FROM search_index WHERE rowid = (SELECT docId FROM search_documents WHERE interactionId = ?)"
+    ).run(interactionId);
+    this.prepare("DELETE FROM search_documents WHERE interactionId = ?").run(interactionId);
+  }
+
+  deleteArtifact(artifactId: string): void {
+    this.prepare("DELETE FROM artifacts WHERE artifactId = ?").run(artifactId);
+  }
+
+  deleteLabel(key: LabelKey): void {
+    this.prepare("DELETE FROM labels WHERE interactionId = ? AND reviewer = ? AND reviewedAt = ?")
+      .run(key.interactionId, key.reviewer, key.reviewedAt);
+  }
+
+  /**
+   * Delete all labels of an interaction; returns the number deleted
+   */
+  deleteLabels(interactionId: string): number {
+    return this.prepare("DELETE FROM labels WHERE interactionId = ?").run(interactionId).changes;
+  }
+
+  /**
+   * Run `fn` inside a single transaction; it is rolled back if `fn` throws
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
   close(): void {
     this.db.close();
   }
@@ -9,6 +9,16 @@ export interface RetrievalItem {
   score?: number;
 }
 
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  context?: {
+    retrieval?: {
+      items: RetrievalItem[];
+    };
+  };
+}
+
 export interface Interaction {
   interactionId: string;
   timestamp: string; // ISO string
@@ -18,6 +28,7 @@ export interface Interaction {
   output?: {
     text: string;
   };
+  messages?: ChatMessage[]; // Multi-turn conversation, oldest turn first
   context?: {
     retrieval?: {
       items: RetrievalItem[];
@@ -52,6 +63,30 @@ export interface Label {
   };
 }
 
+/**
+ * A write to the labels table, as kept in the label history
+ */
+export interface LabelHistoryEntry {
+  historyId: number;
+  action: "insert" | "update" | "delete";
+  recordedAt: string; // ISO string
+  /** The label as written (for deletes, as it was before) */
+  label: Label;
+}
+
+/**
+ * An interaction given to a reviewer by `label assign`
+ */
+export interface Assignment {
+  /** The assignment round, named after the sample by default */
+  name: string;
+  interactionId: string;
+  reviewer: string;
+  assignedAt: string; // ISO string
+  /** Also given to a second reviewer, to measure agreement */
+  overlap: boolean;
+}
+
 export interface DatasetVersion {
   name: string;
   createdAt: string; // ISO string
@@ -74,3 +109,41 @@ export interface DatasetMetadata {
   };
 }
 
+// "derive" and "enrich" batches come from the `dimensions` commands,
+// "doctor" batches from `doctor --fix`
+export type IngestBatchKind =
+  | "interactions"
+  | "artifacts"
+  | "labels"
+  | "traces"
+  | "derive"
+  | "enrich"
+  | "doctor";
+
+export interface IngestBatch {
+  batchId: number;
+  kind: IngestBatchKind;
+  sourcePath: string; // Empty when the batch read no file
+  sha256: string;
+  createdAt: string; // ISO string
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  rolledBackAt?: string; // ISO string
+}
+
+export type BatchEntity = "interaction" | "artifact" | "label";
+
+/**
+ * A row written by an ingest batch. `previous` holds the record as it was
+ * before an update, so the batch can be rolled back.
+ */
+export interface IngestBatchRow {
+  batchId: number;
+  entity: BatchEntity;
+  entityId: string;
+  action: "insert" | "update";
+  previous?: Interaction | Artifact | Label;
+}
+
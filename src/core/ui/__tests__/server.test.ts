@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { request } from "http";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { createUiServer } from "../server.js";
+import { SQLiteStore } from "../../store/sqlite.js";
+import type { Interaction } from "../../types.js";
+
+const interactions: Interaction[] = [
+  {
+    interactionId: "q-1",
+    timestamp: "2026-01-05T10:00:00Z",
+    input: { text: "How do refunds work?" },
+    output: { text: "Refunds take <b>30 days</b>." },
+    context: {
+      retrieval: {
+        items: [
+          { artifactId: "kb-1", snippetText: "Refunds are issued within 30 days.", score: 0.9 },
+          { artifactId: "kb-2", snippetText: "Script link" },
+        ],
+      },
+    },
+    dimensions: { intent: "refund" },
+  },
+  {
+    interactionId: "q-2",
+    timestamp: "2026-01-06T10:00:00Z",
+    input: { text: "Reset my password" },
+    dimensions: { intent: "account" },
+  },
+  {
+    interactionId: "q/3",
+    timestamp: "2026-01-07T10:00:00Z",
+    input: { text: "Cancel my order" },
+    dimensions: { intent: "refund" },
+  },
+  {
+    interactionId: "q-4",
+    timestamp: "2026-01-08T10:00:00Z",
+    input: { text: "Already reviewed" },
+    dimensions: { intent: "refund" },
+  },
+];
+
+describe("labeling UI server", () => {
+  let tempDir: string;
+  let store: SQLiteStore;
+  let server: Server;
+  let base: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "goldenset-ui-test-"));
+    store = new SQLiteStore(join(tempDir, "db.sqlite"));
+    store.upsertInteractions(interactions);
+    store.upsertArtifact({ artifactId: "kb-1", type: "doc", title: "Refund policy", uri: "https://kb.example.com/refunds" });
+    store.upsertArtifact({ artifactId: "kb-2", type: "doc", title: "Bad link", uri: "javascript:alert(1)" });
+    store.upsertLabel({ interactionId: "q-4", reviewer: "bob", reviewedAt: "2026-01-09T00:00:00Z", verdict: "pass" });
+    store.upsertLabel({
+      interactionId: "q/3",
+      reviewer: "bob",
+      reviewedAt: "2026-01-09T00:00:00Z",
+      verdict: "needs_clarification",
+    });
+
+    server = createUiServer(store, { now: () => new Date("2026-02-01T00:00:00Z") });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  function post(path: string, form: Record<string, string>, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers },
+      body: new URLSearchParams(form).toString(),
+      redirect: "manual",
+    });
+  }
+
+  it("queues unlabeled and needs_clarification interactions, filtered by dimension", async () => {
+    const res = await fetch(`${base}/`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/html");
+    const html = await res.text();
+    expect(html).toContain("3 to review");
+    expect(html).toContain('href="/interactions/q%2F3"');
+    expect(html).not.toContain("/interactions/q-4");
+    expect(html).toContain('<option value="account">account</option>');
+
+    const filtered = await (await fetch(`${base}/?dim.intent=refund`)).text();
+    expect(filtered).toContain("2 to review");
+    expect(filtered).toContain('<option value="refund" selected>');
+    expect(filtered).toContain('href="/interactions/q-1?dim.intent=refund"');
+    expect(filtered).not.toContain("/interactions/q-2");
+
+    const where = await (await fetch(`${base}/?where=${encodeURIComponent("input ~ password")}`)).text();
+    expect(where).toContain("1 to review");
+
+    const invalid = await (await fetch(`${base}/?where=${encodeURIComponent("intent=")}`)).text();
+    expect(invalid).toContain("Invalid filter");
+  });
+
+  it("shows an interaction with its snippets, linking safe artifact URIs", async () => {
+    const res = await fetch(`${base}/interactions/q-1`);
+    expect(res.status).toBe(200);
+    const html = await res.text();
+
+    expect(html).toContain("How do refunds work?");
+    expect(html).toContain("Refunds take &lt;b&gt;30 days&lt;/b&gt;.");
+    expect(html).toContain('<a href="https://kb.example.com/refunds" target="_blank" rel="noopener noreferrer">Refund policy</a>');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("Bad link");
+    expect(html).toContain('name="mustInclude"');
+    expect(html).toContain('action="/interactions/q-1/labels"');
+    expect(html).toContain('href="/interactions/q-2">Next');
+
+    expect((await fetch(`${base}/interactions/missing`)).status).toBe(404);
+    expect((await fetch(`${base}/nowhere`)).status).toBe(404);
+  });
+
+  it("saves labels to the store and moves on to the next in the queue", async () => {
+    const res = await post("/interactions/q-1/labels", {
+      reviewer: "alice",
+      verdict: "fail",
+      notes: "wrong period",
+      expectedAnswer: "Within 14 days",
+      mustInclude: "14 days\r\nreceipt\r\n",
+      mustNotInclude: "",
+      query: "dim.intent=refund",
+    });
+
+    expect(res.status).toBe(303);
+    expect(res.headers.get("location")).toBe("/interactions/q%2F3?dim.intent=refund");
+    expect(res.headers.get("set-cookie")).toContain("goldenset_reviewer=alice");
+    expect(store.getLatestLabel("q-1")).toEqual({
+      interactionId: "q-1",
+      reviewer: "alice",
+      reviewedAt: "2026-02-01T00:00:00.000Z",
+      verdict: "fail",
+      notes: "wrong period",
+      expected: { expectedAnswer: "Within 14 days", mustInclude: ["14 days", "receipt"] },
+    });
+
+    // The reviewer's label fills the form when they come back
+    const html = await (await fetch(`${base}/interactions/q-1`, { headers: { Cookie: "goldenset_reviewer=alice" } })).text();
+    expect(html).toContain('value="fail" checked');
+    expect(html).toContain("14 days\nreceipt</textarea>");
+
+    // The last in the queue goes back to the queue
+    const last = await post("/interactions/q%2F3/labels", { reviewer: "alice", verdict: "pass", query: "dim.intent=refund" });
+    expect(last.headers.get("location")).toBe("/?dim.intent=refund&saved=q%2F3");
+  });
+
+  it("rejects invalid labels with the form and its error", async () => {
+    const res = await post("/interactions/q-2/labels", { reviewer: "alice", verdict: "maybe", notes: "hmm" });
+    expect(res.status).toBe(400);
+    const html = await res.text();
+    expect(html).toContain("Invalid label");
+    expect(html).toContain("hmm</textarea>");
+    expect(store.getLabels(["q-2"])).toEqual([]);
+
+    const noReviewer = await post("/interactions/q-2/labels", { reviewer: " ", verdict: "pass" });
+    expect(noReviewer.status).toBe(400);
+    expect(await noReviewer.text()).toContain("reviewer is required");
+  });
+
+  it("refuses cross-origin writes and foreign hosts", async () => {
+    const res = await post(
+      "/interactions/q-2/labels",
+      { reviewer: "mallory", verdict: "pass" },
+      { Origin: "https://evil.example.com" }
+    );
+    expect(res.status).toBe(403);
+    expect(store.getLabels(["q-2"])).toEqual([]);
+
+    const sameOrigin = await post("/interactions/q-2/labels", { reviewer: "alice", verdict: "pass" }, { Origin: base });
+    expect(sameOrigin.status).toBe(303);
+
+    expect((await fetch(`${base}/interactions/q-2`, { method: "DELETE" })).status).toBe(405);
+
+    // A page fetched under another host name, as by DNS rebinding
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      request(`${base}/`, { headers: { Host: "evil.example.com" } }, (r) => {
+        r.resume();
+        resolve(r.statusCode);
+      })
+        .on("error", reject)
+        .end();
+    });
+    expect(status).toBe(403);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * HTML helpers for the labeling UI. Pages are plain server-rendered HTML
+ * with inline styles, so the UI needs nothing beyond the CLI itself.
+ */
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ESCAPES[c]);
+}
+
+/**
+ * A URL safe to link to: http(s) only, so stored data cannot inject
+ * `javascript:` links
+ */
+export function safeHref(uri: string | undefined): string | null {
+  if (!uri) return null;
+  try {
+    const url = new URL(uri);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem 2rem; color: #222; }
+  a { color: #0645ad; }
+  header { display: flex; gap: 1.5rem; align-items: baseline; border-bottom: 1px solid #ddd; margin-bottom: 1rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #eee; vertical-align: top; }
+  pre { white-space: pre-wrap; background: #f6f6f6; padding: 0.75rem; border-radius: 4px; }
+  form.filters { display: flex; flex-wrap: wrap; gap: 0.75rem; align-items: end; margin-bottom: 1rem; }
+  form.label label { display: block; margin-top: 0.75rem; font-weight: 600; }
+  form.label textarea, form.label input[type=text] { width: 100%; box-sizing: border-box; }
+  .verdicts label { display: inline; font-weight: normal; margin-right: 1rem; }
+  .muted { color: #777; }
+  .error { color: #b00020; }
+  .notice { color: #1b5e20; }
+`;
+
+/**
+ * A complete page around `body`
+ */
+export function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} - goldenset</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header><h1>goldenset</h1><a href="/">Queue</a></header>
+${body}
+</body>
+</html>
+`;
+}
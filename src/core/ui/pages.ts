@@ -0,0 +1,202 @@
+import type { Artifact, Interaction, Label, RetrievalItem } from "../types.js";
+import { EXPECTED_FIELDS } from "../labels/review.js";
+import { VERDICTS } from "../labels/agreement.js";
+import type { QueueItem } from "../labels/queue.js";
+import { escapeHtml, page, safeHref } from "./html.js";
+
+export interface QueuePageData {
+  items: QueueItem[];
+  /** Queue length before the display limit */
+  total: number;
+  /** Dimension values to filter by */
+  dimensions: Record<string, string[]>;
+  /** Selected dimension values, by key */
+  selected: Record<string, string>;
+  where: string;
+  /** The queue's query string, carried to interaction pages */
+  query: string;
+  error?: string;
+  /** Interaction just labeled */
+  saved?: string;
+}
+
+export interface InteractionPageData {
+  interaction: Interaction;
+  artifacts: Map<string, Artifact>;
+  /** Every label of the interaction */
+  labels: Label[];
+  effective: Label | null;
+  /** Form values: the reviewer's latest label, or what they just submitted */
+  draft: Partial<Label> | null;
+  reviewer: string;
+  query: string;
+  /** Next interaction in the queue */
+  next?: string;
+  error?: string;
+}
+
+export function interactionPath(interactionId: string, query = ""): string {
+  return `/interactions/${encodeURIComponent(interactionId)}${query ? `?${query}` : ""}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function dimensionsText(interaction: Interaction): string {
+  return Object.entries(interaction.dimensions ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(" ");
+}
+
+export function renderQueuePage(data: QueuePageData): string {
+  const parts: string[] = [];
+  parts.push("<h2>Review queue</h2>");
+  parts.push('<p class="muted">Interactions without a label, or whose effective label is needs_clarification.</p>');
+
+  if (data.saved) {
+    parts.push(`<p class="notice">Saved label for ${escapeHtml(data.saved)}.</p>`);
+  }
+
+  const selects = Object.entries(data.dimensions).map(([key, values]) => {
+    const options = values
+      .map((value) => {
+        const selected = data.selected[key] === value ? " selected" : "";
+        return `<option value="${escapeHtml(value)}"${selected}>${escapeHtml(value)}</option>`;
+      })
+      .join("");
+    return `<label>${escapeHtml(key)}<br><select name="dim.${escapeHtml(key)}"><option value="">(any)</option>${options}</select></label>`;
+  });
+  parts.push(`<form class="filters" method="get" action="/">
+${selects.join("\n")}
+<label>where<br><input type="text" name="where" value="${escapeHtml(data.where)}" placeholder="e.g. tag=vip"></label>
+<button type="submit">Filter</button> <a href="/">Clear</a>
+</form>`);
+
+  if (data.error) {
+    parts.push(`<p class="error">${escapeHtml(data.error)}</p>`);
+  }
+
+  if (data.items.length === 0) {
+    parts.push("<p>Nothing to review.</p>");
+    return page("Review queue", parts.join("\n"));
+  }
+
+  const more = data.total > data.items.length ? ` (showing ${data.items.length})` : "";
+  parts.push(`<p>${data.total} to review${more}</p>`);
+  parts.push("<table><thead><tr><th>Interaction</th><th>Input</th><th>Dimensions</th><th>Label</th></tr></thead><tbody>");
+  for (const { interaction, label } of data.items) {
+    const href = interactionPath(interaction.interactionId, data.query);
+    parts.push(
+      `<tr><td><a href="${escapeHtml(href)}">${escapeHtml(interaction.interactionId)}</a></td>` +
+        `<td>${escapeHtml(truncate(interaction.input.text, 120))}</td>` +
+        `<td>${escapeHtml(dimensionsText(interaction))}</td>` +
+        `<td>${label ? escapeHtml(label.verdict) : '<span class="muted">none</span>'}</td></tr>`
+    );
+  }
+  parts.push("</tbody></table>");
+
+  return page("Review queue", parts.join("\n"));
+}
+
+function renderSnippet(item: RetrievalItem, artifacts: Map<string, Artifact>): string {
+  const artifact = item.artifactId ? artifacts.get(item.artifactId) : undefined;
+  const name = escapeHtml(artifact?.title ?? item.artifactId ?? "(unknown source)");
+  const href = safeHref(artifact?.uri);
+  const source = href ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${name}</a>` : name;
+  const chunk = item.chunkId ? ` <span class="muted">#${escapeHtml(item.chunkId)}</span>` : "";
+  const score = item.score !== undefined ? ` <span class="muted">score ${item.score}</span>` : "";
+  const text = item.snippetText ? `<pre>${escapeHtml(item.snippetText)}</pre>` : "";
+  return `<li>${source}${chunk}${score}${text}</li>`;
+}
+
+function expectedValue(draft: Partial<Label> | null, field: (typeof EXPECTED_FIELDS)[number]): string {
+  const value = draft?.expected?.[field];
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join("\n") : value;
+}
+
+export function renderInteractionPage(data: InteractionPageData): string {
+  const { interaction } = data;
+  const parts: string[] = [];
+
+  parts.push(`<p><a href="/${data.query ? `?${escapeHtml(data.query)}` : ""}">&larr; Queue</a>${
+    data.next ? ` | <a href="${escapeHtml(interactionPath(data.next, data.query))}">Next &rarr;</a>` : ""
+  }</p>`);
+  parts.push(`<h2>${escapeHtml(interaction.interactionId)}</h2>`);
+  parts.push(
+    `<p class="muted">${escapeHtml(interaction.timestamp)}${
+      interaction.source ? ` | ${escapeHtml(interaction.source)}` : ""
+    }${dimensionsText(interaction) ? ` | ${escapeHtml(dimensionsText(interaction))}` : ""}${
+      interaction.tags?.length ? ` | tags: ${escapeHtml(interaction.tags.join(", "))}` : ""
+    }</p>`
+  );
+
+  if (interaction.messages && interaction.messages.length > 0) {
+    parts.push("<h3>Conversation</h3>");
+    for (const message of interaction.messages) {
+      parts.push(`<h4>${escapeHtml(message.role)}</h4><pre>${escapeHtml(message.content)}</pre>`);
+    }
+  } else {
+    parts.push(`<h3>Input</h3><pre>${escapeHtml(interaction.input.text)}</pre>`);
+    parts.push(
+      `<h3>Output</h3>${
+        interaction.output ? `<pre>${escapeHtml(interaction.output.text)}</pre>` : '<p class="muted">none</p>'
+      }`
+    );
+  }
+
+  const items: RetrievalItem[] = [
+    ...(interaction.context?.retrieval?.items ?? []),
+    ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+  ];
+  if (items.length > 0) {
+    parts.push("<h3>Retrieved</h3><ol>");
+    parts.push(items.map((item) => renderSnippet(item, data.artifacts)).join("\n"));
+    parts.push("</ol>");
+  }
+
+  if (data.labels.length > 0) {
+    parts.push("<h3>Labels</h3><table><thead><tr><th>Reviewer</th><th>Reviewed at</th><th>Verdict</th><th>Notes</th></tr></thead><tbody>");
+    for (const label of data.labels) {
+      const effective = label === data.effective ? " <strong>(effective)</strong>" : "";
+      parts.push(
+        `<tr><td>${escapeHtml(label.reviewer)}</td><td>${escapeHtml(label.reviewedAt)}</td>` +
+          `<td>${escapeHtml(label.verdict)}${effective}</td><td>${escapeHtml(label.notes ?? "")}</td></tr>`
+      );
+    }
+    parts.push("</tbody></table>");
+  }
+
+  parts.push("<h3>Your label</h3>");
+  if (data.error) {
+    parts.push(`<p class="error">${escapeHtml(data.error)}</p>`);
+  }
+
+  const verdicts = VERDICTS.map((verdict) => {
+    const checked = data.draft?.verdict === verdict ? " checked" : "";
+    return `<label><input type="radio" name="verdict" value="${verdict}"${checked} required> ${verdict}</label>`;
+  }).join("\n");
+
+  const expected = EXPECTED_FIELDS.map((field) => {
+    const hint = field === "expectedAnswer" ? "" : ' <span class="muted">(one per line)</span>';
+    return `<label for="${field}">${field}${hint}</label><textarea id="${field}" name="${field}" rows="${
+      field === "expectedAnswer" ? 4 : 2
+    }">${escapeHtml(expectedValue(data.draft, field))}</textarea>`;
+  }).join("\n");
+
+  parts.push(`<form class="label" method="post" action="${escapeHtml(interactionPath(interaction.interactionId))}/labels">
+<input type="hidden" name="query" value="${escapeHtml(data.query)}">
+<label for="reviewer">Reviewer</label><input type="text" id="reviewer" name="reviewer" value="${escapeHtml(data.reviewer)}" required>
+<label>Verdict</label><div class="verdicts">${verdicts}</div>
+<label for="notes">Notes</label><textarea id="notes" name="notes" rows="3">${escapeHtml(data.draft?.notes ?? "")}</textarea>
+${expected}
+<p><button type="submit">Save label</button></p>
+</form>`);
+
+  return page(interaction.interactionId, parts.join("\n"));
+}
+
+export function renderErrorPage(title: string, message: string): string {
+  return page(title, `<h2>${escapeHtml(title)}</h2><p>${escapeHtml(message)}</p>`);
+}
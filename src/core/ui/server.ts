@@ -0,0 +1,316 @@
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { SQLiteStore } from "../store/sqlite.js";
+import { DEFAULT_BATCH_SIZE } from "../store/sqlite.js";
+import type { FilterExpr } from "../filter/parse.js";
+import { parseFilter } from "../filter/parse.js";
+import { LabelSchema, formatIssues } from "../ingest/schemas.js";
+import { DEFAULT_RESOLUTION, latestPerReviewer, resolveLabel } from "../labels/resolve.js";
+import type { Resolution } from "../labels/config.js";
+import { reviewQueue } from "../labels/queue.js";
+import type { QueueItem } from "../labels/queue.js";
+import { EXPECTED_FIELDS } from "../labels/review.js";
+import type { Interaction, Label } from "../types.js";
+import { inBatches } from "../../util/batch.js";
+import { interactionPath, renderErrorPage, renderInteractionPage, renderQueuePage } from "./pages.js";
+
+export interface UiServerOptions {
+  /** How to pick an interaction's effective label (default: latest) */
+  resolution?: Resolution;
+  /** Reviewer name to prefill until a reviewer saves a label */
+  reviewer?: string;
+  /** Clock for reviewedAt, for tests */
+  now?: () => Date;
+}
+
+// Queue rows shown on the queue page
+const QUEUE_DISPLAY_LIMIT = 200;
+
+// Largest form body accepted
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const REVIEWER_COOKIE = "goldenset_reviewer";
+
+// Host names the server answers to; anything else may be DNS rebinding
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The labeling web app: a review queue with dimension filters, and a page
+ * per interaction with a label form. Serves plain HTML; labels are saved
+ * to the store.
+ */
+export function createUiServer(store: SQLiteStore, options: UiServerOptions = {}): Server {
+  const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+  const now = options.now ?? (() => new Date());
+
+  function labelsOf(interactions: Interaction[]): Label[] {
+    const labels: Label[] = [];
+    for (const batch of inBatches(interactions, DEFAULT_BATCH_SIZE)) {
+      labels.push(...store.getLabels(batch.map((i) => i.interactionId)));
+    }
+    return labels;
+  }
+
+  // The queue for a queue query string; throws on an invalid filter
+  function queueFor(params: URLSearchParams): QueueItem[] {
+    const filter = queueFilter(params);
+    const interactions = store.findInteractions(filter);
+    return reviewQueue(interactions, labelsOf(interactions), resolution);
+  }
+
+  function showQueue(url: URL, res: ServerResponse): void {
+    const params = url.searchParams;
+    const selected: Record<string, string> = {};
+    for (const [name, value] of params) {
+      if (name.startsWith("dim.") && value) selected[name.slice(4)] = value;
+    }
+
+    let items: QueueItem[] = [];
+    let error: string | undefined;
+    try {
+      items = queueFor(params);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    send(
+      res,
+      200,
+      renderQueuePage({
+        items: items.slice(0, QUEUE_DISPLAY_LIMIT),
+        total: items.length,
+        dimensions: store.getDimensionValues(),
+        selected,
+        where: params.get("where") ?? "",
+        query: queueQuery(params),
+        error,
+        saved: params.get("saved") ?? undefined,
+      })
+    );
+  }
+
+  function showInteraction(
+    req: IncomingMessage,
+    res: ServerResponse,
+    interaction: Interaction,
+    query: string,
+    form?: { draft: Partial<Label>; reviewer: string; error: string }
+  ): void {
+    const labels = store.getLabels([interaction.interactionId]);
+    const reviewer = form?.reviewer ?? reviewerFrom(req) ?? options.reviewer ?? "";
+    const own = latestPerReviewer(labels).find((l) => l.reviewer === reviewer) ?? null;
+
+    const artifactIds = [
+      ...(interaction.context?.retrieval?.items ?? []),
+      ...(interaction.messages ?? []).flatMap((m) => m.context?.retrieval?.items ?? []),
+    ].flatMap((item) => (item.artifactId ? [item.artifactId] : []));
+    const artifacts = new Map(store.getArtifacts([...new Set(artifactIds)]).map((a) => [a.artifactId, a]));
+
+    send(
+      res,
+      form ? 400 : 200,
+      renderInteractionPage({
+        interaction,
+        artifacts,
+        labels,
+        effective: resolveLabel(labels, resolution),
+        draft: form?.draft ?? own,
+        reviewer,
+        query,
+        next: nextInQueue(query, interaction.interactionId),
+        error: form?.error,
+      })
+    );
+  }
+
+  // The queue item after `interactionId`, or the first if it is not queued
+  function nextInQueue(query: string, interactionId: string): string | undefined {
+    let queue: QueueItem[];
+    try {
+      queue = queueFor(new URLSearchParams(query));
+    } catch {
+      return undefined;
+    }
+    const ids = queue.map((item) => item.interaction.interactionId);
+    const index = ids.indexOf(interactionId);
+    return index === -1 ? ids[0] : ids[index + 1];
+  }
+
+  async function saveLabel(req: IncomingMessage, res: ServerResponse, interaction: Interaction): Promise<void> {
+    const form = new URLSearchParams(await readBody(req));
+    const query = form.get("query") ?? "";
+    const reviewer = (form.get("reviewer") ?? "").trim();
+    const draft = labelFromForm(form, interaction.interactionId, reviewer, now());
+
+    const result = LabelSchema.safeParse(draft);
+    if (!reviewer || !result.success) {
+      const error = !reviewer || result.success ? "reviewer is required" : formatIssues(result.error.issues);
+      showInteraction(req, res, interaction, query, { draft, reviewer, error: `Invalid label: ${error}` });
+      return;
+    }
+
+    store.upsertLabel(result.data);
+
+    const next = nextInQueue(query, interaction.interactionId);
+    const params = new URLSearchParams(query);
+    params.set("saved", interaction.interactionId);
+    res.writeHead(303, {
+      Location: next ? interactionPath(next, query) : `/?${params.toString()}`,
+      "Set-Cookie": `${REVIEWER_COOKIE}=${encodeURIComponent(reviewer)}; Path=/; SameSite=Strict; HttpOnly`,
+    });
+    res.end();
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    checkOrigin(req);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+
+    if (path === "/") {
+      if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+      showQueue(url, res);
+      return;
+    }
+
+    const match = /^\/interactions\/([^/]+)(\/labels)?$/.exec(path);
+    if (!match) throw new HttpError(404, `Not found: ${path}`);
+
+    let interactionId: string;
+    try {
+      interactionId = decodeURIComponent(match[1]);
+    } catch {
+      throw new HttpError(400, `Bad interaction id: ${match[1]}`);
+    }
+    const interaction = store.getInteraction(interactionId);
+    if (!interaction) throw new HttpError(404, `Interaction not found: ${interactionId}`);
+
+    if (match[2]) {
+      if (req.method !== "POST") throw new HttpError(405, "Method not allowed");
+      await saveLabel(req, res, interaction);
+    } else {
+      if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+      showInteraction(req, res, interaction, queueQuery(url.searchParams));
+    }
+  }
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        send(res, status, renderErrorPage(status === 500 ? "Server error" : `Error ${status}`, message));
+      }
+    });
+  });
+}
+
+/**
+ * The queue filter: selected dimension values (`dim.<key>=<value>`) and a
+ * `where` filter expression, all of which must hold
+ */
+function queueFilter(params: URLSearchParams): FilterExpr | undefined {
+  const terms: FilterExpr[] = [];
+  for (const [name, value] of params) {
+    if (name.startsWith("dim.") && value) {
+      terms.push({ type: "compare", field: { name: "dimension", key: name.slice(4) }, op: "=", value });
+    }
+  }
+  const where = params.get("where")?.trim();
+  if (where) terms.push(parseFilter(where));
+
+  if (terms.length === 0) return undefined;
+  return terms.length === 1 ? terms[0] : { type: "and", terms };
+}
+
+// The parameters that select the queue, as a query string
+function queueQuery(params: URLSearchParams): string {
+  const query = new URLSearchParams();
+  for (const [name, value] of params) {
+    if ((name.startsWith("dim.") || name === "where") && value) query.append(name, value);
+  }
+  return query.toString();
+}
+
+/**
+ * A label from the form fields; list fields of `expected` take one item
+ * per line. Not validated.
+ */
+function labelFromForm(form: URLSearchParams, interactionId: string, reviewer: string, reviewedAt: Date): Partial<Label> {
+  const expected: Record<string, string | string[]> = {};
+  for (const field of EXPECTED_FIELDS) {
+    const value = (form.get(field) ?? "").trim();
+    if (!value) continue;
+    expected[field] =
+      field === "expectedAnswer"
+        ? value
+        : value.split(/\r?\n/).map((s) => s.trim()).filter((s) => s.length > 0);
+  }
+
+  const notes = (form.get("notes") ?? "").trim();
+  return {
+    interactionId,
+    reviewer,
+    reviewedAt: reviewedAt.toISOString(),
+    verdict: (form.get("verdict") ?? undefined) as Label["verdict"],
+    ...(notes ? { notes } : {}),
+    ...(Object.keys(expected).length > 0 ? { expected } : {}),
+  };
+}
+
+/**
+ * Refuse requests that did not come from this server's own pages: a Host
+ * that is not local (DNS rebinding) or, for writes, another Origin
+ */
+function checkOrigin(req: IncomingMessage): void {
+  const host = req.headers.host ?? "";
+  const hostname = host.replace(/:\d+$/, "");
+  if (!LOCAL_HOSTS.has(hostname)) {
+    throw new HttpError(403, `Forbidden host: ${host}`);
+  }
+  const origin = req.headers.origin;
+  if (req.method !== "GET" && origin && origin !== `http://${host}`) {
+    throw new HttpError(403, `Forbidden origin: ${origin}`);
+  }
+}
+
+function reviewerFrom(req: IncomingMessage): string | undefined {
+  for (const cookie of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === REVIEWER_COOKIE) {
+      try {
+        return decodeURIComponent(value.join("=")) || undefined;
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function send(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(html);
+}
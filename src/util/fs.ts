@@ -1,4 +1,4 @@
-import { mkdir, writeFile, readFile } from "fs/promises";
+import { mkdir, writeFile, readFile, rename } from "fs/promises";
 import { existsSync } from "fs";
 import { dirname, join } from "path";
 
@@ -35,6 +35,17 @@ export async function writeText(path: string, content: string): Promise<void> {
   await writeFile(path, content, "utf-8");
 }
 
+/**
+ * Write text to a file through a temporary file, so that an interrupted
+ * write leaves the previous contents in place
+ */
+export async function writeTextAtomic(path: string, content: string): Promise<void> {
+  await ensureDir(dirname(path));
+  const tmp = `${path}.tmp`;
+  await writeFile(tmp, content, "utf-8");
+  await rename(tmp, path);
+}
+
 /**
  * Check if a file exists
  */
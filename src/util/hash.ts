@@ -1,4 +1,5 @@
 import { createHash } from "crypto";
+import { createReadStream } from "fs";
 
 /**
  * Generate a hash for exact deduplication
@@ -7,6 +8,17 @@ export function hashString(input: string): string {
   return createHash("sha256").update(input).digest("hex");
 }
 
+/**
+ * Compute the sha256 of a file's contents (streaming)
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
 /**
  * Hash an interaction for deduplication.
  *
@@ -23,8 +35,37 @@ export function hashString(input: string): string {
  * Rationale:
  * We want to deduplicate prompts while preserving
  * coverage over responses and context.
+ *
+ * Multi-turn interactions hash the conversation up to and including the
+ * last user turn, as normalized "role: content" lines. Trailing assistant
+ * turns are the response and are ignored like output text. A conversation
+ * that is just one user turn hashes the same as its single-turn equivalent.
  */
-export function hashInteraction(interaction: { input: { text: string } }): string {
-  return hashString(interaction.input.text.trim().toLowerCase());
+export function hashInteraction(interaction: {
+  input: { text: string };
+  messages?: Array<{ role: string; content: string }>;
+}): string {
+  const messages = interaction.messages ?? [];
+  let lastUser = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") {
+      lastUser = i;
+      break;
+    }
+  }
+
+  if (lastUser > 0) {
+    const prompt = messages
+      .slice(0, lastUser + 1)
+      .map((m) => `${m.role}: ${normalizeText(m.content)}`)
+      .join("\n");
+    return hashString(prompt);
+  }
+
+  const text = lastUser === 0 ? messages[0].content : interaction.input.text;
+  return hashString(normalizeText(text));
 }
 
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase();
+}